@@ -0,0 +1,116 @@
+import { existsSync, readFileSync } from 'fs'
+import { dirname, join } from 'path'
+import { fileURLToPath } from 'url'
+import type { RulesData } from '../src/types/rules.js'
+import {
+  diffRules,
+  formatRulesDiffMarkdown,
+  type RulesDiff,
+} from '../src/utils/rulesDiff.js'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = dirname(__filename)
+
+const SNAPSHOT_DIR = join(__dirname, '../src/data/rules')
+
+type OutputFormat = 'markdown' | 'json'
+
+/**
+ * スナップショットを読み込む
+ *
+ * バージョン（"0.4.10"）を指定した場合は src/data/rules/<version>.json、
+ * それ以外はファイルパスとして扱う。
+ */
+function loadSnapshot(target: string, snapshotDir = SNAPSHOT_DIR): RulesData {
+  const snapshotPath = join(snapshotDir, `${target}.json`)
+  const path = existsSync(snapshotPath) ? snapshotPath : target
+
+  if (!existsSync(path)) {
+    throw new Error(`Rules snapshot not found: ${target}`)
+  }
+  return JSON.parse(readFileSync(path, 'utf-8')) as RulesData
+}
+
+/**
+ * 差分を指定した形式で出力
+ */
+function formatDiff(diff: RulesDiff, format: OutputFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(
+      {
+        from: diff.from,
+        to: diff.to,
+        added: diff.added.map(({ code, name, status, documentUrl }) => ({
+          code,
+          name,
+          status,
+          documentUrl,
+        })),
+        removed: diff.removed.map(({ code, name, documentUrl }) => ({
+          code,
+          name,
+          documentUrl,
+        })),
+        statusChanges: diff.statusChanges.map(({ rule, before, after }) => ({
+          code: rule.code,
+          name: rule.name,
+          before,
+          after,
+          documentUrl: rule.documentUrl,
+        })),
+      },
+      null,
+      2
+    )
+  }
+  return formatRulesDiffMarkdown(diff)
+}
+
+/**
+ * 引数を解析（例: `0.4.10 0.14.10 --format json`）
+ */
+function parseArgs(args: string[]): {
+  from: string
+  to: string
+  format: OutputFormat
+} {
+  const formatIndex = args.indexOf('--format')
+  const format = formatIndex === -1 ? 'markdown' : args[formatIndex + 1]
+  if (format !== 'markdown' && format !== 'json') {
+    throw new Error(`Unknown format: ${format}`)
+  }
+
+  const positional =
+    formatIndex === -1
+      ? args
+      : args.filter((_, i) => i !== formatIndex && i !== formatIndex + 1)
+  if (positional.length !== 2) {
+    throw new Error(
+      'Usage: npm run diff-rules -- <from> <to> [--format markdown|json]'
+    )
+  }
+
+  return { from: positional[0], to: positional[1], format }
+}
+
+/**
+ * メイン処理
+ */
+function main(args: string[]): void {
+  const { from, to, format } = parseArgs(args)
+  const diff = diffRules(loadSnapshot(from), loadSnapshot(to))
+  console.log(formatDiff(diff, format))
+}
+
+// スクリプトとして実行された場合
+if (import.meta.url === `file://${process.argv[1]}`) {
+  try {
+    main(process.argv.slice(2))
+  } catch (error) {
+    console.error('Error:', error instanceof Error ? error.message : error)
+    process.exit(1)
+  }
+}
+
+// テスト用にエクスポート
+export { formatDiff, loadSnapshot, parseArgs }
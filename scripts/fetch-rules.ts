@@ -2,12 +2,18 @@ import { writeFileSync, mkdirSync } from 'fs'
 import { dirname, join } from 'path'
 import { fileURLToPath } from 'url'
 import { execSync } from 'child_process'
-import type { RuffRule, RuffVersion, RulesData } from '../src/types/rules.js'
+import type {
+  FixAvailability,
+  RuffRule,
+  RuffVersion,
+  RulesData,
+} from '../src/types/rules.js'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = dirname(__filename)
 
-const OUTPUT_PATH = join(__dirname, '../src/data/rules.json')
+// バージョンごとのスナップショット（src/data/rules/<version>.json）の保存先
+const OUTPUT_DIR = join(__dirname, '../src/data/rules')
 
 type RuleStatus = 'stable' | 'preview' | 'deprecated' | 'removed'
 
@@ -28,11 +34,21 @@ function executeCommand(command: string): string {
   }
 }
 
+/**
+ * 指定したバージョンのRuffを実行するコマンド（"latest" は最新版）
+ */
+function ruffCommand(version = 'latest'): string {
+  return version === 'latest' ? 'uvx ruff' : `uvx ruff@${version}`
+}
+
 /**
  * CLIからRuffバージョンを取得
  */
-function getRuffVersion(): RuffVersion {
-  const output = executeCommand('uvx ruff --version')
+function getRuffVersion(
+  run: (command: string) => string = executeCommand,
+  ruff = ruffCommand()
+): RuffVersion {
+  const output = run(`${ruff} --version`)
 
   // 出力例: "ruff 0.14.10" から "0.14.10" を抽出
   const match = output.match(/ruff\s+(\d+\.\d+\.\d+)/)
@@ -56,6 +72,23 @@ function extractSection(
   return match ? match[1].trim() : undefined
 }
 
+/**
+ * "Options" セクションから設定キーを抽出
+ *
+ * 各行は "- `lint.mccabe.max-complexity`" の形式（リンクになっている場合もある）。
+ */
+function extractOptions(block: string): string[] | undefined {
+  const section = extractSection(block, 'Options')
+  if (!section) return undefined
+
+  const options = section
+    .split('\n')
+    .map((line) => line.match(/^\s*[-*]\s+\[?`([^`]+)`/)?.[1])
+    .filter((option): option is string => Boolean(option))
+
+  return options.length > 0 ? options : undefined
+}
+
 /**
  * ルールの状態を推測する
  */
@@ -79,14 +112,88 @@ function _guessStatus(block: string): RuleStatus {
   }
 }
 
+/**
+ * 自動修正の可否を判定する
+ */
+function _guessFixAvailability(block: string): FixAvailability {
+  if (/Fix is always available/.test(block)) {
+    return 'always'
+  } else if (/Fix is sometimes available/.test(block)) {
+    return 'sometimes'
+  } else {
+    return 'none'
+  }
+}
+
+// `ruff rule --all --output-format json` の1要素
+interface RuffRuleJson {
+  name: string
+  code: string
+  linter: string
+  summary: string
+  fix: string // "Fix is always available." など
+  explanation?: string | null // ルールのドキュメント（Markdown）
+  preview: boolean
+  status?: string // 新しいバージョンのみ（"Stable" / "Preview" など）
+}
+
+/**
+ * ルールのドキュメント（Markdown）の各セクションからRuffRuleを組み立てる
+ */
+function buildRule(
+  code: string,
+  name: string,
+  category: string,
+  doc: string,
+  status: RuleStatus,
+  fixAvailability: FixAvailability
+): RuffRule {
+  // カテゴリコードはルールコードのアルファベット部分
+  const categoryCode = code.match(/^([A-Z]+)/)?.[1] || code
+
+  return {
+    code,
+    name,
+    // "What it does" セクションから概要を取得
+    summary: extractSection(doc, 'What it does') || '',
+    category,
+    categoryCode,
+    status,
+    // ドキュメントURLを生成
+    documentUrl: `https://docs.astral.sh/ruff/rules/${name}/`,
+    fixAvailability,
+    // "Why is this bad?" セクションを取得
+    whyBad: extractSection(doc, 'Why is this bad\\?'),
+    // "Example" セクションを取得
+    example: extractSection(doc, 'Example'),
+    // "Options" セクションから設定キーを取得
+    options: extractOptions(doc),
+  }
+}
+
+function logResult(data: RulesData, format: string): void {
+  console.log(`Found ${data.rules.length} rules`)
+  console.log(`Ruff version: ${data.version.version}`)
+
+  if (data.rules.length === 0) {
+    console.warn(
+      `Warning: No rules found. The ${format} structure may have changed.`
+    )
+  }
+}
+
 /**
  * CLIからのMarkdown出力をパースしてルール一覧を抽出
+ *
+ * JSON出力に対応していない古いRuff向けのフォールバック。
  */
-function parseRules(markdown: string): RulesData {
+function parseRules(
+  markdown: string,
+  version: RuffVersion = getRuffVersion()
+): RulesData {
   console.log('Parsing Markdown output from CLI...')
 
   const rules: RuffRule[] = []
-  const version = getRuffVersion()
 
   // 各ルールは "# rule-name (CODE)" で始まる
   const ruleBlocks = markdown.split(/\n(?=# [a-z])/g)
@@ -105,51 +212,104 @@ function parseRules(markdown: string): RulesData {
     const categoryMatch = block.match(/Derived from the \*\*(.+?)\*\* linter/)
     if (!categoryMatch) continue
 
-    const category = categoryMatch[1].trim()
-    // カテゴリコードはルールコードのアルファベット部分
-    const categoryCode = code.match(/^([A-Z]+)/)?.[1] || code
+    rules.push(
+      buildRule(
+        code,
+        name,
+        categoryMatch[1].trim(),
+        block,
+        _guessStatus(block),
+        _guessFixAvailability(block)
+      )
+    )
+  }
 
-    // "What it does" セクションから概要を取得
-    const whatItDoes = extractSection(block, 'What it does')
-    const summary = whatItDoes || ''
+  const data = { version, rules }
+  logResult(data, 'Markdown')
+  return data
+}
 
-    // "Why is this bad?" セクションを取得
-    const whyBad = extractSection(block, 'Why is this bad\\?')
+/**
+ * JSON出力のルールの状態を判定する
+ *
+ * statusフィールドがあればそれを使い、なければpreviewフラグと
+ * ドキュメントの "Deprecated" / "Removed" セクションから判定する。
+ */
+function _jsonStatus(rule: RuffRuleJson): RuleStatus {
+  const status = rule.status?.toLowerCase()
+  if (
+    status === 'stable' ||
+    status === 'preview' ||
+    status === 'deprecated' ||
+    status === 'removed'
+  ) {
+    return status
+  }
 
-    // "Example" セクションを取得
-    const example = extractSection(block, 'Example')
+  if (rule.preview) return 'preview'
 
-    // ドキュメントURLを生成
-    const documentUrl = `https://docs.astral.sh/ruff/rules/${name}/`
-
-    const status: RuleStatus = _guessStatus(block)
-
-    rules.push({
-      code,
-      name,
-      summary,
-      category,
-      categoryCode,
-      status,
-      documentUrl,
-      whyBad,
-      example,
-    })
+  const doc = rule.explanation ?? ''
+  if (extractSection(doc, 'Deprecated') || extractSection(doc, 'Deprecation')) {
+    return 'deprecated'
   }
+  if (extractSection(doc, 'Removed')) return 'removed'
+  return 'stable'
+}
 
-  console.log(`Found ${rules.length} rules`)
-  console.log(`Ruff version: ${version.version}`)
+/**
+ * `ruff rule --all --output-format json` の出力をパースしてルール一覧を抽出
+ */
+function parseRulesJson(
+  json: string,
+  version: RuffVersion = getRuffVersion()
+): RulesData {
+  console.log('Parsing JSON output from CLI...')
+
+  const parsed: unknown = JSON.parse(json)
+  if (!Array.isArray(parsed)) {
+    throw new Error('Unexpected JSON output: expected an array of rules')
+  }
+
+  const rules = (parsed as RuffRuleJson[]).map((rule) =>
+    buildRule(
+      rule.code,
+      rule.name,
+      rule.linter,
+      rule.explanation ?? '',
+      _jsonStatus(rule),
+      _guessFixAvailability(rule.fix)
+    )
+  )
 
-  if (rules.length === 0) {
+  const data = { version, rules }
+  logResult(data, 'JSON')
+  return data
+}
+
+/**
+ * CLIからルール一覧を取得
+ *
+ * JSON出力を優先し、対応していない古いRuffではMarkdown出力にフォールバックする。
+ */
+function fetchRules(
+  run: (command: string) => string = executeCommand,
+  ruff = ruffCommand()
+): RulesData {
+  const version = getRuffVersion(run, ruff)
+
+  try {
+    return parseRulesJson(
+      run(`${ruff} rule --all --output-format json`),
+      version
+    )
+  } catch (error) {
     console.warn(
-      'Warning: No rules found. The Markdown structure may have changed.'
+      'JSON output is not available, falling back to Markdown:',
+      error
     )
   }
 
-  return {
-    version,
-    rules,
-  }
+  return parseRules(run(`${ruff} rule --all`), version)
 }
 
 /**
@@ -163,15 +323,26 @@ function saveToFile(data: RulesData, outputPath: string): void {
   console.log(`Successfully wrote rules to ${outputPath}`)
 }
 
+/**
+ * スナップショットの保存先（取得したRuffのバージョンごとに1ファイル）
+ */
+function getSnapshotPath(data: RulesData, outputDir = OUTPUT_DIR): string {
+  return join(outputDir, `${data.version.version}.json`)
+}
+
 /**
  * メイン処理
+ *
+ * 引数で取得するバージョンを指定できる（例: `npm run fetch-rules -- latest 0.4.10`）。
+ * 既存のスナップショットは削除しないため、複数のバージョンを保持できる。
  */
-function main(): void {
+function main(versions: string[]): void {
   try {
-    console.log('Fetching rules from Ruff CLI...')
-    const markdown = executeCommand('uvx ruff rule --all')
-    const data = parseRules(markdown)
-    saveToFile(data, OUTPUT_PATH)
+    for (const version of versions.length > 0 ? versions : ['latest']) {
+      console.log(`Fetching rules from Ruff CLI (${version})...`)
+      const data = fetchRules(executeCommand, ruffCommand(version))
+      saveToFile(data, getSnapshotPath(data))
+    }
   } catch (error) {
     console.error('Failed to fetch and parse rules:', error)
     throw error
@@ -181,7 +352,7 @@ function main(): void {
 // スクリプトとして実行された場合
 if (import.meta.url === `file://${process.argv[1]}`) {
   try {
-    main()
+    main(process.argv.slice(2))
   } catch (error) {
     console.error('Error:', error)
     process.exit(1)
@@ -189,4 +360,15 @@ if (import.meta.url === `file://${process.argv[1]}`) {
 }
 
 // テスト用にエクスポート
-export { executeCommand, getRuffVersion, parseRules, saveToFile }
+export {
+  _guessFixAvailability,
+  executeCommand,
+  extractOptions,
+  fetchRules,
+  getRuffVersion,
+  getSnapshotPath,
+  parseRules,
+  parseRulesJson,
+  ruffCommand,
+  saveToFile,
+}
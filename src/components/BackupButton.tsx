@@ -0,0 +1,282 @@
+import { useState, useEffect, useMemo } from 'react'
+import type { RuleInfo } from '../types/rules'
+import {
+  createBackup,
+  diffRestore,
+  getBackupFileName,
+  getUnknownBackupCodes,
+  parseBackup,
+  planRestore,
+  restoreBackup,
+  type RestoreMode,
+  type SettingsBackup,
+} from '../utils/backup'
+import { perFileIgnoresStore } from '../utils/perFileIgnores'
+import { ruleOptionsStore } from '../utils/ruleOptions'
+import SettingsDiffList from './SettingsDiffList'
+
+interface BackupButtonProps {
+  rules: RuleInfo[]
+  ruffVersion: string
+}
+
+const RESTORE_MODES: Array<{
+  value: RestoreMode
+  label: string
+  description: string
+}> = [
+  {
+    value: 'merge',
+    label: 'マージ',
+    description:
+      'バックアップにあるルールの設定だけを上書きします。per-file-ignoresと設定値は既存のものに追加されます。',
+  },
+  {
+    value: 'replace',
+    label: '置き換え',
+    description:
+      '現在の設定を全てバックアップの内容に置き換えます。バックアップにないルールは有効に戻ります。',
+  },
+]
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+function formatDateTime(iso: string): string {
+  const date = new Date(iso)
+  return Number.isNaN(date.getTime()) ? iso : date.toLocaleString('ja-JP')
+}
+
+// 設定のバックアップ（JSON）の保存と復元
+export default function BackupButton({
+  rules,
+  ruffVersion,
+}: BackupButtonProps) {
+  const [showModal, setShowModal] = useState(false)
+  const [backup, setBackup] = useState<SettingsBackup | null>(null)
+  const [mode, setMode] = useState<RestoreMode>('merge')
+  const [error, setError] = useState<string | null>(null)
+
+  // ESCキーでモーダルを閉じる
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && showModal) {
+        setShowModal(false)
+      }
+    }
+
+    if (showModal) {
+      document.addEventListener('keydown', handleKeyDown)
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [showModal])
+
+  // 選択した方式で復元した場合の設定と、変更されるルール
+  const plan = useMemo(
+    () => (backup ? planRestore(backup, mode) : null),
+    [backup, mode]
+  )
+  const changes = useMemo(
+    () => (plan ? diffRestore(rules, plan) : []),
+    [rules, plan]
+  )
+  const unknownCodes = backup ? getUnknownBackupCodes(backup, rules) : []
+  const perFileIgnoresChanged =
+    !!plan && !isSameValue(plan.perFileIgnores, perFileIgnoresStore.getAll())
+  const ruleOptionsChanged =
+    !!plan && !isSameValue(plan.ruleOptions, ruleOptionsStore.getAll())
+
+  const handleBackup = () => {
+    const data = createBackup(ruffVersion)
+    const blob = new Blob([JSON.stringify(data, null, 2)], {
+      type: 'application/json',
+    })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = getBackupFileName(data)
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  const handleOpen = () => {
+    setBackup(null)
+    setMode('merge')
+    setError(null)
+    setShowModal(true)
+  }
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      setBackup(parseBackup(await file.text()))
+      setError(null)
+    } catch (err) {
+      console.error('Failed to read backup:', err)
+      setBackup(null)
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const handleRestore = () => {
+    if (!plan) return
+    restoreBackup(plan)
+    setShowModal(false)
+  }
+
+  return (
+    <>
+      <div className="flex gap-2">
+        <button
+          onClick={handleBackup}
+          className="flex-1 rounded-lg border border-gray-300 bg-white px-3 py-2.5 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 md:flex-none"
+          title="設定をJSONファイルに保存"
+        >
+          バックアップ
+        </button>
+        <button
+          onClick={handleOpen}
+          className="flex-1 rounded-lg border border-gray-300 bg-white px-3 py-2.5 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 md:flex-none"
+          title="バックアップから設定を復元"
+        >
+          復元
+        </button>
+      </div>
+
+      {showModal && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50"
+          onClick={() => setShowModal(false)}
+        >
+          <div
+            className="mx-4 flex max-h-[80vh] w-full max-w-3xl flex-col overflow-hidden rounded-lg bg-white shadow-xl md:mx-0"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* ヘッダー */}
+            <div className="border-b border-gray-200 bg-gray-50 px-4 py-3 sm:px-6 sm:py-4">
+              <h2 className="text-lg font-semibold text-gray-900 sm:text-xl">
+                バックアップから復元
+              </h2>
+            </div>
+
+            {/* コンテンツ */}
+            <div className="space-y-4 overflow-y-auto p-4 sm:p-6">
+              <div className="space-y-2">
+                <label className="block text-sm text-gray-700">
+                  「バックアップ」で保存したJSONファイルを選択してください
+                </label>
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={(e) => handleFileChange(e.target.files?.[0])}
+                  className="block w-full text-sm text-gray-700"
+                  aria-label="バックアップファイルを選択"
+                />
+              </div>
+
+              {error && (
+                <div className="rounded-lg border border-red-200 bg-red-50 p-3">
+                  <p className="text-xs text-red-700">
+                    読み込みに失敗しました: {error}
+                  </p>
+                </div>
+              )}
+
+              {backup && (
+                <div className="space-y-3">
+                  <p className="text-sm text-gray-700">
+                    {formatDateTime(backup.createdAt)} に保存（Ruff v
+                    {backup.ruffVersion}、{Object.keys(backup.settings).length}{' '}
+                    件のルールの設定）
+                  </p>
+                  {backup.ruffVersion !== ruffVersion && (
+                    <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-3">
+                      <p className="text-xs text-yellow-800">
+                        表示中のRuff v{ruffVersion}
+                        とは異なるバージョンのバックアップです。
+                      </p>
+                    </div>
+                  )}
+                  {unknownCodes.length > 0 && (
+                    <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-3">
+                      <p className="text-xs text-yellow-800">
+                        現在のルールの一覧にないコード（設定はそのまま復元されます）:{' '}
+                        {unknownCodes.join(', ')}
+                      </p>
+                    </div>
+                  )}
+
+                  <div className="space-y-2" role="radiogroup">
+                    {RESTORE_MODES.map((m) => (
+                      <label
+                        key={m.value}
+                        className="flex cursor-pointer items-start gap-2 text-sm"
+                      >
+                        <input
+                          type="radio"
+                          name="restore-mode"
+                          value={m.value}
+                          checked={mode === m.value}
+                          onChange={() => setMode(m.value)}
+                          className="mt-1"
+                        />
+                        <span>
+                          <span className="font-medium text-gray-900">
+                            {m.label}
+                          </span>
+                          <span className="block text-xs text-gray-600">
+                            {m.description}
+                          </span>
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+
+                  {(perFileIgnoresChanged || ruleOptionsChanged) && (
+                    <div className="rounded-lg border border-gray-200 bg-gray-50 p-3">
+                      <p className="text-xs text-gray-700">
+                        {[
+                          perFileIgnoresChanged && 'per-file-ignores',
+                          ruleOptionsChanged && '設定値',
+                        ]
+                          .filter(Boolean)
+                          .join('・')}
+                        も変更されます。
+                      </p>
+                    </div>
+                  )}
+                  <SettingsDiffList changes={changes} />
+                </div>
+              )}
+            </div>
+
+            {/* フッター */}
+            <div className="border-t border-gray-200 bg-gray-50 px-4 py-3 sm:px-6 sm:py-4">
+              <div className="flex flex-col items-stretch gap-2 sm:flex-row sm:items-center sm:justify-end sm:gap-3">
+                <button
+                  onClick={() => setShowModal(false)}
+                  className="w-full rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 sm:w-auto"
+                >
+                  キャンセル
+                </button>
+                <button
+                  onClick={handleRestore}
+                  disabled={!plan}
+                  className="w-full rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 sm:w-auto"
+                >
+                  復元
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
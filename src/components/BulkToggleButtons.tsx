@@ -0,0 +1,143 @@
+import { useState, useEffect } from 'react'
+import { buildBulkSettings } from '../utils/bulkToggle'
+import { getMatchingRules, type SearchableRule } from '../utils/filterRules'
+import { filterState } from '../utils/filterState'
+import { ruleSettingsStore } from '../utils/ruleSettings'
+import { diffSettings } from '../utils/settingsDiff'
+import SettingsDiffList from './SettingsDiffList'
+
+interface BulkToggleButtonsProps {
+  rules: SearchableRule[]
+}
+
+// 検索・フィルタで表示中のルールをまとめて有効/無効にする
+export default function BulkToggleButtons({ rules }: BulkToggleButtonsProps) {
+  const [showModal, setShowModal] = useState(false)
+  const [enabled, setEnabled] = useState(false)
+  const [visibleRules, setVisibleRules] = useState<SearchableRule[]>([])
+  const [comment, setComment] = useState('')
+
+  // ESCキーでモーダルを閉じる
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && showModal) {
+        setShowModal(false)
+      }
+    }
+
+    if (showModal) {
+      document.addEventListener('keydown', handleKeyDown)
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [showModal])
+
+  const handleOpen = (nextEnabled: boolean) => {
+    setEnabled(nextEnabled)
+    setVisibleRules(getMatchingRules(rules, filterState.getCriteria()))
+    setComment('')
+    setShowModal(true)
+  }
+
+  const settings = showModal
+    ? buildBulkSettings(
+        visibleRules.map((rule) => rule.code),
+        enabled,
+        comment
+      )
+    : {}
+  const changes = showModal ? diffSettings(visibleRules, settings) : []
+
+  const handleApply = () => {
+    ruleSettingsStore.setMany(settings)
+    setShowModal(false)
+  }
+
+  const actionLabel = enabled ? '有効' : '無効'
+
+  return (
+    <>
+      <div className="flex gap-2">
+        <button
+          onClick={() => handleOpen(false)}
+          className="flex-1 rounded-lg border border-gray-300 bg-white px-3 py-2.5 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 md:flex-none"
+        >
+          表示中を無効化
+        </button>
+        <button
+          onClick={() => handleOpen(true)}
+          className="flex-1 rounded-lg border border-gray-300 bg-white px-3 py-2.5 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 md:flex-none"
+        >
+          表示中を有効化
+        </button>
+      </div>
+
+      {showModal && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50"
+          onClick={() => setShowModal(false)}
+        >
+          <div
+            className="mx-4 flex max-h-[80vh] w-full max-w-3xl flex-col overflow-hidden rounded-lg bg-white shadow-xl md:mx-0"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* ヘッダー */}
+            <div className="border-b border-gray-200 bg-gray-50 px-4 py-3 sm:px-6 sm:py-4">
+              <h2 className="text-lg font-semibold text-gray-900 sm:text-xl">
+                表示中のルールを{actionLabel}にする
+              </h2>
+            </div>
+
+            {/* コンテンツ */}
+            <div className="space-y-4 overflow-y-auto p-4 sm:p-6">
+              <p className="text-sm text-gray-700">
+                検索・フィルタで表示中の {visibleRules.length} 件のルールを
+                {actionLabel}にします。
+              </p>
+
+              <div className="space-y-1">
+                <label
+                  htmlFor="bulk-toggle-comment"
+                  className="block text-sm text-gray-700"
+                >
+                  共通のコメント（省略時は各ルールのコメントを残します）
+                </label>
+                <input
+                  id="bulk-toggle-comment"
+                  type="text"
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  placeholder="型注釈は段階的に導入する"
+                  className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <SettingsDiffList changes={changes} />
+            </div>
+
+            {/* フッター */}
+            <div className="border-t border-gray-200 bg-gray-50 px-4 py-3 sm:px-6 sm:py-4">
+              <div className="flex flex-col items-stretch gap-2 sm:flex-row sm:items-center sm:justify-end sm:gap-3">
+                <button
+                  onClick={() => setShowModal(false)}
+                  className="w-full rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 sm:w-auto"
+                >
+                  キャンセル
+                </button>
+                <button
+                  onClick={handleApply}
+                  disabled={changes.length === 0}
+                  className="w-full rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 sm:w-auto"
+                >
+                  {changes.length} 件を{actionLabel}にする
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,113 @@
+import { useState, useEffect, useRef } from 'react'
+import { buildBulkSettings } from '../utils/bulkToggle'
+import {
+  ruleSettingsStore,
+  type SettingsUpdatedDetail,
+} from '../utils/ruleSettings'
+
+interface CategoryToggleProps {
+  groupId: string // ルール一覧の要素のID（"rule-group-<groupId>"）
+  category: string // "pydocstyle (D)"
+  ruleCodes: string[]
+}
+
+// カテゴリの見出し（折りたたみ・有効数・カテゴリ全体のトグル）
+export default function CategoryToggle({
+  groupId,
+  category,
+  ruleCodes,
+}: CategoryToggleProps) {
+  // SSR時は全てデフォルト（有効）として描画する
+  const [enabledCount, setEnabledCount] = useState(ruleCodes.length)
+  const [collapsed, setCollapsed] = useState(false)
+  const checkboxRef = useRef<HTMLInputElement>(null)
+
+  const total = ruleCodes.length
+  const allEnabled = enabledCount === total
+  const mixed = enabledCount > 0 && !allEnabled
+
+  // 個々のRuleToggleの変更・リセット・プロファイル切り替えで件数を更新
+  useEffect(() => {
+    const refresh = () => {
+      setEnabledCount(
+        ruleCodes.filter(
+          (ruleCode) => ruleSettingsStore.getSyncWithStorage(ruleCode).enabled
+        ).length
+      )
+    }
+
+    const handleUpdate = (e: Event) => {
+      const { ruleCodes: updated } = (e as CustomEvent<SettingsUpdatedDetail>)
+        .detail
+      if (updated.some((ruleCode) => ruleCodes.includes(ruleCode))) refresh()
+    }
+
+    refresh()
+    window.addEventListener('settings-updated', handleUpdate)
+    window.addEventListener('settings-reset', refresh)
+    window.addEventListener('profile-changed', refresh)
+    return () => {
+      window.removeEventListener('settings-updated', handleUpdate)
+      window.removeEventListener('settings-reset', refresh)
+      window.removeEventListener('profile-changed', refresh)
+    }
+  }, [ruleCodes])
+
+  // indeterminateはHTML属性で指定できないためrefで設定する
+  useEffect(() => {
+    if (checkboxRef.current) checkboxRef.current.indeterminate = mixed
+  }, [mixed])
+
+  // 折りたたみはRuleBrowser側で描画したルール一覧の表示を切り替える
+  useEffect(() => {
+    document
+      .getElementById(`rule-group-${groupId}`)
+      ?.toggleAttribute('hidden', collapsed)
+  }, [groupId, collapsed])
+
+  // 全て有効なら全て無効に、それ以外（一部・全て無効）なら全て有効にする
+  const handleToggle = () => {
+    ruleSettingsStore.setMany(buildBulkSettings(ruleCodes, !allEnabled))
+  }
+
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <button
+        onClick={() => setCollapsed(!collapsed)}
+        className="flex min-w-0 items-center gap-2 text-left text-base font-semibold text-gray-900 hover:text-gray-700"
+        aria-expanded={!collapsed}
+        aria-controls={`rule-group-${groupId}`}
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className={`h-4 w-4 flex-shrink-0 transition-transform ${
+            collapsed ? '-rotate-90' : ''
+          }`}
+          viewBox="0 0 20 20"
+          fill="currentColor"
+        >
+          <path
+            fillRule="evenodd"
+            d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z"
+            clipRule="evenodd"
+          />
+        </svg>
+        <span className="truncate">{category}</span>
+      </button>
+
+      <label className="flex flex-shrink-0 items-center gap-2 text-sm text-gray-600">
+        <span>
+          有効 {enabledCount} / {total}
+        </span>
+        <input
+          ref={checkboxRef}
+          type="checkbox"
+          checked={allEnabled}
+          onChange={handleToggle}
+          className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-2 focus:ring-blue-500"
+          aria-label={`${category}のルールをまとめて切り替え`}
+        />
+      </label>
+    </div>
+  )
+}
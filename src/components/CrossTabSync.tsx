@@ -0,0 +1,19 @@
+import { useEffect } from 'react'
+import { startCrossTabSync } from '../utils/crossTabSync'
+import { initStorage } from '../utils/storageStartup'
+
+// 保存先のIndexedDBを開き、他のタブでの設定の変更をこのタブに反映する（表示する要素はない）
+export default function CrossTabSync() {
+  useEffect(() => {
+    let cancelled = false
+    let stop: (() => void) | undefined
+    void initStorage().then(() => {
+      if (!cancelled) stop = startCrossTabSync()
+    })
+    return () => {
+      cancelled = true
+      stop?.()
+    }
+  }, [])
+  return null
+}
@@ -1,9 +1,33 @@
 import { useState, useEffect } from 'react'
-import type { RuffRule } from '../types/rules'
-import { generateTomlWithMetadata } from '../utils/exportToml'
+import type { RuleInfo } from '../types/rules'
+import {
+  EXPORT_TARGETS,
+  generateTomlWithMetadata,
+  type ExportOptions,
+  type ExportStrategy,
+} from '../utils/exportToml'
+import { profileStore } from '../utils/profiles'
+
+const EXPORT_STRATEGIES: {
+  value: ExportStrategy
+  label: string
+  description: string
+}[] = [
+  {
+    value: 'all-ignore',
+    label: 'ALL + ignore',
+    description: '全ルールを選択し、無効なルールをignoreに列挙します',
+  },
+  {
+    value: 'allowlist',
+    label: '明示的なselect',
+    description:
+      '有効なルールのみをselectに列挙します（Ruffの更新で新しいルールが自動で有効になりません）',
+  },
+]
 
 interface ExportButtonProps {
-  rules: RuffRule[]
+  rules: RuleInfo[]
   ruffVersion: string
 }
 
@@ -12,18 +36,34 @@ export default function ExportButton({
   ruffVersion,
 }: ExportButtonProps) {
   const [showModal, setShowModal] = useState(false)
+  const [options, setOptions] = useState<Required<ExportOptions>>({
+    target: 'pyproject.toml',
+    strategy: 'all-ignore',
+    compress: false,
+  })
   const [tomlContent, setTomlContent] = useState('')
   const [copyStatus, setCopyStatus] = useState<'idle' | 'copied' | 'error'>(
     'idle'
   )
 
+  const [profileName, setProfileName] = useState('')
+
   const handleExport = () => {
-    const toml = generateTomlWithMetadata(rules, ruffVersion)
+    setProfileName(profileStore.getActive().name)
+    const toml = generateTomlWithMetadata(rules, ruffVersion, options)
     setTomlContent(toml)
     setShowModal(true)
     setCopyStatus('idle')
   }
 
+  // エクスポート設定を変更してプレビューを再生成
+  const handleOptionsChange = (changes: Partial<ExportOptions>) => {
+    const newOptions = { ...options, ...changes }
+    setOptions(newOptions)
+    setTomlContent(generateTomlWithMetadata(rules, ruffVersion, newOptions))
+    setCopyStatus('idle')
+  }
+
   // ESCキーでモーダルを閉じる
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -58,7 +98,7 @@ export default function ExportButton({
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
     a.href = url
-    a.download = 'pyproject.toml'
+    a.download = options.target
     document.body.appendChild(a)
     a.click()
     document.body.removeChild(a)
@@ -104,7 +144,7 @@ export default function ExportButton({
             <div className="border-b border-gray-200 bg-gray-50 px-4 py-3 sm:px-6 sm:py-4">
               <div className="flex items-center justify-between">
                 <h2 className="text-lg font-semibold text-gray-900 sm:text-xl">
-                  pyproject.toml プレビュー
+                  {options.target} プレビュー（{profileName}）
                 </h2>
                 <button
                   onClick={handleClose}
@@ -130,7 +170,68 @@ export default function ExportButton({
             </div>
 
             {/* コンテンツ */}
-            <div className="overflow-y-auto p-4 sm:p-6">
+            <div className="space-y-4 overflow-y-auto p-4 sm:p-6">
+              <div className="flex flex-wrap gap-2" role="radiogroup">
+                {EXPORT_TARGETS.map((t) => (
+                  <button
+                    key={t}
+                    role="radio"
+                    aria-checked={options.target === t}
+                    onClick={() => handleOptionsChange({ target: t })}
+                    className={`rounded-lg px-3 py-1.5 font-mono text-sm ${
+                      options.target === t
+                        ? 'bg-blue-600 text-white'
+                        : 'border border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {t}
+                  </button>
+                ))}
+              </div>
+              <fieldset className="space-y-1">
+                <legend className="mb-1 text-sm font-medium text-gray-700">
+                  出力方式
+                </legend>
+                {EXPORT_STRATEGIES.map((strategy) => (
+                  <label
+                    key={strategy.value}
+                    className="flex items-start gap-2 text-sm text-gray-700"
+                  >
+                    <input
+                      type="radio"
+                      name="export-strategy"
+                      checked={options.strategy === strategy.value}
+                      onChange={() =>
+                        handleOptionsChange({ strategy: strategy.value })
+                      }
+                      className="mt-0.5 h-4 w-4 border-gray-300 text-blue-600 focus:ring-2 focus:ring-blue-500"
+                    />
+                    <span>
+                      {strategy.label}
+                      <span className="block text-xs text-gray-500">
+                        {strategy.description}
+                      </span>
+                    </span>
+                  </label>
+                ))}
+              </fieldset>
+              <label className="flex items-start gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={options.compress}
+                  onChange={(e) =>
+                    handleOptionsChange({ compress: e.target.checked })
+                  }
+                  className="mt-0.5 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-2 focus:ring-blue-500"
+                />
+                <span>
+                  プレフィックスでまとめる
+                  <span className="block text-xs text-gray-500">
+                    配下の全ルールが同じ状態の場合に "D" や "PLR09"
+                    などで出力します（今後追加されるルールも対象になります）
+                  </span>
+                </span>
+              </label>
               <pre className="overflow-x-auto rounded-lg bg-gray-900 p-3 text-xs text-gray-100 sm:p-4 sm:text-sm">
                 <code>{tomlContent}</code>
               </pre>
@@ -12,15 +12,24 @@ const STATUSES = [
   { value: 'removed', label: 'Removed' },
 ]
 
+const FIX_AVAILABILITIES = [
+  { value: 'always', label: '常に修正可能' },
+  { value: 'sometimes', label: '一部修正可能' },
+  { value: 'none', label: '修正不可' },
+]
+
 export default function FilterPanel({ categories }: FilterPanelProps) {
   const [selectedCategories, setSelectedCategories] = useState<string[]>([])
   const [selectedStatuses, setSelectedStatuses] = useState<string[]>([])
   const [showCategories, setShowCategories] = useState(false)
+  const [selectedFixes, setSelectedFixes] = useState<string[]>([])
   const [showStatuses, setShowStatuses] = useState(false)
+  const [showFixes, setShowFixes] = useState(false)
   const [isFilterCollapsed, setIsFilterCollapsed] = useState(true)
 
   const categoriesRef = useRef<HTMLDivElement>(null)
   const statusesRef = useRef<HTMLDivElement>(null)
+  const fixesRef = useRef<HTMLDivElement>(null)
 
   // 外側クリックでドロップダウンを閉じる
   useEffect(() => {
@@ -40,17 +49,25 @@ export default function FilterPanel({ categories }: FilterPanelProps) {
       ) {
         setShowStatuses(false)
       }
+
+      // 自動修正ドロップダウンの外側をクリックした場合
+      if (
+        fixesRef.current &&
+        !fixesRef.current.contains(event.target as Node)
+      ) {
+        setShowFixes(false)
+      }
     }
 
     // ドロップダウンが開いているときのみイベントリスナーを追加
-    if (showCategories || showStatuses) {
+    if (showCategories || showStatuses || showFixes) {
       document.addEventListener('mousedown', handleClickOutside)
     }
 
     return () => {
       document.removeEventListener('mousedown', handleClickOutside)
     }
-  }, [showCategories, showStatuses])
+  }, [showCategories, showStatuses, showFixes])
 
   const handleCategoryChange = (category: string) => {
     const newCategories = selectedCategories.includes(category)
@@ -70,15 +87,27 @@ export default function FilterPanel({ categories }: FilterPanelProps) {
     filterState.setStatuses(newStatuses)
   }
 
+  const handleFixChange = (fix: string) => {
+    const newFixes = selectedFixes.includes(fix)
+      ? selectedFixes.filter((f) => f !== fix)
+      : [...selectedFixes, fix]
+
+    setSelectedFixes(newFixes)
+    filterState.setFixes(newFixes)
+  }
+
   const handleClear = () => {
     setSelectedCategories([])
     setSelectedStatuses([])
-    // 検索キーワードはクリアせず、カテゴリとステータスのみクリア
+    setSelectedFixes([])
+    // 検索キーワードはクリアせず、カテゴリ・ステータス・自動修正のみクリア
     filterState.clearCategoriesAndStatuses()
   }
 
   const hasActiveFilters =
-    selectedCategories.length > 0 || selectedStatuses.length > 0
+    selectedCategories.length > 0 ||
+    selectedStatuses.length > 0 ||
+    selectedFixes.length > 0
 
   return (
     <>
@@ -209,6 +238,56 @@ export default function FilterPanel({ categories }: FilterPanelProps) {
             )}
           </div>
 
+          {/* 自動修正フィルタ */}
+          <div className="relative w-full md:w-auto" ref={fixesRef}>
+            <button
+              onClick={() => setShowFixes(!showFixes)}
+              className="flex w-full items-center justify-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 md:w-auto"
+              aria-expanded={showFixes}
+              aria-haspopup="true"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="h-4 w-4"
+                viewBox="0 0 20 20"
+                fill="currentColor"
+              >
+                <path
+                  fillRule="evenodd"
+                  d="M3 3a1 1 0 011-1h12a1 1 0 011 1v3a1 1 0 01-.293.707L12 11.414V15a1 1 0 01-.293.707l-2 2A1 1 0 018 17v-5.586L3.293 6.707A1 1 0 013 6V3z"
+                  clipRule="evenodd"
+                />
+              </svg>
+              自動修正
+              {selectedFixes.length > 0 && (
+                <span className="ml-1 rounded-full bg-blue-600 px-2 py-0.5 text-xs text-white">
+                  {selectedFixes.length}
+                </span>
+              )}
+            </button>
+
+            {showFixes && (
+              <div className="absolute left-0 top-full z-20 mt-2 w-full rounded-lg border border-gray-200 bg-white shadow-lg md:w-48">
+                <div className="p-2">
+                  {FIX_AVAILABILITIES.map((fix) => (
+                    <label
+                      key={fix.value}
+                      className="flex cursor-pointer items-center gap-2 rounded px-3 py-2 hover:bg-gray-50"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selectedFixes.includes(fix.value)}
+                        onChange={() => handleFixChange(fix.value)}
+                        className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-2 focus:ring-blue-500"
+                      />
+                      <span className="text-sm text-gray-700">{fix.label}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
           {/* クリアボタン */}
           {hasActiveFilters && (
             <button
@@ -0,0 +1,197 @@
+import { useState, useEffect } from 'react'
+import {
+  historyStore,
+  describeEntry,
+  getEntryComment,
+  type HistoryEntry,
+} from '../utils/history'
+import { undo, redo, revertEntry } from '../utils/undo'
+
+// 入力欄ではブラウザ標準のテキストの元に戻すを優先する
+function isEditableTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable ||
+      ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+  )
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString('ja-JP', {
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+// 元に戻す・やり直すボタンと、変更履歴のタイムライン
+export default function HistoryPanel() {
+  const [entries, setEntries] = useState<HistoryEntry[]>([])
+  const [canRedo, setCanRedo] = useState(false)
+  const [showModal, setShowModal] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // 履歴の変更とプロファイルの切り替えを反映
+  useEffect(() => {
+    const handleUpdate = () => {
+      setEntries(historyStore.getEntries())
+      setCanRedo(historyStore.getRedoEntries().length > 0)
+    }
+
+    handleUpdate()
+    window.addEventListener('history-updated', handleUpdate)
+    return () => window.removeEventListener('history-updated', handleUpdate)
+  }, [])
+
+  // Ctrl+Z（⌘Z）で元に戻す、Ctrl+Shift+Z・Ctrl+Yでやり直す
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isEditableTarget(e.target)) return
+
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault()
+        redo()
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  // ESCキーでモーダルを閉じる
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && showModal) {
+        setShowModal(false)
+      }
+    }
+
+    if (showModal) {
+      document.addEventListener('keydown', handleKeyDown)
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [showModal])
+
+  const handleRevert = (entryId: string) => {
+    try {
+      revertEntry(entryId)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  return (
+    <>
+      <div className="flex gap-2">
+        <button
+          onClick={() => undo()}
+          disabled={entries.length === 0}
+          className="flex-1 rounded-lg border border-gray-300 bg-white px-3 py-2.5 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 md:flex-none"
+          title="元に戻す（Ctrl+Z）"
+        >
+          元に戻す
+        </button>
+        <button
+          onClick={() => redo()}
+          disabled={!canRedo}
+          className="flex-1 rounded-lg border border-gray-300 bg-white px-3 py-2.5 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 md:flex-none"
+          title="やり直す（Ctrl+Shift+Z）"
+        >
+          やり直す
+        </button>
+        <button
+          onClick={() => {
+            setError(null)
+            setShowModal(true)
+          }}
+          className="flex-1 rounded-lg border border-gray-300 bg-white px-3 py-2.5 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 md:flex-none"
+        >
+          履歴
+        </button>
+      </div>
+
+      {showModal && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50"
+          onClick={() => setShowModal(false)}
+        >
+          <div
+            className="mx-4 flex max-h-[80vh] w-full max-w-lg flex-col overflow-hidden rounded-lg bg-white shadow-xl md:mx-0"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* ヘッダー */}
+            <div className="border-b border-gray-200 bg-gray-50 px-4 py-3 sm:px-6 sm:py-4">
+              <h2 className="text-lg font-semibold text-gray-900 sm:text-xl">
+                変更履歴
+              </h2>
+            </div>
+
+            {/* コンテンツ */}
+            <div className="space-y-4 overflow-y-auto p-4 sm:p-6">
+              {error && (
+                <div className="rounded-lg border border-red-200 bg-red-50 p-3">
+                  <p className="text-xs text-red-700">{error}</p>
+                </div>
+              )}
+
+              {entries.length === 0 ? (
+                <p className="text-sm text-gray-600">まだ変更はありません。</p>
+              ) : (
+                <ul className="divide-y divide-gray-100 rounded-lg border border-gray-200">
+                  {[...entries].reverse().map((entry) => {
+                    const comment = getEntryComment(entry)
+                    return (
+                      <li
+                        key={entry.id}
+                        className="flex items-center gap-2 px-3 py-2 text-sm"
+                      >
+                        <span className="min-w-0 flex-1 text-gray-800">
+                          {describeEntry(entry)}
+                          {comment && (
+                            <span className="text-gray-500">
+                              {' — '}「{comment}」
+                            </span>
+                          )}
+                          <span className="text-gray-500">
+                            {' — '}
+                            {formatTime(entry.timestamp)}
+                          </span>
+                        </span>
+                        <button
+                          onClick={() => handleRevert(entry.id)}
+                          className="flex-shrink-0 text-xs text-blue-600 hover:underline"
+                          aria-label={`${describeEntry(entry)}を取り消す`}
+                        >
+                          取り消す
+                        </button>
+                      </li>
+                    )
+                  })}
+                </ul>
+              )}
+            </div>
+
+            {/* フッター */}
+            <div className="border-t border-gray-200 bg-gray-50 px-4 py-3 sm:px-6 sm:py-4">
+              <div className="flex justify-end">
+                <button
+                  onClick={() => setShowModal(false)}
+                  className="w-full rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 sm:w-auto"
+                >
+                  閉じる
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,317 @@
+import { useState, useEffect } from 'react'
+import type { ImportResult, RuleInfo } from '../types/rules'
+import { importFlake8Config } from '../utils/importFlake8'
+import { importPylintConfig } from '../utils/importPylint'
+import { importShowSettings } from '../utils/importShowSettings'
+import { importRuffConfig } from '../utils/importToml'
+import { perFileIgnoresStore } from '../utils/perFileIgnores'
+import { ruleSettingsStore } from '../utils/ruleSettings'
+import { diffSettings, type SettingsChange } from '../utils/settingsDiff'
+import SettingsDiffList from './SettingsDiffList'
+
+interface ImportButtonProps {
+  rules: RuleInfo[]
+}
+
+interface ImportFormat {
+  value: string
+  label: string
+  description: string
+  accept: string
+  placeholder: string
+  unknownLabel: string
+  // 指定した場合、有効から無効に変わるルールをこのラベルで一覧表示する
+  turnedOffLabel?: string
+  importer: (text: string, rules: RuleInfo[]) => ImportResult
+}
+
+const IMPORT_FORMATS: ImportFormat[] = [
+  {
+    value: 'ruff',
+    label: 'Ruff',
+    description:
+      'pyproject.toml / ruff.toml を貼り付けるか、ファイルを選択してください',
+    accept: '.toml',
+    placeholder:
+      '[tool.ruff.lint]\nselect = ["ALL"]\nignore = [\n    "D",  # docstrings\n]',
+    unknownLabel: '不明なコード（無視されます）',
+    importer: importRuffConfig,
+  },
+  {
+    value: 'flake8',
+    label: 'flake8',
+    description:
+      '.flake8 / setup.cfg / tox.ini の [flake8] セクションを貼り付けるか、ファイルを選択してください',
+    accept: '.flake8,.cfg,.ini',
+    placeholder:
+      '[flake8]\nextend-ignore = E203, E501\nper-file-ignores =\n    tests/*: S101',
+    unknownLabel: 'Ruffに対応するルールがないコード',
+    importer: importFlake8Config,
+  },
+  {
+    value: 'pylint',
+    label: 'pylint',
+    description:
+      '.pylintrc の [MESSAGES CONTROL] または pyproject.toml の [tool.pylint."messages control"] を貼り付けるか、ファイルを選択してください',
+    accept: '.pylintrc,.toml,.cfg,.ini',
+    placeholder:
+      '[MESSAGES CONTROL]\ndisable =\n    too-many-arguments,\n    R0915',
+    unknownLabel: 'Ruffが実装していないメッセージ',
+    importer: importPylintConfig,
+  },
+  {
+    value: 'show-settings',
+    label: 'ruff --show-settings',
+    description:
+      '`ruff check --show-settings` の出力を貼り付けてください（linter.rules.enabled を読み取ります）',
+    accept: '.txt,.log',
+    placeholder:
+      'linter.rules.enabled = [\n\tline-too-long (E501),\n\tunused-import (F401),\n]',
+    unknownLabel: 'rules.jsonに存在しないコード',
+    turnedOffLabel: 'RuffMateで有効だが、貼り付けた結果に含まれないルール',
+    importer: importShowSettings,
+  },
+]
+
+export default function ImportButton({ rules }: ImportButtonProps) {
+  const [showModal, setShowModal] = useState(false)
+  const [format, setFormat] = useState(IMPORT_FORMATS[0])
+  const [configText, setConfigText] = useState('')
+  const [result, setResult] = useState<ImportResult | null>(null)
+  const [changes, setChanges] = useState<SettingsChange[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const resetState = () => {
+    setResult(null)
+    setChanges([])
+    setError(null)
+  }
+
+  // ESCキーでモーダルを閉じる
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && showModal) {
+        setShowModal(false)
+      }
+    }
+
+    if (showModal) {
+      document.addEventListener('keydown', handleKeyDown)
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [showModal])
+
+  const handleOpen = () => {
+    setConfigText('')
+    resetState()
+    setShowModal(true)
+  }
+
+  const handleClose = () => {
+    setShowModal(false)
+  }
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return
+    setConfigText(await file.text())
+    resetState()
+  }
+
+  const handleParse = () => {
+    try {
+      const imported = format.importer(configText, rules)
+      setResult(imported)
+      setChanges(diffSettings(rules, imported.settings))
+      setError(null)
+    } catch (err) {
+      console.error('Failed to import:', err)
+      setResult(null)
+      setChanges([])
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const handleFormatChange = (value: string) => {
+    setFormat(
+      IMPORT_FORMATS.find((f) => f.value === value) ?? IMPORT_FORMATS[0]
+    )
+    resetState()
+  }
+
+  const perFileIgnores = Object.entries(result?.perFileIgnores ?? {})
+  const turnedOff = changes.filter((c) => c.before.enabled && !c.after.enabled)
+
+  const handleApply = () => {
+    if (!result) return
+    ruleSettingsStore.setMany(result.settings)
+    if (perFileIgnores.length > 0) {
+      perFileIgnoresStore.merge(Object.fromEntries(perFileIgnores))
+    }
+    setShowModal(false)
+  }
+
+  return (
+    <>
+      <button
+        onClick={handleOpen}
+        className="flex w-full items-center justify-center gap-2 rounded-lg border border-gray-300 bg-white px-6 py-2.5 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 md:w-auto"
+        aria-label="設定をインポート"
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className="h-4 w-4"
+          viewBox="0 0 20 20"
+          fill="currentColor"
+        >
+          <path
+            fillRule="evenodd"
+            d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zM6.293 6.707a1 1 0 010-1.414l3-3a1 1 0 011.414 0l3 3a1 1 0 01-1.414 1.414L11 5.414V13a1 1 0 11-2 0V5.414L7.707 6.707a1 1 0 01-1.414 0z"
+            clipRule="evenodd"
+          />
+        </svg>
+        インポート
+      </button>
+
+      {showModal && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50"
+          onClick={handleClose}
+        >
+          <div
+            className="mx-4 flex max-h-[80vh] w-full max-w-3xl flex-col overflow-hidden rounded-lg bg-white shadow-xl md:mx-0"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* ヘッダー */}
+            <div className="border-b border-gray-200 bg-gray-50 px-4 py-3 sm:px-6 sm:py-4">
+              <h2 className="text-lg font-semibold text-gray-900 sm:text-xl">
+                設定をインポート
+              </h2>
+            </div>
+
+            {/* コンテンツ */}
+            <div className="space-y-4 overflow-y-auto p-4 sm:p-6">
+              <div className="flex flex-wrap gap-2" role="radiogroup">
+                {IMPORT_FORMATS.map((f) => (
+                  <button
+                    key={f.value}
+                    role="radio"
+                    aria-checked={format.value === f.value}
+                    onClick={() => handleFormatChange(f.value)}
+                    className={`rounded-lg px-3 py-1.5 text-sm font-medium ${
+                      format.value === f.value
+                        ? 'bg-blue-600 text-white'
+                        : 'border border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {f.label}
+                  </button>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <label className="block text-sm text-gray-700">
+                  {format.description}
+                </label>
+                <input
+                  type="file"
+                  accept={format.accept}
+                  onChange={(e) => handleFileChange(e.target.files?.[0])}
+                  className="block w-full text-sm text-gray-700"
+                  aria-label="設定ファイルを選択"
+                />
+                <textarea
+                  value={configText}
+                  onChange={(e) => {
+                    setConfigText(e.target.value)
+                    resetState()
+                  }}
+                  rows={10}
+                  placeholder={format.placeholder}
+                  className="w-full rounded-lg border border-gray-300 px-3 py-2 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  aria-label="設定ファイルの内容"
+                />
+              </div>
+
+              {error && (
+                <div className="rounded-lg border border-red-200 bg-red-50 p-3">
+                  <p className="text-xs text-red-700">
+                    解析に失敗しました: {error}
+                  </p>
+                </div>
+              )}
+
+              {result && (
+                <div className="space-y-3">
+                  {result.unknownCodes.length > 0 && (
+                    <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-3">
+                      <p className="text-xs text-yellow-800">
+                        {format.unknownLabel}: {result.unknownCodes.join(', ')}
+                      </p>
+                    </div>
+                  )}
+                  {format.turnedOffLabel && turnedOff.length > 0 && (
+                    <div className="rounded-lg border border-red-200 bg-red-50 p-3">
+                      <p className="text-xs text-red-700">
+                        {format.turnedOffLabel}:{' '}
+                        {turnedOff.map((c) => c.rule.code).join(', ')}
+                      </p>
+                    </div>
+                  )}
+                  {perFileIgnores.length > 0 && (
+                    <div className="rounded-lg border border-gray-200 bg-gray-50 p-3">
+                      <p className="mb-1 text-xs text-gray-700">
+                        per-file-ignores（既存のパターンに追加されます）:
+                      </p>
+                      <ul className="font-mono text-xs text-gray-600">
+                        {perFileIgnores.map(([pattern, codes]) => (
+                          <li key={pattern}>
+                            {pattern}: {codes.join(', ')}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  <SettingsDiffList changes={changes} />
+                </div>
+              )}
+            </div>
+
+            {/* フッター */}
+            <div className="border-t border-gray-200 bg-gray-50 px-4 py-3 sm:px-6 sm:py-4">
+              <div className="flex flex-col items-stretch gap-2 sm:flex-row sm:items-center sm:justify-end sm:gap-3">
+                <button
+                  onClick={handleClose}
+                  className="w-full rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 sm:w-auto"
+                >
+                  キャンセル
+                </button>
+                {result ? (
+                  <button
+                    onClick={handleApply}
+                    disabled={
+                      changes.length === 0 && perFileIgnores.length === 0
+                    }
+                    className="w-full rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 sm:w-auto"
+                  >
+                    適用
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleParse}
+                    disabled={!configText.trim()}
+                    className="w-full rounded-lg bg-gray-600 px-4 py-2 text-sm font-medium text-white hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 disabled:opacity-50 sm:w-auto"
+                  >
+                    解析
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,90 @@
+import { useState, useEffect, useRef } from 'react'
+import { perFileIgnoresStore } from '../utils/perFileIgnores'
+
+interface PerFileIgnoreMenuProps {
+  ruleCode: string
+}
+
+// ルールごとに、除外するper-file-ignoresのパターンを選ぶメニュー
+export default function PerFileIgnoreMenu({
+  ruleCode,
+}: PerFileIgnoreMenuProps) {
+  const [showMenu, setShowMenu] = useState(false)
+  const [allPatterns, setAllPatterns] = useState<string[]>([])
+  const [selected, setSelected] = useState<string[]>([])
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const handleUpdate = () => {
+      setAllPatterns(Object.keys(perFileIgnoresStore.getAll()))
+      setSelected(perFileIgnoresStore.getPatternsForRule(ruleCode))
+    }
+
+    handleUpdate()
+    window.addEventListener('per-file-ignores-updated', handleUpdate)
+    return () =>
+      window.removeEventListener('per-file-ignores-updated', handleUpdate)
+  }, [ruleCode])
+
+  // クリック外側で閉じる
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setShowMenu(false)
+      }
+    }
+
+    if (showMenu) {
+      document.addEventListener('mousedown', handleClickOutside)
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+    }
+  }, [showMenu])
+
+  // パターンが1つもなければ表示しない（ヘッダーのエディタで追加する）
+  if (allPatterns.length === 0) return null
+
+  const handleToggle = (pattern: string) => {
+    if (selected.includes(pattern)) {
+      perFileIgnoresStore.removeRule(pattern, ruleCode)
+    } else {
+      perFileIgnoresStore.addRule(pattern, ruleCode)
+    }
+  }
+
+  return (
+    <div className="relative inline-block" ref={menuRef}>
+      <button
+        onClick={() => setShowMenu(!showMenu)}
+        className={`text-xs hover:underline ${
+          selected.length > 0 ? 'text-orange-600' : 'text-gray-500'
+        }`}
+        aria-expanded={showMenu}
+        aria-label={`${ruleCode}のper-file-ignoresを編集`}
+      >
+        per-file-ignores
+        {selected.length > 0 && ` (${selected.length})`}
+      </button>
+
+      {showMenu && (
+        <div className="absolute left-0 top-full z-40 mt-1 min-w-48 rounded-lg border border-gray-200 bg-white p-2 shadow-lg">
+          {allPatterns.map((pattern) => (
+            <label
+              key={pattern}
+              className="flex cursor-pointer items-center gap-2 rounded px-2 py-1 text-xs hover:bg-gray-50"
+            >
+              <input
+                type="checkbox"
+                checked={selected.includes(pattern)}
+                onChange={() => handleToggle(pattern)}
+              />
+              <code className="font-mono">{pattern}</code>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
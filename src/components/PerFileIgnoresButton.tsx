@@ -0,0 +1,279 @@
+import { useState, useEffect } from 'react'
+import type { PerFileIgnores, RuleInfo } from '../types/rules'
+import { testPerFileIgnores } from '../utils/globMatch'
+import { perFileIgnoresStore } from '../utils/perFileIgnores'
+import { normalizeSelector, resolveSelector } from '../utils/ruleSelector'
+
+interface PerFileIgnoresButtonProps {
+  rules: RuleInfo[]
+}
+
+export default function PerFileIgnoresButton({
+  rules,
+}: PerFileIgnoresButtonProps) {
+  const [showModal, setShowModal] = useState(false)
+  const [perFileIgnores, setPerFileIgnores] = useState<PerFileIgnores>({})
+  const [newPattern, setNewPattern] = useState('')
+  const [codeInputs, setCodeInputs] = useState<Record<string, string>>({})
+  const [codeError, setCodeError] = useState<Record<string, string>>({})
+  const [testPaths, setTestPaths] = useState('')
+
+  // ストアの変更（RuleItemのメニューやインポート）を反映
+  useEffect(() => {
+    const handleUpdate = () => setPerFileIgnores(perFileIgnoresStore.getAll())
+
+    handleUpdate()
+    window.addEventListener('per-file-ignores-updated', handleUpdate)
+    return () =>
+      window.removeEventListener('per-file-ignores-updated', handleUpdate)
+  }, [])
+
+  // ESCキーでモーダルを閉じる
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && showModal) {
+        setShowModal(false)
+      }
+    }
+
+    if (showModal) {
+      document.addEventListener('keydown', handleKeyDown)
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [showModal])
+
+  const handleAddPattern = () => {
+    const pattern = newPattern.trim()
+    if (!pattern) return
+    perFileIgnoresStore.addPattern(pattern)
+    setNewPattern('')
+  }
+
+  // コード（またはプレフィックス）を追加。どのルールにもマッチしない場合はエラー
+  const handleAddCode = (pattern: string) => {
+    const selector = normalizeSelector(codeInputs[pattern] ?? '')
+    if (!selector) return
+
+    if (resolveSelector(rules, selector).length === 0) {
+      setCodeError({
+        ...codeError,
+        [pattern]: `${selector} に該当するルールがありません`,
+      })
+      return
+    }
+
+    perFileIgnoresStore.addRule(pattern, selector)
+    setCodeInputs({ ...codeInputs, [pattern]: '' })
+    setCodeError({ ...codeError, [pattern]: '' })
+  }
+
+  const patterns = Object.entries(perFileIgnores)
+  const testResults = testPerFileIgnores(perFileIgnores, testPaths.split('\n'))
+
+  return (
+    <>
+      <button
+        onClick={() => setShowModal(true)}
+        className="flex w-full items-center justify-center gap-2 rounded-lg border border-gray-300 bg-white px-6 py-2.5 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 md:w-auto"
+        aria-label="per-file-ignoresを編集"
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className="h-4 w-4"
+          viewBox="0 0 20 20"
+          fill="currentColor"
+        >
+          <path d="M2 6a2 2 0 012-2h5l2 2h5a2 2 0 012 2v6a2 2 0 01-2 2H4a2 2 0 01-2-2V6z" />
+        </svg>
+        per-file-ignores
+      </button>
+
+      {showModal && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50"
+          onClick={() => setShowModal(false)}
+        >
+          <div
+            className="mx-4 flex max-h-[80vh] w-full max-w-3xl flex-col overflow-hidden rounded-lg bg-white shadow-xl md:mx-0"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* ヘッダー */}
+            <div className="border-b border-gray-200 bg-gray-50 px-4 py-3 sm:px-6 sm:py-4">
+              <h2 className="text-lg font-semibold text-gray-900 sm:text-xl">
+                per-file-ignores
+              </h2>
+            </div>
+
+            {/* コンテンツ */}
+            <div className="space-y-6 overflow-y-auto p-4 sm:p-6">
+              <datalist id="per-file-ignores-codes">
+                {rules.map((rule) => (
+                  <option key={rule.code} value={rule.code}>
+                    {rule.name}
+                  </option>
+                ))}
+              </datalist>
+
+              <section className="space-y-3">
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={newPattern}
+                    onChange={(e) => setNewPattern(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAddPattern()}
+                    placeholder="tests/**/*.py"
+                    className="flex-1 rounded-lg border border-gray-300 px-3 py-2 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    aria-label="追加するグロブパターン"
+                  />
+                  <button
+                    onClick={handleAddPattern}
+                    disabled={!newPattern.trim()}
+                    className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    パターンを追加
+                  </button>
+                </div>
+
+                {patterns.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    パターンはまだありません
+                  </p>
+                ) : (
+                  <ul className="space-y-3">
+                    {patterns.map(([pattern, codes]) => (
+                      <li
+                        key={pattern}
+                        className="rounded-lg border border-gray-200 p-3"
+                      >
+                        <div className="mb-2 flex items-center justify-between gap-2">
+                          <code className="font-mono text-sm font-semibold">
+                            {pattern}
+                          </code>
+                          <button
+                            onClick={() =>
+                              perFileIgnoresStore.removePattern(pattern)
+                            }
+                            className="text-xs text-red-600 hover:text-red-800"
+                            aria-label={`${pattern}を削除`}
+                          >
+                            削除
+                          </button>
+                        </div>
+                        <div className="mb-2 flex flex-wrap gap-1">
+                          {codes.map((code) => (
+                            <span
+                              key={code}
+                              className="inline-flex items-center gap-1 rounded bg-gray-100 px-2 py-0.5 font-mono text-xs text-gray-700"
+                            >
+                              {code}
+                              <button
+                                onClick={() =>
+                                  perFileIgnoresStore.removeRule(pattern, code)
+                                }
+                                className="text-gray-400 hover:text-gray-700"
+                                aria-label={`${pattern}から${code}を削除`}
+                              >
+                                ×
+                              </button>
+                            </span>
+                          ))}
+                        </div>
+                        <div className="flex gap-2">
+                          <input
+                            type="text"
+                            list="per-file-ignores-codes"
+                            value={codeInputs[pattern] ?? ''}
+                            onChange={(e) =>
+                              setCodeInputs({
+                                ...codeInputs,
+                                [pattern]: e.target.value,
+                              })
+                            }
+                            onKeyDown={(e) =>
+                              e.key === 'Enter' && handleAddCode(pattern)
+                            }
+                            placeholder="S101 / D"
+                            className="w-40 rounded border border-gray-300 px-2 py-1 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            aria-label={`${pattern}に追加するルール`}
+                          />
+                          <button
+                            onClick={() => handleAddCode(pattern)}
+                            className="rounded border border-gray-300 px-2 py-1 text-xs text-gray-700 hover:bg-gray-50"
+                          >
+                            ルールを追加
+                          </button>
+                        </div>
+                        {codeError[pattern] && (
+                          <p className="mt-1 text-xs text-red-600">
+                            {codeError[pattern]}
+                          </p>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+
+              {/* グロブテスター */}
+              <section className="space-y-2 border-t border-gray-200 pt-4">
+                <h3 className="text-sm font-medium text-gray-900">
+                  グロブテスター
+                </h3>
+                <textarea
+                  value={testPaths}
+                  onChange={(e) => setTestPaths(e.target.value)}
+                  rows={5}
+                  placeholder={'src/app/main.py\ntests/test_main.py'}
+                  className="w-full rounded-lg border border-gray-300 px-3 py-2 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  aria-label="テストするファイルパス（1行に1つ）"
+                />
+                {testResults.length > 0 && (
+                  <table className="w-full text-left font-mono text-xs">
+                    <thead className="text-gray-500">
+                      <tr>
+                        <th className="py-1 pr-2 font-medium">ファイル</th>
+                        <th className="py-1 pr-2 font-medium">パターン</th>
+                        <th className="py-1 font-medium">除外されるルール</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {testResults.map((result, index) => (
+                        <tr
+                          key={`${result.filePath}-${index}`}
+                          className="border-t border-gray-100"
+                        >
+                          <td className="py-1 pr-2">{result.filePath}</td>
+                          <td className="py-1 pr-2 text-gray-600">
+                            {result.patterns.join(', ') || '-'}
+                          </td>
+                          <td className="py-1 text-gray-600">
+                            {result.ruleCodes.join(', ') || '-'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </section>
+            </div>
+
+            {/* フッター */}
+            <div className="border-t border-gray-200 bg-gray-50 px-4 py-3 sm:px-6 sm:py-4">
+              <div className="flex justify-end">
+                <button
+                  onClick={() => setShowModal(false)}
+                  className="w-full rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 sm:w-auto"
+                >
+                  閉じる
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
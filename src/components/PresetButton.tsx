@@ -0,0 +1,149 @@
+import { useState, useEffect } from 'react'
+import { PRESETS } from '../data/presets'
+import type { RuleInfo } from '../types/rules'
+import { buildPresetSettings } from '../utils/presets'
+import { ruleSettingsStore } from '../utils/ruleSettings'
+import { diffSettings, type SettingsChange } from '../utils/settingsDiff'
+import SettingsDiffList from './SettingsDiffList'
+
+interface PresetButtonProps {
+  rules: RuleInfo[]
+}
+
+export default function PresetButton({ rules }: PresetButtonProps) {
+  const [showModal, setShowModal] = useState(false)
+  const [preset, setPreset] = useState(PRESETS[0])
+  const [changes, setChanges] = useState<SettingsChange[]>([])
+
+  // ESCキーでモーダルを閉じる
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && showModal) {
+        setShowModal(false)
+      }
+    }
+
+    if (showModal) {
+      document.addEventListener('keydown', handleKeyDown)
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [showModal])
+
+  // 選択したプリセットと現在の設定の差分を表示
+  const handleSelect = (id: string) => {
+    const selected = PRESETS.find((p) => p.id === id) ?? PRESETS[0]
+    setPreset(selected)
+    setChanges(diffSettings(rules, buildPresetSettings(selected, rules)))
+  }
+
+  const handleOpen = () => {
+    handleSelect(preset.id)
+    setShowModal(true)
+  }
+
+  const handleApply = () => {
+    ruleSettingsStore.setMany(buildPresetSettings(preset, rules))
+    setShowModal(false)
+  }
+
+  return (
+    <>
+      <button
+        onClick={handleOpen}
+        className="flex w-full items-center justify-center gap-2 rounded-lg border border-gray-300 bg-white px-6 py-2.5 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 md:w-auto"
+        aria-label="プリセットを適用"
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className="h-4 w-4"
+          viewBox="0 0 20 20"
+          fill="currentColor"
+        >
+          <path d="M5 3a2 2 0 00-2 2v2a2 2 0 002 2h2a2 2 0 002-2V5a2 2 0 00-2-2H5zM5 11a2 2 0 00-2 2v2a2 2 0 002 2h2a2 2 0 002-2v-2a2 2 0 00-2-2H5zM11 5a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V5zM11 13a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z" />
+        </svg>
+        プリセット
+      </button>
+
+      {showModal && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50"
+          onClick={() => setShowModal(false)}
+        >
+          <div
+            className="mx-4 flex max-h-[80vh] w-full max-w-3xl flex-col overflow-hidden rounded-lg bg-white shadow-xl md:mx-0"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* ヘッダー */}
+            <div className="border-b border-gray-200 bg-gray-50 px-4 py-3 sm:px-6 sm:py-4">
+              <h2 className="text-lg font-semibold text-gray-900 sm:text-xl">
+                プリセットを適用
+              </h2>
+            </div>
+
+            {/* コンテンツ */}
+            <div className="space-y-4 overflow-y-auto p-4 sm:p-6">
+              <div className="flex flex-wrap gap-2" role="radiogroup">
+                {PRESETS.map((p) => (
+                  <button
+                    key={p.id}
+                    role="radio"
+                    aria-checked={preset.id === p.id}
+                    onClick={() => handleSelect(p.id)}
+                    className={`rounded-lg px-3 py-1.5 text-sm font-medium ${
+                      preset.id === p.id
+                        ? 'bg-blue-600 text-white'
+                        : 'border border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {p.name}
+                  </button>
+                ))}
+              </div>
+
+              <p className="text-sm text-gray-700">{preset.description}</p>
+
+              {preset.ignore.length > 0 && (
+                <div className="rounded-lg border border-gray-200 bg-gray-50 p-3">
+                  <p className="mb-1 text-xs text-gray-700">
+                    無効にするルールと理由:
+                  </p>
+                  <ul className="font-mono text-xs text-gray-600">
+                    {preset.ignore.map((entry) => (
+                      <li key={entry.selector}>
+                        {entry.selector}: {entry.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <SettingsDiffList changes={changes} />
+            </div>
+
+            {/* フッター */}
+            <div className="border-t border-gray-200 bg-gray-50 px-4 py-3 sm:px-6 sm:py-4">
+              <div className="flex flex-col items-stretch gap-2 sm:flex-row sm:items-center sm:justify-end sm:gap-3">
+                <button
+                  onClick={() => setShowModal(false)}
+                  className="w-full rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 sm:w-auto"
+                >
+                  キャンセル
+                </button>
+                <button
+                  onClick={handleApply}
+                  disabled={changes.length === 0}
+                  className="w-full rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 sm:w-auto"
+                >
+                  適用
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
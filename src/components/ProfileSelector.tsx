@@ -0,0 +1,240 @@
+import { useState, useEffect } from 'react'
+import { DEFAULT_PROFILE_ID } from '../utils/profileStorage'
+import { profileStore, type Profile } from '../utils/profiles'
+
+// ヘッダーのプロファイル切り替えと、作成・名前変更・複製・削除のモーダル
+export default function ProfileSelector() {
+  const [profiles, setProfiles] = useState<Profile[]>([])
+  const [activeId, setActiveId] = useState('')
+  const [showModal, setShowModal] = useState(false)
+  const [newName, setNewName] = useState('')
+  const [names, setNames] = useState<Record<string, string>>({})
+  const [pendingDelete, setPendingDelete] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // プロファイルの一覧と選択中のプロファイルを反映
+  useEffect(() => {
+    const handleUpdate = () => {
+      const all = profileStore.getAll()
+      setProfiles(all)
+      setActiveId(profileStore.getActive().id)
+      setNames(Object.fromEntries(all.map((p) => [p.id, p.name])))
+    }
+
+    handleUpdate()
+    window.addEventListener('profiles-updated', handleUpdate)
+    window.addEventListener('profile-changed', handleUpdate)
+    return () => {
+      window.removeEventListener('profiles-updated', handleUpdate)
+      window.removeEventListener('profile-changed', handleUpdate)
+    }
+  }, [])
+
+  // ESCキーでモーダルを閉じる
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && showModal) {
+        setShowModal(false)
+      }
+    }
+
+    if (showModal) {
+      document.addEventListener('keydown', handleKeyDown)
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [showModal])
+
+  // ストアの操作で発生したエラーをモーダルに表示
+  const run = (action: () => void) => {
+    try {
+      action()
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const handleOpen = () => {
+    setNewName('')
+    setPendingDelete(null)
+    setError(null)
+    setShowModal(true)
+  }
+
+  const handleCreate = (duplicate: boolean) =>
+    run(() => {
+      if (duplicate) {
+        profileStore.duplicate(activeId, newName)
+      } else {
+        profileStore.create(newName)
+      }
+      setNewName('')
+    })
+
+  const handleRename = (profile: Profile) => {
+    const name = names[profile.id] ?? ''
+    if (name === profile.name) return
+    run(() => profileStore.rename(profile.id, name))
+  }
+
+  const handleDelete = (profileId: string) => {
+    if (pendingDelete !== profileId) {
+      setPendingDelete(profileId)
+      return
+    }
+    run(() => profileStore.delete(profileId))
+    setPendingDelete(null)
+  }
+
+  return (
+    <>
+      <span className="inline-flex items-center gap-1">
+        <label className="inline-flex items-center gap-1">
+          <span>プロファイル</span>
+          <select
+            value={activeId}
+            onChange={(e) => profileStore.switch(e.target.value)}
+            className="rounded border border-gray-300 bg-white px-1 py-0.5 text-xs text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="プロファイル"
+          >
+            {profiles.map((profile) => (
+              <option key={profile.id} value={profile.id}>
+                {profile.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={handleOpen}
+          className="text-blue-600 hover:underline"
+          aria-label="プロファイルを管理"
+        >
+          管理
+        </button>
+      </span>
+
+      {showModal && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50"
+          onClick={() => setShowModal(false)}
+        >
+          <div
+            className="mx-4 flex max-h-[80vh] w-full max-w-lg flex-col overflow-hidden rounded-lg bg-white shadow-xl md:mx-0"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* ヘッダー */}
+            <div className="border-b border-gray-200 bg-gray-50 px-4 py-3 sm:px-6 sm:py-4">
+              <h2 className="text-lg font-semibold text-gray-900 sm:text-xl">
+                プロファイル
+              </h2>
+            </div>
+
+            {/* コンテンツ */}
+            <div className="space-y-4 overflow-y-auto p-4 sm:p-6">
+              <p className="text-sm text-gray-600">
+                ルールの有効/無効・per-file-ignores・設定値はプロファイルごとに保存されます。
+              </p>
+
+              <div className="flex flex-wrap gap-2">
+                <input
+                  type="text"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleCreate(false)}
+                  placeholder="ライブラリ用"
+                  className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  aria-label="新しいプロファイルの名前"
+                />
+                <button
+                  onClick={() => handleCreate(false)}
+                  disabled={!newName.trim()}
+                  className="rounded-lg bg-blue-600 px-3 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  作成
+                </button>
+                <button
+                  onClick={() => handleCreate(true)}
+                  disabled={!newName.trim()}
+                  className="rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  現在のプロファイルを複製
+                </button>
+              </div>
+
+              {error && (
+                <div className="rounded-lg border border-red-200 bg-red-50 p-3">
+                  <p className="text-xs text-red-700">{error}</p>
+                </div>
+              )}
+
+              <ul className="divide-y divide-gray-100 rounded-lg border border-gray-200">
+                {profiles.map((profile) => (
+                  <li
+                    key={profile.id}
+                    className="flex flex-wrap items-center gap-2 px-3 py-2 text-sm"
+                  >
+                    <input
+                      type="text"
+                      value={names[profile.id] ?? ''}
+                      onChange={(e) =>
+                        setNames({ ...names, [profile.id]: e.target.value })
+                      }
+                      onBlur={() => handleRename(profile)}
+                      onKeyDown={(e) =>
+                        e.key === 'Enter' && handleRename(profile)
+                      }
+                      className="min-w-0 flex-1 rounded border border-transparent px-2 py-1 hover:border-gray-300 focus:border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      aria-label={`${profile.name}の名前`}
+                    />
+                    {profile.id === activeId ? (
+                      <span className="rounded bg-blue-100 px-2 py-0.5 text-xs text-blue-800">
+                        使用中
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() =>
+                          run(() => profileStore.switch(profile.id))
+                        }
+                        className="text-xs text-blue-600 hover:underline"
+                      >
+                        切り替え
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleDelete(profile.id)}
+                      disabled={
+                        profiles.length <= 1 ||
+                        profile.id === DEFAULT_PROFILE_ID
+                      }
+                      className="text-xs text-red-600 hover:text-red-800 disabled:opacity-50"
+                      aria-label={`${profile.name}を削除`}
+                    >
+                      {pendingDelete === profile.id
+                        ? '削除する（元に戻せません）'
+                        : '削除'}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            {/* フッター */}
+            <div className="border-t border-gray-200 bg-gray-50 px-4 py-3 sm:px-6 sm:py-4">
+              <div className="flex justify-end">
+                <button
+                  onClick={() => setShowModal(false)}
+                  className="w-full rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 sm:w-auto"
+                >
+                  閉じる
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
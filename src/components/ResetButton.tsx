@@ -1,11 +1,13 @@
 import { useState, useEffect } from 'react'
-import { ruleSettingsStore } from '../utils/ruleSettings'
+import { profileStore } from '../utils/profiles'
+import { resetSettings } from '../utils/undo'
 
 export default function ResetButton() {
   const [showConfirmModal, setShowConfirmModal] = useState(false)
   const [resetStatus, setResetStatus] = useState<
     'idle' | 'resetting' | 'success'
   >('idle')
+  const [profileName, setProfileName] = useState('')
 
   // ESCキーでモーダルを閉じる
   useEffect(() => {
@@ -28,8 +30,8 @@ export default function ResetButton() {
     setResetStatus('resetting')
 
     try {
-      // 設定をリセット
-      ruleSettingsStore.clearAll()
+      // 選択中のプロファイルの設定をリセット（履歴から元に戻せる）
+      resetSettings()
       setResetStatus('success')
 
       // 成功イベントをdispatch（各コンポーネントが受け取って更新）
@@ -57,7 +59,10 @@ export default function ResetButton() {
   return (
     <>
       <button
-        onClick={() => setShowConfirmModal(true)}
+        onClick={() => {
+          setProfileName(profileStore.getActive().name)
+          setShowConfirmModal(true)
+        }}
         className="flex w-full items-center justify-center gap-2 rounded-lg bg-red-600 px-6 py-2.5 text-sm font-medium text-white hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 md:w-auto"
         aria-label="設定をリセット"
       >
@@ -119,11 +124,14 @@ export default function ResetButton() {
               ) : (
                 <div className="space-y-3">
                   <p className="text-sm text-gray-700">
-                    本当に全ての設定をリセットしますか？この操作は元に戻せません。
+                    全ての設定をリセットしますか？リセット後も「元に戻す」または履歴から復元できます。
+                  </p>
+                  <p className="text-sm text-gray-700">
+                    対象のプロファイル: {profileName}
                   </p>
                   <div className="rounded-lg border border-red-200 bg-red-50 p-3">
                     <p className="text-xs text-red-700">
-                      ルールの有効/無効、コメントなど全ての設定が初期状態に戻ります。
+                      ルールの有効/無効、コメント、per-file-ignores、設定値など全ての設定が初期状態に戻ります（他のプロファイルは変更されません）。
                     </p>
                   </div>
                 </div>
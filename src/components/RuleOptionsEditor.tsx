@@ -0,0 +1,86 @@
+import { useState, useEffect } from 'react'
+import {
+  formatOptionValue,
+  getOptionDocumentUrl,
+  ruleOptionsStore,
+} from '../utils/ruleOptions'
+
+interface RuleOptionsEditorProps {
+  options: string[]
+}
+
+// ルールの "Options" に挙げられた設定キーの値を編集する
+export default function RuleOptionsEditor({ options }: RuleOptionsEditorProps) {
+  const [values, setValues] = useState<Record<string, string>>({})
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  // 同じ設定キーを使う他のルールでの変更やリセットを反映
+  useEffect(() => {
+    const handleUpdate = () => {
+      const stored = ruleOptionsStore.getAll()
+      setValues(
+        Object.fromEntries(options.map((key) => [key, stored[key] ?? '']))
+      )
+      setErrors({})
+    }
+
+    handleUpdate()
+    window.addEventListener('rule-options-updated', handleUpdate)
+    return () =>
+      window.removeEventListener('rule-options-updated', handleUpdate)
+  }, [options])
+
+  // 空欄にすると設定を削除（Ruffのデフォルト値に戻る）
+  const handleCommit = (key: string) => {
+    const input = values[key] ?? ''
+    if (!input.trim()) {
+      if (ruleOptionsStore.get(key) !== undefined) ruleOptionsStore.remove(key)
+      return
+    }
+
+    try {
+      const formatted = formatOptionValue(input)
+      if (ruleOptionsStore.get(key) !== formatted) {
+        ruleOptionsStore.set(key, formatted)
+      }
+    } catch (err) {
+      setErrors({
+        ...errors,
+        [key]: err instanceof Error ? err.message : String(err),
+      })
+    }
+  }
+
+  return (
+    <div className="mt-2 space-y-1">
+      {options.map((key) => (
+        <div key={key} className="flex flex-wrap items-center gap-2 text-xs">
+          <a
+            href={getOptionDocumentUrl(key)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="font-mono text-gray-600 hover:text-blue-800 hover:underline"
+          >
+            {key}
+          </a>
+          <input
+            type="text"
+            value={values[key] ?? ''}
+            onChange={(e) => {
+              setValues({ ...values, [key]: e.target.value })
+              setErrors({ ...errors, [key]: '' })
+            }}
+            onBlur={() => handleCommit(key)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCommit(key)}
+            placeholder="デフォルト"
+            className={`w-40 rounded border px-2 py-0.5 font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+              errors[key] ? 'border-red-400' : 'border-gray-300'
+            }`}
+            aria-label={`${key}の値`}
+          />
+          {errors[key] && <span className="text-red-600">{errors[key]}</span>}
+        </div>
+      ))}
+    </div>
+  )
+}
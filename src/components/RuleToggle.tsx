@@ -1,11 +1,18 @@
 import { useState, useEffect } from 'react'
-import { ruleSettingsStore } from '../utils/ruleSettings'
+import {
+  ruleSettingsStore,
+  type SettingsUpdatedDetail,
+} from '../utils/ruleSettings'
 
 interface RuleToggleProps {
   ruleCode: string
+  fixable?: boolean // 自動修正が可能なルールのみ「自動修正しない」を表示
 }
 
-export default function RuleToggle({ ruleCode }: RuleToggleProps) {
+export default function RuleToggle({
+  ruleCode,
+  fixable = false,
+}: RuleToggleProps) {
   // 初期値はデフォルト（キャッシュから同期取得）
   const initialSettings =
     typeof window !== 'undefined'
@@ -14,13 +21,15 @@ export default function RuleToggle({ ruleCode }: RuleToggleProps) {
 
   const [enabled, setEnabled] = useState(initialSettings.enabled)
   const [comment, setComment] = useState(initialSettings.comment || '')
+  const [unfixable, setUnfixable] = useState(!!initialSettings.unfixable)
 
-  // マウント時に非同期でlocalStorageから読み込み（バッチ処理）
+  // マウント時に非同期でストレージから読み込み（バッチ処理）
   useEffect(() => {
     if (typeof window !== 'undefined') {
       ruleSettingsStore.load(ruleCode, (data) => {
         setEnabled(data.enabled)
         setComment(data.comment || '')
+        setUnfixable(!!data.unfixable)
       })
     }
   }, [ruleCode])
@@ -31,21 +40,67 @@ export default function RuleToggle({ ruleCode }: RuleToggleProps) {
       // デフォルト値（enabled: true, comment: ''）に戻す
       setEnabled(true)
       setComment('')
+      setUnfixable(false)
     }
 
     window.addEventListener('settings-reset', handleReset)
     return () => window.removeEventListener('settings-reset', handleReset)
   }, [])
 
+  // settings-updatedイベントのリスナー（インポートなどの一括更新）
+  useEffect(() => {
+    const handleUpdate = (e: Event) => {
+      const { ruleCodes } = (e as CustomEvent<SettingsUpdatedDetail>).detail
+      if (!ruleCodes.includes(ruleCode)) return
+
+      const data = ruleSettingsStore.getSync(ruleCode)
+      setEnabled(data.enabled)
+      setComment(data.comment || '')
+      setUnfixable(!!data.unfixable)
+    }
+
+    window.addEventListener('settings-updated', handleUpdate)
+    return () => window.removeEventListener('settings-updated', handleUpdate)
+  }, [ruleCode])
+
+  // profile-changedイベントのリスナー（切り替え先のプロファイルの設定を読み込む）
+  useEffect(() => {
+    const handleProfileChange = () => {
+      const data = ruleSettingsStore.getSyncWithStorage(ruleCode)
+      setEnabled(data.enabled)
+      setComment(data.comment || '')
+      setUnfixable(!!data.unfixable)
+    }
+
+    window.addEventListener('profile-changed', handleProfileChange)
+    return () =>
+      window.removeEventListener('profile-changed', handleProfileChange)
+  }, [ruleCode])
+
+  // unfixableはtrueの場合のみ保存される
+  // setManyで保存し、カテゴリの見出しなどに変更を通知する
+  const save = (data: {
+    enabled: boolean
+    comment: string
+    unfixable: boolean
+  }) => {
+    ruleSettingsStore.setMany({ [ruleCode]: data })
+  }
+
   const handleToggle = () => {
     const newEnabled = !enabled
     setEnabled(newEnabled)
-    ruleSettingsStore.set(ruleCode, { enabled: newEnabled, comment })
+    save({ enabled: newEnabled, comment, unfixable })
   }
 
   const handleCommentChange = (value: string) => {
     setComment(value)
-    ruleSettingsStore.set(ruleCode, { enabled, comment: value })
+    save({ enabled, comment: value, unfixable })
+  }
+
+  const handleUnfixableChange = (value: boolean) => {
+    setUnfixable(value)
+    save({ enabled, comment, unfixable: value })
   }
 
   return (
@@ -73,6 +128,18 @@ export default function RuleToggle({ ruleCode }: RuleToggleProps) {
           className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
         />
       )}
+
+      {enabled && fixable && (
+        <label className="flex items-center gap-1 text-xs text-gray-600">
+          <input
+            type="checkbox"
+            checked={unfixable}
+            onChange={(e) => handleUnfixableChange(e.target.checked)}
+            aria-label={`${ruleCode}を自動修正しない`}
+          />
+          自動修正しない
+        </label>
+      )}
     </div>
   )
 }
@@ -0,0 +1,56 @@
+import type { SettingsChange } from '../utils/settingsDiff'
+
+interface SettingsDiffListProps {
+  changes: SettingsChange[]
+}
+
+function formatState(enabled: boolean): string {
+  return enabled ? '有効' : '無効'
+}
+
+export default function SettingsDiffList({ changes }: SettingsDiffListProps) {
+  if (changes.length === 0) {
+    return (
+      <p className="text-sm text-gray-600">変更されるルールはありません。</p>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-gray-700">
+        {changes.length} 件のルールが変更されます
+      </p>
+      <ul className="max-h-64 divide-y divide-gray-100 overflow-y-auto rounded-lg border border-gray-200 text-sm">
+        {changes.map(({ rule, before, after }) => (
+          <li
+            key={rule.code}
+            className="flex flex-wrap items-center gap-2 px-3 py-2"
+          >
+            <code className="font-mono font-semibold">{rule.code}</code>
+            <span className="text-gray-500">{rule.name}</span>
+            <span className="ml-auto text-xs">
+              {before.enabled !== after.enabled ? (
+                <span
+                  className={after.enabled ? 'text-blue-700' : 'text-red-700'}
+                >
+                  {formatState(before.enabled)} → {formatState(after.enabled)}
+                </span>
+              ) : (before.comment || '') !== (after.comment || '') ? (
+                <span className="text-gray-600">コメント変更</span>
+              ) : (
+                <span className="text-gray-600">
+                  {after.unfixable ? '自動修正しない' : '自動修正する'}
+                </span>
+              )}
+            </span>
+            {after.comment && (
+              <span className="w-full text-xs text-gray-500">
+                # {after.comment}
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
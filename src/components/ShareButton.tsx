@@ -0,0 +1,193 @@
+import { useState, useEffect } from 'react'
+import type { ImportResult, RuleInfo } from '../types/rules'
+import { ruleSettingsStore } from '../utils/ruleSettings'
+import { diffSettings, type SettingsChange } from '../utils/settingsDiff'
+import {
+  decodeShareFragment,
+  encodeShareFragment,
+  getSharedSettings,
+  importSharedSettings,
+} from '../utils/shareLink'
+import { initStorage } from '../utils/storageStartup'
+import SettingsDiffList from './SettingsDiffList'
+
+interface ShareButtonProps {
+  rules: RuleInfo[]
+}
+
+// 共有リンクを開いた後は、リロードで再び確認されないようフラグメントを消す
+function clearHash() {
+  history.replaceState(
+    null,
+    '',
+    window.location.pathname + window.location.search
+  )
+}
+
+export default function ShareButton({ rules }: ShareButtonProps) {
+  const [copyStatus, setCopyStatus] = useState<'idle' | 'copied' | 'error'>(
+    'idle'
+  )
+  const [showModal, setShowModal] = useState(false)
+  const [result, setResult] = useState<ImportResult | null>(null)
+  const [changes, setChanges] = useState<SettingsChange[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  // 共有リンク（#share=...）で開かれた場合は差分を表示
+  // （保存済みの設定と比べるため、保存先を読み込んでから）
+  useEffect(() => {
+    initStorage()
+      .then(() => decodeShareFragment(window.location.hash))
+      .then((shared) => {
+        if (!shared) return
+        const imported = importSharedSettings(shared, rules)
+        setResult(imported)
+        setChanges(diffSettings(rules, imported.settings))
+        setShowModal(true)
+      })
+      .catch((err) => {
+        console.error('Failed to open share link:', err)
+        setError(err instanceof Error ? err.message : String(err))
+        setShowModal(true)
+      })
+  }, [rules])
+
+  // ESCキーでモーダルを閉じる
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && showModal) {
+        setShowModal(false)
+        clearHash()
+      }
+    }
+
+    if (showModal) {
+      document.addEventListener('keydown', handleKeyDown)
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [showModal])
+
+  const handleCopyLink = async () => {
+    try {
+      const fragment = await encodeShareFragment(getSharedSettings(rules))
+      const url = `${window.location.origin}${window.location.pathname}#${fragment}`
+      await navigator.clipboard.writeText(url)
+      setCopyStatus('copied')
+      setTimeout(() => setCopyStatus('idle'), 2000)
+    } catch (error) {
+      console.error('Failed to copy share link:', error)
+      setCopyStatus('error')
+      setTimeout(() => setCopyStatus('idle'), 2000)
+    }
+  }
+
+  const handleClose = () => {
+    setShowModal(false)
+    clearHash()
+  }
+
+  const handleApply = () => {
+    if (!result) return
+    ruleSettingsStore.setMany(result.settings)
+    handleClose()
+  }
+
+  return (
+    <>
+      <button
+        onClick={handleCopyLink}
+        className="flex w-full items-center justify-center gap-2 rounded-lg border border-gray-300 bg-white px-6 py-2.5 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 md:w-auto"
+        aria-label="共有リンクをコピー"
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className="h-4 w-4"
+          viewBox="0 0 20 20"
+          fill="currentColor"
+        >
+          <path
+            fillRule="evenodd"
+            d="M12.586 4.586a2 2 0 112.828 2.828l-3 3a2 2 0 01-2.828 0 1 1 0 00-1.414 1.414 4 4 0 005.656 0l3-3a4 4 0 00-5.656-5.656l-1.5 1.5a1 1 0 101.414 1.414l1.5-1.5zm-5 5a2 2 0 012.828 0 1 1 0 101.414-1.414 4 4 0 00-5.656 0l-3 3a4 4 0 105.656 5.656l1.5-1.5a1 1 0 10-1.414-1.414l-1.5 1.5a2 2 0 11-2.828-2.828l3-3z"
+            clipRule="evenodd"
+          />
+        </svg>
+        {copyStatus === 'copied'
+          ? 'コピーしました'
+          : copyStatus === 'error'
+            ? 'コピーに失敗しました'
+            : '共有リンクをコピー'}
+      </button>
+
+      {showModal && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50"
+          onClick={handleClose}
+        >
+          <div
+            className="mx-4 flex max-h-[80vh] w-full max-w-3xl flex-col overflow-hidden rounded-lg bg-white shadow-xl md:mx-0"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* ヘッダー */}
+            <div className="border-b border-gray-200 bg-gray-50 px-4 py-3 sm:px-6 sm:py-4">
+              <h2 className="text-lg font-semibold text-gray-900 sm:text-xl">
+                共有された設定
+              </h2>
+            </div>
+
+            {/* コンテンツ */}
+            <div className="space-y-3 overflow-y-auto p-4 sm:p-6">
+              {error && (
+                <div className="rounded-lg border border-red-200 bg-red-50 p-3">
+                  <p className="text-xs text-red-700">
+                    共有リンクを読み込めませんでした: {error}
+                  </p>
+                </div>
+              )}
+
+              {result && (
+                <>
+                  <p className="text-sm text-gray-600">
+                    リンクに含まれるルールを無効にし、それ以外のルールを有効にします。
+                  </p>
+                  {result.unknownCodes.length > 0 && (
+                    <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-3">
+                      <p className="text-xs text-yellow-800">
+                        このバージョンに存在しないコード（無視されます）:{' '}
+                        {result.unknownCodes.join(', ')}
+                      </p>
+                    </div>
+                  )}
+                  <SettingsDiffList changes={changes} />
+                </>
+              )}
+            </div>
+
+            {/* フッター */}
+            <div className="border-t border-gray-200 bg-gray-50 px-4 py-3 sm:px-6 sm:py-4">
+              <div className="flex flex-col items-stretch gap-2 sm:flex-row sm:items-center sm:justify-end sm:gap-3">
+                <button
+                  onClick={handleClose}
+                  className="w-full rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 sm:w-auto"
+                >
+                  {result ? 'キャンセル' : '閉じる'}
+                </button>
+                {result && (
+                  <button
+                    onClick={handleApply}
+                    disabled={changes.length === 0}
+                    className="w-full rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 sm:w-auto"
+                  >
+                    適用
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,164 @@
+import { useState, useEffect } from 'react'
+import type { RuleInfo } from '../types/rules'
+import {
+  discardSetting,
+  findStaleSettings,
+  keepSetting,
+  migrateSetting,
+  type StaleSetting,
+} from '../utils/staleSettings'
+
+interface StaleSettingsNoticeProps {
+  rules: RuleInfo[]
+  newerCodes: string[] // 最新のバージョンにのみ存在するルールコード
+}
+
+const REASON_LABELS: Record<StaleSetting['reason'], string> = {
+  orphaned: 'このバージョンにも最新のバージョンにも存在しないルール',
+  removed: '削除済み（removed）のルール',
+}
+
+function describeSetting({ setting }: StaleSetting): string {
+  return [
+    setting.enabled ? '有効' : '無効',
+    setting.unfixable ? '自動修正しない' : '',
+    setting.comment ? `理由: ${setting.comment}` : '',
+  ]
+    .filter(Boolean)
+    .join(' / ')
+}
+
+// 起動時に、ルール一覧から消えた・removedになったルールの保存済み設定を通知する
+export default function StaleSettingsNotice({
+  rules,
+  newerCodes,
+}: StaleSettingsNoticeProps) {
+  const [staleSettings, setStaleSettings] = useState<StaleSetting[]>([])
+  const [targets, setTargets] = useState<Record<string, string>>({})
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  // 移行・破棄・インポート・リセット・プロファイルの切り替えの後に再チェック
+  useEffect(() => {
+    const handleUpdate = () =>
+      setStaleSettings(findStaleSettings(rules, newerCodes))
+
+    handleUpdate()
+    window.addEventListener('settings-updated', handleUpdate)
+    window.addEventListener('settings-reset', handleUpdate)
+    window.addEventListener('profile-changed', handleUpdate)
+    return () => {
+      window.removeEventListener('settings-updated', handleUpdate)
+      window.removeEventListener('settings-reset', handleUpdate)
+      window.removeEventListener('profile-changed', handleUpdate)
+    }
+  }, [rules, newerCodes])
+
+  // 移行先は削除済みでないルールに限る
+  const handleMigrate = (code: string) => {
+    const target = (targets[code] ?? '').trim().toUpperCase()
+    const rule = rules.find((r) => r.code === target)
+    if (!rule || rule.status === 'removed') {
+      setErrors({ ...errors, [code]: `${target} は移行先に指定できません` })
+      return
+    }
+
+    migrateSetting(code, target)
+    setErrors({ ...errors, [code]: '' })
+  }
+
+  const handleKeep = (code: string) => {
+    keepSetting(code)
+    setStaleSettings(findStaleSettings(rules, newerCodes))
+  }
+
+  if (staleSettings.length === 0) return null
+
+  return (
+    <div className="mx-auto max-w-7xl px-4 pt-6 sm:px-6 lg:px-8">
+      <section
+        className="rounded-lg border border-yellow-300 bg-yellow-50 p-4"
+        aria-label="見直しが必要な設定"
+      >
+        <h2 className="text-sm font-semibold text-yellow-900">
+          見直しが必要な設定が{staleSettings.length}件あります
+        </h2>
+        <p className="mt-1 text-xs text-yellow-800">
+          Ruffのバージョンアップで削除・変更されたルールの設定です。別のルールに移行するか、そのまま保持するか、破棄してください。
+        </p>
+
+        <datalist id="stale-settings-codes">
+          {rules
+            .filter((rule) => rule.status !== 'removed')
+            .map((rule) => (
+              <option key={rule.code} value={rule.code}>
+                {rule.name}
+              </option>
+            ))}
+        </datalist>
+
+        <ul className="mt-3 space-y-2">
+          {staleSettings.map((stale) => (
+            <li
+              key={stale.code}
+              className="rounded border border-yellow-200 bg-white p-3 text-sm"
+            >
+              <div className="flex flex-wrap items-center gap-2">
+                <code className="font-mono font-semibold">{stale.code}</code>
+                {stale.rule && (
+                  <span className="text-gray-700">{stale.rule.name}</span>
+                )}
+                <span className="rounded bg-yellow-100 px-2 py-0.5 text-xs text-yellow-800">
+                  {REASON_LABELS[stale.reason]}
+                </span>
+              </div>
+              <p className="mt-1 text-xs text-gray-600">
+                {describeSetting(stale)}
+              </p>
+
+              <div className="mt-2 flex flex-wrap items-center gap-2">
+                <input
+                  type="text"
+                  list="stale-settings-codes"
+                  value={targets[stale.code] ?? ''}
+                  onChange={(e) =>
+                    setTargets({ ...targets, [stale.code]: e.target.value })
+                  }
+                  onKeyDown={(e) =>
+                    e.key === 'Enter' && handleMigrate(stale.code)
+                  }
+                  placeholder="移行先のコード"
+                  className="w-36 rounded border border-gray-300 px-2 py-1 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  aria-label={`${stale.code}の移行先`}
+                />
+                <button
+                  onClick={() => handleMigrate(stale.code)}
+                  disabled={!(targets[stale.code] ?? '').trim()}
+                  className="rounded bg-blue-600 px-3 py-1 text-xs font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  移行
+                </button>
+                <button
+                  onClick={() => handleKeep(stale.code)}
+                  className="rounded border border-gray-300 px-3 py-1 text-xs text-gray-700 hover:bg-gray-50"
+                >
+                  保持
+                </button>
+                <button
+                  onClick={() => discardSetting(stale.code)}
+                  className="rounded border border-red-300 px-3 py-1 text-xs text-red-600 hover:bg-red-50"
+                >
+                  破棄
+                </button>
+              </div>
+              {errors[stale.code] && (
+                <p className="mt-1 text-xs text-red-600">
+                  {errors[stale.code]}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+import { useState, useEffect } from 'react'
+import { getLastStorageError } from '../utils/storageErrors'
+
+// ストレージの読み書きに失敗したことを画面右下に表示する
+export default function StorageErrorToast() {
+  const [message, setMessage] = useState<string | null>(null)
+
+  // 最後に発生したエラーを表示（トーストのハイドレーション前に発生したものを含む）
+  useEffect(() => {
+    const handleError = () => setMessage(getLastStorageError())
+
+    handleError()
+    window.addEventListener('storage-error', handleError)
+    return () => window.removeEventListener('storage-error', handleError)
+  }, [])
+
+  if (!message) return null
+
+  return (
+    <div
+      role="alert"
+      className="fixed bottom-4 right-4 z-50 mx-4 flex max-w-md items-start gap-3 rounded-lg border border-red-200 bg-red-50 p-4 shadow-lg sm:mx-0"
+    >
+      <div className="min-w-0 flex-1">
+        <p className="text-sm font-medium text-red-800">{message}</p>
+        <p className="mt-1 text-xs text-red-700">
+          変更はこのページを閉じるまで保持されますが、ブラウザに保存されていない可能性があります。
+        </p>
+      </div>
+      <button
+        onClick={() => setMessage(null)}
+        className="flex-shrink-0 text-red-600 hover:text-red-800"
+        aria-label="エラーを閉じる"
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className="h-4 w-4"
+          viewBox="0 0 20 20"
+          fill="currentColor"
+        >
+          <path
+            fillRule="evenodd"
+            d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z"
+            clipRule="evenodd"
+          />
+        </svg>
+      </button>
+    </div>
+  )
+}
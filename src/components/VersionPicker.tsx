@@ -0,0 +1,39 @@
+interface VersionOption {
+  version: string
+  href: string // そのバージョンのルール一覧ページ
+}
+
+interface VersionPickerProps {
+  versions: VersionOption[]
+  currentVersion: string
+}
+
+// ルール一覧・エクスポートに使うRuffのバージョンを切り替える
+export default function VersionPicker({
+  versions,
+  currentVersion,
+}: VersionPickerProps) {
+  const handleChange = (version: string) => {
+    const target = versions.find((v) => v.version === version)
+    if (target) window.location.href = target.href
+  }
+
+  return (
+    <label className="inline-flex items-center gap-1">
+      <span>Ruff</span>
+      <select
+        value={currentVersion}
+        onChange={(e) => handleChange(e.target.value)}
+        className="rounded border border-gray-300 bg-white px-1 py-0.5 text-xs text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        aria-label="Ruffのバージョン"
+      >
+        {versions.map(({ version }, index) => (
+          <option key={version} value={version}>
+            v{version}
+            {index === 0 ? '（最新）' : ''}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
@@ -0,0 +1,114 @@
+import type { Preset, PresetIgnore } from '../types/rules'
+
+// ruff formatと競合するルール（https://docs.astral.sh/ruff/formatter/#conflicting-lint-rules）
+const FORMATTER_CONFLICTS: PresetIgnore[] = [
+  'W191',
+  'E111',
+  'E114',
+  'E117',
+  'D206',
+  'D300',
+  'Q000',
+  'Q001',
+  'Q002',
+  'Q003',
+  'COM812',
+  'COM819',
+  'ISC001',
+  'ISC002',
+].map((selector) => ({
+  selector,
+  reason: 'ruff formatと競合する',
+}))
+
+// 同時に有効にできないpydocstyleのルール
+const DOCSTRING_CONFLICTS: PresetIgnore[] = [
+  {
+    selector: 'D203',
+    reason: 'D211（クラスの前に空行を入れない）と両立しない',
+  },
+  { selector: 'D213', reason: 'D212（1行目から要約を書く）と両立しない' },
+]
+
+// Googleスタイルのdocstringで無効になるルール（convention = "google"）
+const GOOGLE_CONVENTION: PresetIgnore[] = [
+  'D203',
+  'D204',
+  'D213',
+  'D215',
+  'D400',
+  'D401',
+  'D404',
+  'D406',
+  'D407',
+  'D408',
+  'D409',
+  'D413',
+].map((selector) => ({
+  selector,
+  reason: 'Googleスタイルのdocstringと両立しない',
+}))
+
+export const PRESETS: Preset[] = [
+  {
+    id: 'ruff-default',
+    name: 'Ruffのデフォルト',
+    description:
+      'Ruffの初期設定と同じく、E4・E7・E9（pycodestyleのエラー）とF（Pyflakes）のみを有効にします。',
+    select: ['E4', 'E7', 'E9', 'F'],
+    ignore: [],
+    unselectedReason: 'Ruffのデフォルト（E4, E7, E9, F）に含まれない',
+  },
+  {
+    id: 'all-formatter-safe',
+    name: 'ALL（フォーマッタと競合するルールを除く）',
+    description:
+      '全てのルールを有効にし、ruff formatと競合するルールと、同時に有効にできないdocstringのルールを無効にします。',
+    select: ['ALL'],
+    ignore: [...FORMATTER_CONFLICTS, ...DOCSTRING_CONFLICTS],
+  },
+  {
+    id: 'strict-library',
+    name: '厳格なライブラリ',
+    description:
+      '公開APIのdocstringや型注釈も含めてほぼ全てのルールを有効にします。著作権表記のチェックのみ無効にします。',
+    select: ['ALL'],
+    ignore: [
+      ...FORMATTER_CONFLICTS,
+      ...DOCSTRING_CONFLICTS,
+      { selector: 'CPY', reason: '著作権はLICENSEファイルで管理する' },
+    ],
+  },
+  {
+    id: 'pragmatic-application',
+    name: '実用的なアプリケーション',
+    description:
+      '全てのルールを有効にしたうえで、アプリケーションの開発で負担の大きいルール（docstringの必須化、TODOの形式、例外メッセージの書き方など）を無効にします。',
+    select: ['ALL'],
+    ignore: [
+      ...FORMATTER_CONFLICTS,
+      ...DOCSTRING_CONFLICTS,
+      { selector: 'CPY', reason: '著作権はLICENSEファイルで管理する' },
+      { selector: 'D1', reason: 'docstringは必要な箇所にのみ書く' },
+      { selector: 'TD002', reason: 'TODOに担当者を必須にしない' },
+      { selector: 'TD003', reason: 'TODOにissueへのリンクを必須にしない' },
+      { selector: 'FIX002', reason: 'TODOコメントを許可する' },
+      { selector: 'EM101', reason: '例外メッセージに文字列リテラルを許可する' },
+      { selector: 'EM102', reason: '例外メッセージにf-stringを許可する' },
+      {
+        selector: 'TRY003',
+        reason: '例外クラスの外でのメッセージ指定を許可する',
+      },
+      { selector: 'PLR2004', reason: '比較に使う定数を許可する' },
+    ],
+  },
+  {
+    id: 'google-docstrings',
+    name: 'docstring（Googleスタイル）',
+    description:
+      'pydocstyle（D）のルールのみを変更し、Googleスタイルのdocstring（convention = "google"）に合わせて有効にします。他のルールは変更しません。',
+    scope: ['D'],
+    select: ['D'],
+    ignore: GOOGLE_CONVENTION,
+  },
+]
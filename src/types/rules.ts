@@ -1,13 +1,22 @@
-export interface RuffRule {
+// 自動修正の可否（"Fix is always available." / "Fix is sometimes available."）
+export type FixAvailability = 'always' | 'sometimes' | 'none'
+
+// 設定の読み書きに使うルールの情報（アイランドにはこれだけを渡す）
+export interface RuleInfo {
   code: string // "D203"
   name: string // "one-blank-line-before-class"
-  summary: string // ルールの説明
   category: string // "pydocstyle (D)"
   categoryCode: string // "D"
   status: 'stable' | 'preview' | 'deprecated' | 'removed'
+  fixAvailability?: FixAvailability // 自動修正の可否
+}
+
+export interface RuffRule extends RuleInfo {
+  summary: string // ルールの説明
   documentUrl: string // 詳細ドキュメントのURL
   whyBad?: string // "Why is this bad?"セクションの内容
   example?: string // "Example"セクションの内容
+  options?: string[] // "Options"セクションの設定キー（"lint.mccabe.max-complexity"）
 }
 
 export interface RuffVersion {
@@ -24,5 +33,39 @@ export interface RuleSettings {
   [ruleCode: string]: {
     enabled: boolean
     comment?: string
+    unfixable?: boolean // 自動修正しない（lint.unfixable）
   }
 }
+
+// 設定キー → TOMLの値（"10", "true", '["a", "b"]' など）
+export interface RuleOptions {
+  [optionKey: string]: string
+}
+
+// ファイルパターン（グロブ） → 除外するルールコード（プレフィックス可）
+export interface PerFileIgnores {
+  [pattern: string]: string[]
+}
+
+export interface ImportResult {
+  settings: RuleSettings // 適用予定の設定
+  unknownCodes: string[] // Ruffのルールに対応しないコード
+  perFileIgnores?: PerFileIgnores // ファイルパターンごとの除外ルール
+}
+
+// プリセットで無効にするルール（コード / カテゴリコード / プレフィックス）と理由
+export interface PresetIgnore {
+  selector: string
+  reason: string
+}
+
+// 組み込みのプリセット（Ruffのselect / ignoreと同じ考え方で定義する）
+export interface Preset {
+  id: string
+  name: string
+  description: string
+  scope?: string[] // 変更するルールのセレクタ（省略時は全てのルール）
+  select: string[] // 有効にするルールのセレクタ
+  ignore: PresetIgnore[] // selectのうち無効にするルール
+  unselectedReason?: string // selectに含まれないルールの理由
+}
@@ -0,0 +1,259 @@
+import type {
+  PerFileIgnores,
+  RuleInfo,
+  RuleOptions,
+  RuleSettings,
+} from '../types/rules'
+import {
+  historyStore,
+  type HistoryEntry,
+  type NewHistoryEntry,
+} from './history'
+import { perFileIgnoresStore } from './perFileIgnores'
+import { ruleOptionsStore } from './ruleOptions'
+import { ruleSettingsStore } from './ruleSettings'
+import { diffSettings, type SettingsChange } from './settingsDiff'
+
+const BACKUP_FORMAT = 'ruffmate-backup'
+export const BACKUP_VERSION = 1
+
+// 設定のバックアップ（TOMLでは失われる有効なルールのコメントなども含む）
+export interface SettingsBackup {
+  format: typeof BACKUP_FORMAT
+  version: number
+  createdAt: string // ISO 8601形式
+  ruffVersion: string // バックアップ時のRuffのバージョン（RulesData.version）
+  settings: RuleSettings // 保存されている全てのルールの設定
+  perFileIgnores: PerFileIgnores
+  ruleOptions: RuleOptions
+}
+
+// merge: バックアップにある設定だけを上書き, replace: 現在の設定を全て置き換える
+export type RestoreMode = 'merge' | 'replace'
+
+// 復元後の設定
+export interface RestorePlan {
+  settings: RuleSettings // バックアップから書き込むルールの設定
+  resetCodes: string[] // デフォルト値（有効）に戻すルール（replaceのみ）
+  perFileIgnores: PerFileIgnores
+  ruleOptions: RuleOptions
+}
+
+/**
+ * 選択中のプロファイルの設定のバックアップを作成
+ */
+export function createBackup(ruffVersion: string): SettingsBackup {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    ruffVersion,
+    settings: ruleSettingsStore.getAll(),
+    perFileIgnores: perFileIgnoresStore.getAll(),
+    ruleOptions: ruleOptionsStore.getAll(),
+  }
+}
+
+/**
+ * バックアップのファイル名（"ruffmate-backup-2025-01-31.json"）
+ */
+export function getBackupFileName(backup: SettingsBackup): string {
+  return `${BACKUP_FORMAT}-${backup.createdAt.slice(0, 10)}.json`
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function validateSettings(value: unknown): RuleSettings {
+  if (!isRecord(value)) throw new Error('Invalid backup: settings')
+
+  const settings: RuleSettings = {}
+  for (const [ruleCode, data] of Object.entries(value)) {
+    if (
+      !isRecord(data) ||
+      typeof data.enabled !== 'boolean' ||
+      (data.comment !== undefined && typeof data.comment !== 'string') ||
+      (data.unfixable !== undefined && typeof data.unfixable !== 'boolean')
+    ) {
+      throw new Error(`Invalid backup: settings.${ruleCode}`)
+    }
+    settings[ruleCode] = {
+      enabled: data.enabled,
+      ...(data.comment && { comment: data.comment }),
+      ...(data.unfixable && { unfixable: true }),
+    }
+  }
+  return settings
+}
+
+function validatePerFileIgnores(value: unknown): PerFileIgnores {
+  if (value === undefined) return {}
+  if (
+    !isRecord(value) ||
+    !Object.values(value).every(
+      (codes) =>
+        Array.isArray(codes) && codes.every((code) => typeof code === 'string')
+    )
+  ) {
+    throw new Error('Invalid backup: perFileIgnores')
+  }
+  return value as PerFileIgnores
+}
+
+function validateRuleOptions(value: unknown): RuleOptions {
+  if (value === undefined) return {}
+  if (
+    !isRecord(value) ||
+    !Object.values(value).every((option) => typeof option === 'string')
+  ) {
+    throw new Error('Invalid backup: ruleOptions')
+  }
+  return value as RuleOptions
+}
+
+/**
+ * バックアップのJSONを読み込み、形式を検証する
+ *
+ * per-file-ignoresと設定値は省略できる（空として扱う）。
+ */
+export function parseBackup(text: string): SettingsBackup {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('Invalid JSON')
+  }
+
+  if (!isRecord(data) || data.format !== BACKUP_FORMAT) {
+    throw new Error('Not a RuffMate backup file')
+  }
+  if (
+    typeof data.version !== 'number' ||
+    !Number.isInteger(data.version) ||
+    data.version < 1 ||
+    data.version > BACKUP_VERSION
+  ) {
+    throw new Error(`Unsupported backup version: ${data.version}`)
+  }
+  if (typeof data.createdAt !== 'string') {
+    throw new Error('Invalid backup: createdAt')
+  }
+  if (typeof data.ruffVersion !== 'string') {
+    throw new Error('Invalid backup: ruffVersion')
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: data.version,
+    createdAt: data.createdAt,
+    ruffVersion: data.ruffVersion,
+    settings: validateSettings(data.settings),
+    perFileIgnores: validatePerFileIgnores(data.perFileIgnores),
+    ruleOptions: validateRuleOptions(data.ruleOptions),
+  }
+}
+
+/**
+ * 復元後の設定を求める
+ *
+ * mergeでは現在の設定にバックアップの設定を上書きし、per-file-ignoresは
+ * 既存のパターンにルールを追加する。replaceではバックアップにないルールを
+ * デフォルト値（有効）に戻し、per-file-ignoresと設定値も置き換える。
+ */
+export function planRestore(
+  backup: SettingsBackup,
+  mode: RestoreMode
+): RestorePlan {
+  if (mode === 'replace') {
+    return {
+      settings: backup.settings,
+      resetCodes: ruleSettingsStore
+        .getStoredCodes()
+        .filter((ruleCode) => !(ruleCode in backup.settings)),
+      perFileIgnores: backup.perFileIgnores,
+      ruleOptions: backup.ruleOptions,
+    }
+  }
+
+  const perFileIgnores = { ...perFileIgnoresStore.getAll() }
+  for (const [pattern, codes] of Object.entries(backup.perFileIgnores)) {
+    perFileIgnores[pattern] = [
+      ...new Set([...(perFileIgnores[pattern] ?? []), ...codes]),
+    ].sort()
+  }
+
+  return {
+    settings: backup.settings,
+    resetCodes: [],
+    perFileIgnores,
+    ruleOptions: { ...ruleOptionsStore.getAll(), ...backup.ruleOptions },
+  }
+}
+
+/**
+ * 復元で変更されるルールの一覧（プレビュー用）
+ */
+export function diffRestore(
+  rules: RuleInfo[],
+  plan: RestorePlan
+): SettingsChange[] {
+  // unfixableを省略した設定も「自動修正する」に戻す変更として比較する
+  const proposed: RuleSettings = {}
+  for (const ruleCode of plan.resetCodes) {
+    proposed[ruleCode] = { enabled: true, unfixable: false }
+  }
+  for (const [ruleCode, data] of Object.entries(plan.settings)) {
+    proposed[ruleCode] = { ...data, unfixable: !!data.unfixable }
+  }
+  return diffSettings(rules, proposed)
+}
+
+/**
+ * バックアップにあるが、現在のルールの一覧にないルールコード
+ */
+export function getUnknownBackupCodes(
+  backup: SettingsBackup,
+  rules: RuleInfo[]
+): string[] {
+  const knownCodes = new Set(rules.map((rule) => rule.code))
+  return Object.keys(backup.settings)
+    .filter((code) => !knownCodes.has(code))
+    .sort()
+}
+
+/**
+ * 復元後の設定を各ストアに書き込み、元に戻せるように履歴に記録する
+ *
+ * 有効のまま残すと判断したルール（{ enabled: true }）もそのまま保存する。
+ */
+export function restoreBackup(plan: RestorePlan): HistoryEntry | null {
+  const resetSettings: RuleSettings = Object.fromEntries(
+    plan.resetCodes.map((ruleCode) => [ruleCode, { enabled: true }])
+  )
+  const entry: NewHistoryEntry = {
+    action: 'restore',
+    changes: Object.entries({ ...resetSettings, ...plan.settings }).map(
+      ([ruleCode, after]) => ({
+        ruleCode,
+        before: ruleSettingsStore.getSyncWithStorage(ruleCode),
+        after,
+      })
+    ),
+    perFileIgnores: {
+      before: perFileIgnoresStore.getAll(),
+      after: plan.perFileIgnores,
+    },
+    ruleOptions: {
+      before: ruleOptionsStore.getAll(),
+      after: plan.ruleOptions,
+    },
+  }
+
+  ruleSettingsStore.restore(resetSettings)
+  ruleSettingsStore.restore(plan.settings, true)
+  perFileIgnoresStore.replace(plan.perFileIgnores)
+  ruleOptionsStore.replace(plan.ruleOptions)
+
+  return historyStore.record(entry)
+}
@@ -0,0 +1,25 @@
+import type { RuleSettings } from '../types/rules'
+import { ruleSettingsStore } from './ruleSettings'
+
+/**
+ * ルールをまとめて有効/無効にする設定を返す
+ *
+ * 共通のコメントを指定しない場合は、各ルールの現在の理由を残す。
+ */
+export function buildBulkSettings(
+  ruleCodes: string[],
+  enabled: boolean,
+  comment = ''
+): RuleSettings {
+  const sharedComment = comment.trim()
+  return Object.fromEntries(
+    ruleCodes.map((ruleCode) => {
+      const current = ruleSettingsStore.getSyncWithStorage(ruleCode)
+      const ruleComment = sharedComment || current.comment
+      return [
+        ruleCode,
+        ruleComment ? { enabled, comment: ruleComment } : { enabled },
+      ]
+    })
+  )
+}
@@ -0,0 +1,88 @@
+import type { RuleInfo } from '../types/rules'
+import { resolveSelector } from './ruleSelector'
+
+// 圧縮後のセレクタと、それがカバーするルール
+export interface CompressedSelector {
+  selector: string
+  rules: RuleInfo[]
+}
+
+// プレフィックス階層の最上位（"PL" のみPLC/PLE/PLR/PLWをまとめる）
+function rootPrefix(rule: RuleInfo): string {
+  return rule.categoryCode.startsWith('PL') ? 'PL' : rule.categoryCode
+}
+
+// 数字を含むリンターのプレフィックス（"C" / "T" は複数のリンターにまたがるため、
+// "C9" や "T1" のような途中のプレフィックスはRuffのセレクタとして使えない）
+const NUMERIC_LINTER_PREFIXES = [
+  'C4', // flake8-comprehensions
+  'C90', // mccabe
+  'T10', // flake8-debugger
+  'T20', // flake8-print
+]
+
+// ルールが属するリンターのプレフィックス（例: "D", "PLR", "C90"）
+function linterPrefix(rule: RuleInfo): string {
+  return (
+    NUMERIC_LINTER_PREFIXES.find((prefix) => rule.code.startsWith(prefix)) ??
+    rule.categoryCode
+  )
+}
+
+// 1つ下の階層のプレフィックス（例: "PL" → "PLR" → "PLR0" → "PLR09", "C" → "C90"）
+function childPrefix(rule: RuleInfo, prefix: string): string {
+  const linter = linterPrefix(rule)
+  if (prefix.length < linter.length) return linter
+  return rule.code.slice(0, prefix.length + 1)
+}
+
+function groupBy(
+  rules: RuleInfo[],
+  keyOf: (rule: RuleInfo) => string
+): Map<string, RuleInfo[]> {
+  const groups = new Map<string, RuleInfo[]>()
+  for (const rule of rules) {
+    const key = keyOf(rule)
+    groups.set(key, [...(groups.get(key) ?? []), rule])
+  }
+  return groups
+}
+
+/**
+ * 対象のルール集合を、できるだけ少ないRuffのセレクタで表現する
+ *
+ * プレフィックス階層（"D" → "D2" → "D20" → "D203"）を上から辿り、
+ * プレフィックスにマッチする全てのルールが対象に含まれる場合のみ
+ * 個別のコードをプレフィックスで置き換える。そのため、返したセレクタを
+ * allRulesに対して解決すると、必ず対象と同じルール集合になる。
+ */
+export function compressSelectors(
+  allRules: RuleInfo[],
+  targets: RuleInfo[]
+): CompressedSelector[] {
+  const targetCodes = new Set(targets.map((rule) => rule.code))
+  const result: CompressedSelector[] = []
+
+  const visit = (prefix: string, rules: RuleInfo[]) => {
+    const matched = resolveSelector(allRules, prefix)
+    if (
+      prefix === rules[0].code ||
+      matched.every((rule) => targetCodes.has(rule.code))
+    ) {
+      result.push({ selector: prefix, rules })
+      return
+    }
+
+    for (const [child, childRules] of groupBy(rules, (rule) =>
+      childPrefix(rule, prefix)
+    )) {
+      visit(child, childRules)
+    }
+  }
+
+  for (const [root, rules] of groupBy(targets, rootPrefix)) {
+    visit(root, rules)
+  }
+
+  return result.sort((a, b) => a.selector.localeCompare(b.selector))
+}
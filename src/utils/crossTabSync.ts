@@ -0,0 +1,54 @@
+import { historyStore } from './history'
+import { perFileIgnoresStore } from './perFileIgnores'
+import { ACTIVE_PROFILE_KEY, getProfileStorageKey } from './profileStorage'
+import { profileStore } from './profiles'
+import { ruleOptionsStore } from './ruleOptions'
+import { ruleSettingsStore } from './ruleSettings'
+import { getStorage } from './storageAdapters'
+
+// プロファイルの一覧のキー（profileStoreが保存する）
+const PROFILES_KEY = 'profiles'
+
+// プロファイル内のキーと、他のタブで変更された場合に読み込み直すストア
+const PROFILE_STORES: Record<string, { reload(): void }> = {
+  settings: ruleSettingsStore,
+  'per-file-ignores': perFileIgnoresStore,
+  'rule-options': ruleOptionsStore,
+  history: historyStore,
+}
+
+/**
+ * 他のタブで変更されたストレージのキーを各ストアに読み込み直させる
+ */
+export function syncFromStorage(key: string | null) {
+  // ストレージが全て削除された場合（localStorage.clear()）は全て読み込み直す
+  if (key === null) {
+    profileStore.reload()
+    profileStore.reloadActive()
+    return
+  }
+
+  if (key === ACTIVE_PROFILE_KEY) {
+    profileStore.reloadActive()
+    return
+  }
+  if (key === PROFILES_KEY) {
+    profileStore.reload()
+    return
+  }
+
+  // 選択中のプロファイルのキーのみ（他のプロファイルは切り替え時に読み込む）
+  for (const [profileKey, store] of Object.entries(PROFILE_STORES)) {
+    if (key === getProfileStorageKey(profileKey)) store.reload()
+  }
+}
+
+/**
+ * 他のタブでの変更の監視を開始し、停止する関数を返す
+ *
+ * アダプタは変更したタブ以外にのみ通知するため、
+ * 自身の変更で読み込み直すことはない。
+ */
+export function startCrossTabSync(): () => void {
+  return getStorage().subscribe(syncFromStorage)
+}
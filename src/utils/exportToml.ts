@@ -1,46 +1,107 @@
-import type { RuffRule } from '../types/rules'
+import type { RuleInfo, RuleSettings } from '../types/rules'
+import { compressSelectors } from './compressSelectors'
+import { perFileIgnoresStore } from './perFileIgnores'
+import { profileStore } from './profiles'
+import { ruleOptionsStore } from './ruleOptions'
 import { ruleSettingsStore } from './ruleSettings'
 
+// エクスポート先の設定ファイル
+export type ExportTarget = 'pyproject.toml' | 'ruff.toml' | '.ruff.toml'
+
+export const EXPORT_TARGETS: ExportTarget[] = [
+  'pyproject.toml',
+  'ruff.toml',
+  '.ruff.toml',
+]
+
+// エクスポート方式
+// - all-ignore: select = ["ALL"] + 無効なルールをignore
+// - allowlist: 有効なルールのみを明示的にselect（Ruffの更新で新ルールが有効にならない）
+export type ExportStrategy = 'all-ignore' | 'allowlist'
+
+export interface ExportOptions {
+  target?: ExportTarget
+  strategy?: ExportStrategy
+  // select / ignoreを可能な限りプレフィックス（"D", "PLR09" など）にまとめる
+  compress?: boolean
+}
+
+// select / ignore の1要素
+interface SelectorEntry {
+  selector: string
+  comment?: string
+}
+
 /**
- * 無効化されたルールのリストを取得
+ * lint設定のテーブル名を取得
+ *
+ * pyproject.tomlでは [tool.ruff] 配下、ruff.toml / .ruff.toml ではルート直下になる。
  */
-export function getDisabledRules(rules: RuffRule[]): RuffRule[] {
-  return rules.filter((rule) => {
-    const settings = ruleSettingsStore.getSyncWithStorage(rule.code)
-    return !settings.enabled
-  })
+export function getLintTableName(target: ExportTarget = 'pyproject.toml') {
+  return target === 'pyproject.toml' ? 'tool.ruff.lint' : 'lint'
 }
 
 /**
- * pyproject.toml形式のRuff設定を生成
+ * 無効化されたルールのリストを取得
+ *
+ * settingsは保存されている設定のスナップショット（省略時は選択中のプロファイル）。
+ * 保存されていないルールはデフォルト値（有効）として扱う。
  */
-export function generateToml(rules: RuffRule[]): string {
-  const disabledRules = getDisabledRules(rules)
+export function getDisabledRules(
+  rules: RuleInfo[],
+  settings: RuleSettings = ruleSettingsStore.getAll()
+): RuleInfo[] {
+  return rules.filter((rule) => settings[rule.code]?.enabled === false)
+}
 
-  if (disabledRules.length === 0) {
-    return `[tool.ruff.lint]
-select = ["ALL"]
-# All rules are enabled (no rules disabled in RuffMate)
-`
-  }
+function getComment(
+  settings: RuleSettings,
+  rule: RuleInfo
+): string | undefined {
+  return settings[rule.code]?.comment || undefined
+}
 
-  // ルールコードでソート
-  const sortedRules = [...disabledRules].sort((a, b) =>
-    a.code.localeCompare(b.code)
-  )
+// ルールコードごとの要素（コード順）
+function codeEntries(
+  settings: RuleSettings,
+  rules: RuleInfo[]
+): SelectorEntry[] {
+  return [...rules]
+    .sort((a, b) => a.code.localeCompare(b.code))
+    .map((rule) => ({
+      selector: rule.code,
+      comment: getComment(settings, rule),
+    }))
+}
 
-  // TOML生成
-  let toml = `[tool.ruff.lint]
-select = ["ALL"]
-ignore = [
+// プレフィックスで圧縮した要素
+// まとめたルールの除外理由が全て同じ場合のみ、その理由をコメントにする
+function compressedEntries(
+  settings: RuleSettings,
+  allRules: RuleInfo[],
+  rules: RuleInfo[]
+): SelectorEntry[] {
+  return compressSelectors(allRules, rules).map(({ selector, rules }) => {
+    const comments = new Set(rules.map((rule) => getComment(settings, rule)))
+    return {
+      selector,
+      comment: comments.size === 1 ? [...comments][0] : undefined,
+    }
+  })
+}
+
+// TOMLの配列を生成（1行1要素、除外理由は行末コメント）
+function formatArray(key: string, entries: SelectorEntry[]): string {
+  if (entries.length === 0) return `${key} = []\n`
+
+  let toml = `${key} = [
 `
 
   // 各ルールを追加
-  sortedRules.forEach((rule, index) => {
-    const isLast = index === sortedRules.length - 1
-    const settings = ruleSettingsStore.getSyncWithStorage(rule.code)
-    const comment = settings.comment ? `  # ${settings.comment}` : ''
-    toml += `    "${rule.code}",${comment}${isLast ? '' : '\n'}`
+  entries.forEach((entry, index) => {
+    const isLast = index === entries.length - 1
+    const comment = entry.comment ? `  # ${entry.comment}` : ''
+    toml += `    "${entry.selector}",${comment}${isLast ? '' : '\n'}`
   })
 
   toml += `
@@ -51,55 +112,213 @@ ignore = [
 }
 
 /**
- * エクスポート用のメタデータを含むTOMLを生成
+ * 自動修正しないルール（lint.unfixable）を取得
+ *
+ * 無効なルールと削除済みのルールは対象外。
  */
-export function generateTomlWithMetadata(
-  rules: RuffRule[],
-  ruffVersion: string
-): string {
-  const timestamp = new Date().toISOString()
-  const disabledRules = getDisabledRules(rules)
+export function getUnfixableRules(
+  rules: RuleInfo[],
+  settings: RuleSettings = ruleSettingsStore.getAll()
+): RuleInfo[] {
+  return rules.filter((rule) => {
+    const setting = settings[rule.code]
+    return (
+      setting?.enabled !== false &&
+      !!setting?.unfixable &&
+      rule.status !== 'removed'
+    )
+  })
+}
 
-  const appUrl =
-    typeof window !== 'undefined'
-      ? window.location.origin + window.location.pathname
-      : 'https://zaki3mymy.github.io/RuffMate/'
+// unfixableの配列（指定したルールがない場合は空文字）
+function formatUnfixable(settings: RuleSettings, rules: RuleInfo[]): string {
+  const unfixableRules = getUnfixableRules(rules, settings)
+  if (unfixableRules.length === 0) return ''
 
-  if (disabledRules.length === 0) {
-    return `[tool.ruff.lint]
-# Generated by RuffMate at ${timestamp}
-# ${appUrl}
-# Ruff version: ${ruffVersion}
-select = ["ALL"]
-# All rules are enabled (no rules disabled in RuffMate)
+  return formatArray(
+    'unfixable',
+    codeEntries(settings, unfixableRules).map(({ selector }) => ({ selector }))
+  )
+}
+
+/**
+ * per-file-ignoresテーブルを生成（ルールが1つもない場合は空文字）
+ */
+function buildPerFileIgnoresTable(options: ExportOptions): string {
+  const entries = Object.entries(perFileIgnoresStore.getAll()).filter(
+    ([, codes]) => codes.length > 0
+  )
+  if (entries.length === 0) return ''
+
+  const lines = entries.map(
+    ([pattern, codes]) =>
+      `${JSON.stringify(pattern)} = [${codes.map((code) => `"${code}"`).join(', ')}]`
+  )
+
+  return `
+[${getLintTableName(options.target)}.per-file-ignores]
+${lines.join('\n')}
 `
+}
+
+/**
+ * ルールの設定値を出力先のテーブルごとにまとめる
+ *
+ * "lint.mccabe.max-complexity" は "lint.mccabe" テーブル、
+ * "line-length" のようなトップレベルの設定は "" に分類する。
+ */
+function groupOptionsByTable(): Map<string, string[]> {
+  const tables = new Map<string, string[]>()
+  for (const [key, value] of Object.entries(ruleOptionsStore.getAll()).sort(
+    ([a], [b]) => a.localeCompare(b)
+  )) {
+    const separator = key.lastIndexOf('.')
+    const table = separator === -1 ? '' : key.slice(0, separator)
+    const line = `${key.slice(separator + 1)} = ${value}`
+    tables.set(table, [...(tables.get(table) ?? []), line])
   }
+  return tables
+}
 
-  // ルールコードでソート
-  const sortedRules = [...disabledRules].sort((a, b) =>
-    a.code.localeCompare(b.code)
-  )
+/**
+ * ruff.tomlのルート、またはpyproject.tomlの [tool.ruff] 直下に置く設定値
+ */
+function buildRootOptions(
+  tables: Map<string, string[]>,
+  options: ExportOptions
+): string {
+  const lines = tables.get('')
+  if (!lines) return ''
+
+  const isPyproject = (options.target ?? 'pyproject.toml') === 'pyproject.toml'
+  return `${isPyproject ? '[tool.ruff]\n' : ''}${lines.join('\n')}
 
-  // TOML生成
-  let toml = `[tool.ruff.lint]
-# Generated by RuffMate at ${timestamp}
-# ${appUrl}
-# Ruff version: ${ruffVersion}
-select = ["ALL"]
-ignore = [
 `
+}
 
-  // 各ルールを追加
-  sortedRules.forEach((rule, index) => {
-    const isLast = index === sortedRules.length - 1
-    const settings = ruleSettingsStore.getSyncWithStorage(rule.code)
-    const comment = settings.comment ? `  # ${settings.comment}` : ''
-    toml += `    "${rule.code}",${comment}${isLast ? '' : '\n'}`
-  })
+/**
+ * プラグインごとの設定テーブルを生成（[tool.ruff.lint.mccabe] など）
+ */
+function buildPluginOptionTables(
+  tables: Map<string, string[]>,
+  options: ExportOptions
+): string {
+  const lintTable = getLintTableName(options.target)
+  const rootTable = lintTable.replace(/\.?lint$/, '')
 
-  toml += `
-]
+  return [...tables]
+    .filter(([table]) => table !== '' && table !== 'lint')
+    .map(
+      ([table, lines]) => `
+[${rootTable ? `${rootTable}.${table}` : table}]
+${lines.join('\n')}
 `
+    )
+    .join('')
+}
 
-  return toml
+/**
+ * 設定値を含む全体のTOMLを生成
+ *
+ * "lint.task-tags" のようなlintテーブル直下の設定は、lintテーブルの末尾に続けて出力する。
+ */
+function buildToml(
+  rules: RuleInfo[],
+  options: ExportOptions,
+  headerLines: string[] = []
+): string {
+  const tables = groupOptionsByTable()
+  const lintOptions = tables.get('lint')
+
+  return (
+    buildRootOptions(tables, options) +
+    buildLintTable(rules, options, headerLines) +
+    (lintOptions ? `${lintOptions.join('\n')}\n` : '') +
+    buildPerFileIgnoresTable(options) +
+    buildPluginOptionTables(tables, options)
+  )
+}
+
+/**
+ * lintテーブルを生成（headerLinesはテーブル名の直後に出力）
+ */
+function buildLintTable(
+  rules: RuleInfo[],
+  options: ExportOptions,
+  headerLines: string[] = []
+): string {
+  // 全てのルールの設定を1度だけ読み込む
+  const settings = ruleSettingsStore.getAll()
+  const disabledRules = getDisabledRules(rules, settings)
+  const header = [`[${getLintTableName(options.target)}]`, ...headerLines]
+    .map((line) => `${line}\n`)
+    .join('')
+
+  if (options.strategy === 'allowlist') {
+    // 削除済みのルールは明示的にselectするとRuffがエラーになるため含めない
+    const disabled = new Set(disabledRules)
+    const selectable = rules.filter((rule) => rule.status !== 'removed')
+    const enabledRules = selectable.filter((rule) => !disabled.has(rule))
+    const entries = options.compress
+      ? compressedEntries(settings, selectable, enabledRules)
+      : codeEntries(settings, enabledRules)
+
+    // 除外理由が失われないよう、無効なルールの理由はコメントとして残す
+    const reasons = codeEntries(settings, disabledRules).filter(
+      (entry) => entry.comment
+    )
+    const notSelected = reasons.length
+      ? `# Not selected in RuffMate:
+${reasons.map((entry) => `#     "${entry.selector}",  # ${entry.comment}`).join('\n')}
+`
+      : ''
+
+    return `${header}${formatArray('select', entries)}${formatUnfixable(settings, rules)}${notSelected}`
+  }
+
+  if (disabledRules.length === 0) {
+    return `${header}select = ["ALL"]
+# All rules are enabled (no rules disabled in RuffMate)
+${formatUnfixable(settings, rules)}`
+  }
+
+  const entries = options.compress
+    ? compressedEntries(settings, rules, disabledRules)
+    : codeEntries(settings, disabledRules)
+
+  return `${header}select = ["ALL"]
+${formatArray('ignore', entries)}${formatUnfixable(settings, rules)}`
+}
+
+/**
+ * Ruff設定を生成（デフォルトはpyproject.toml形式）
+ */
+export function generateToml(
+  rules: RuleInfo[],
+  options: ExportOptions = {}
+): string {
+  return buildToml(rules, options)
+}
+
+/**
+ * エクスポート用のメタデータを含むTOMLを生成
+ */
+export function generateTomlWithMetadata(
+  rules: RuleInfo[],
+  ruffVersion: string,
+  options: ExportOptions = {}
+): string {
+  const timestamp = new Date().toISOString()
+
+  const appUrl =
+    typeof window !== 'undefined'
+      ? window.location.origin + window.location.pathname
+      : 'https://zaki3mymy.github.io/RuffMate/'
+
+  return buildToml(rules, options, [
+    `# Generated by RuffMate at ${timestamp}`,
+    `# ${appUrl}`,
+    `# Ruff version: ${ruffVersion}`,
+    `# Profile: ${profileStore.getActive().name}`,
+  ])
 }
@@ -1,8 +1,18 @@
+import type { RuffRule, RuleInfo } from '../types/rules'
+import {
+  searchRule,
+  tokenize,
+  type MatchRange,
+  type SearchFields,
+  type SearchMatch,
+} from './fuzzySearch'
+
 // フィルタ条件の型定義
 export interface FilterCriteria {
   searchTerm: string
   categories: string[]
   statuses: string[]
+  fixes: string[] // 自動修正の可否（always / sometimes / none）
 }
 
 // フィルタ結果の型定義
@@ -11,60 +21,196 @@ export interface FilterResult {
   totalCount: number
 }
 
-// DOM要素がフィルタ条件にマッチするかチェック
-function matchesCriteria(item: HTMLElement, criteria: FilterCriteria): boolean {
-  const { searchTerm, categories, statuses } = criteria
-
-  // 検索キーワードのチェック
-  if (searchTerm) {
-    const name = item.dataset.ruleName || ''
-    const summary = item.dataset.ruleSummary || ''
-    const code = item.dataset.ruleCode || ''
-    const term = searchTerm.toLowerCase()
-
-    // code, name, summaryのいずれかに検索キーワードが含まれているか
-    if (
-      !name.includes(term) &&
-      !summary.includes(term) &&
-      !code.toLowerCase().includes(term)
-    ) {
-      return false
-    }
-  }
+// フィルタの判定に使うルールの値
+interface RuleFields extends SearchFields {
+  category: string
+  status: string
+  fix: string
+}
+
+// 検索結果を並べるコンテナ（検索中は一致したルールを関連度の順にここへ移す）
+const SEARCH_RESULTS_ID = 'search-results'
+
+// 検索前のルールの位置（検索を終えたら元のグループに戻す）
+const homes = new WeakMap<HTMLElement, { parent: Element; index: number }>()
+
+const NO_SEARCH: SearchMatch = {
+  score: 0,
+  ranges: { code: [], name: [], summary: [] },
+}
+
+// ルールの値がフィルタ条件にマッチする場合は検索の一致結果を返す
+// （検索キーワードがない場合はスコア0、マッチしない場合はnull）
+function matchFields(
+  fields: RuleFields,
+  criteria: FilterCriteria
+): SearchMatch | null {
+  const { searchTerm, categories, statuses, fixes } = criteria
 
   // カテゴリフィルタのチェック
-  if (categories.length > 0) {
-    const category = item.dataset.ruleCategory || ''
-    if (!categories.includes(category)) {
-      return false
-    }
+  if (categories.length > 0 && !categories.includes(fields.category)) {
+    return null
   }
 
   // ステータスフィルタのチェック
-  if (statuses.length > 0) {
-    const status = item.dataset.ruleStatus || ''
-    if (!statuses.includes(status)) {
-      return false
+  if (statuses.length > 0 && !statuses.includes(fields.status)) {
+    return null
+  }
+
+  // 自動修正フィルタのチェック
+  if (fixes.length > 0 && !fixes.includes(fields.fix)) {
+    return null
+  }
+
+  // 検索キーワードのチェック（code, name, summaryをタイポを許容して検索）
+  if (tokenize(searchTerm).length === 0) return NO_SEARCH
+  return searchRule(fields, searchTerm)
+}
+
+// DOM要素がフィルタ条件にマッチするかチェック
+function matchCriteria(
+  item: HTMLElement,
+  criteria: FilterCriteria
+): SearchMatch | null {
+  return matchFields(
+    {
+      code: item.dataset.ruleCode || '',
+      name: item.dataset.ruleName || '',
+      summary: item.dataset.ruleSummary || '',
+      category: item.dataset.ruleCategory || '',
+      status: item.dataset.ruleStatus || '',
+      fix: item.dataset.ruleFix || 'none',
+    },
+    criteria
+  )
+}
+
+// 検索・フィルタに使うルールの情報
+export type SearchableRule = RuleInfo & Pick<RuffRule, 'summary'>
+
+/**
+ * フィルタ条件にマッチするルールの一覧（画面に表示されているルール）
+ */
+export function getMatchingRules<T extends SearchableRule>(
+  rules: T[],
+  criteria: FilterCriteria
+): T[] {
+  return rules.filter(
+    (rule) =>
+      matchFields(
+        {
+          code: rule.code,
+          name: rule.name,
+          summary: rule.summary,
+          category: rule.categoryCode,
+          status: rule.status,
+          fix: rule.fixAvailability ?? 'none',
+        },
+        criteria
+      ) !== null
+  )
+}
+
+// 一致した範囲を<mark>で囲む（範囲がない場合は元のテキストに戻す）
+function highlight(element: Element, ranges: MatchRange[]) {
+  if (ranges.length === 0 && !element.querySelector('mark')) return
+
+  const text = element.textContent || ''
+  const nodes: Node[] = []
+  let position = 0
+  for (const { start, end } of ranges) {
+    if (start > position) {
+      nodes.push(document.createTextNode(text.slice(position, start)))
     }
+    const mark = document.createElement('mark')
+    mark.className = 'rounded-sm bg-yellow-200 text-inherit'
+    mark.textContent = text.slice(start, end)
+    nodes.push(mark)
+    position = end
+  }
+  if (position < text.length) {
+    nodes.push(document.createTextNode(text.slice(position)))
   }
+  element.replaceChildren(...nodes)
+}
+
+// ルールのコード・名前・説明の一致した箇所をハイライト
+function highlightItem(item: HTMLElement, match: SearchMatch | null) {
+  item
+    .querySelectorAll<HTMLElement>('[data-rule-highlight]')
+    .forEach((element) => {
+      const field = element.dataset.ruleHighlight as keyof SearchFields
+      highlight(element, match?.ranges[field] ?? [])
+    })
+}
+
+// 一致したルールを関連度の順に検索結果のコンテナへ移す
+function showSearchResults(
+  container: HTMLElement,
+  items: HTMLElement[],
+  matches: Map<HTMLElement, SearchMatch>
+) {
+  items.forEach((item, index) => {
+    if (!homes.has(item) && item.parentElement) {
+      homes.set(item, { parent: item.parentElement, index })
+    }
+  })
+
+  // 同じスコアのルールは元の順序で並べる
+  const ranked = [...matches.entries()].sort(
+    ([itemA, a], [itemB, b]) =>
+      b.score - a.score || homes.get(itemA)!.index - homes.get(itemB)!.index
+  )
+  container.append(...ranked.map(([item]) => item))
+  container.hidden = false
+}
+
+// 検索結果のコンテナに移したルールを元のグループに戻す
+function restoreOrder(container: HTMLElement, items: HTMLElement[]) {
+  container.hidden = true
+  if (container.children.length === 0) return
 
-  return true
+  const sorted = items
+    .filter((item) => homes.has(item))
+    .sort((a, b) => homes.get(a)!.index - homes.get(b)!.index)
+  for (const item of sorted) {
+    homes.get(item)!.parent.appendChild(item)
+  }
 }
 
 // DOM操作でルールをフィルタリング
+// 検索中は一致したルールを関連度の順に並べ、一致した箇所をハイライトする
 export function filterRules(criteria: FilterCriteria): void {
-  const items = document.querySelectorAll<HTMLElement>('.rule-item')
-  let visibleCount = 0
+  const items = Array.from(document.querySelectorAll<HTMLElement>('.rule-item'))
+  const matches = new Map<HTMLElement, SearchMatch>()
 
   items.forEach((item) => {
-    const matches = matchesCriteria(item, criteria)
-    item.style.display = matches ? '' : 'none'
-    if (matches) visibleCount++
+    const match = matchCriteria(item, criteria)
+    item.style.display = match ? '' : 'none'
+    highlightItem(item, match)
+    if (match) matches.set(item, match)
+  })
+
+  const container = document.getElementById(SEARCH_RESULTS_ID)
+  if (container) {
+    if (tokenize(criteria.searchTerm).length > 0) {
+      showSearchResults(container, items, matches)
+    } else {
+      restoreOrder(container, items)
+    }
+  }
+
+  // 表示するルールが無いカテゴリのグループは見出しごと隠す
+  document.querySelectorAll<HTMLElement>('.rule-group').forEach((group) => {
+    const hasVisible = Array.from(
+      group.querySelectorAll<HTMLElement>('.rule-item')
+    ).some((item) => item.style.display !== 'none')
+    group.style.display = hasVisible ? '' : 'none'
   })
 
   // カスタムイベントで結果を通知
   const result: FilterResult = {
-    visibleCount,
+    visibleCount: matches.size,
     totalCount: items.length,
   }
 
@@ -5,6 +5,7 @@ class FilterState {
   private searchTerm = ''
   private categories: string[] = []
   private statuses: string[] = []
+  private fixes: string[] = []
 
   // 検索キーワードを更新
   setSearchTerm(term: string): void {
@@ -24,12 +25,19 @@ class FilterState {
     this.applyFilter()
   }
 
+  // 自動修正フィルタを更新
+  setFixes(fixes: string[]): void {
+    this.fixes = fixes
+    this.applyFilter()
+  }
+
   // 現在のフィルタ条件を取得
   getCriteria(): FilterCriteria {
     return {
       searchTerm: this.searchTerm,
       categories: this.categories,
       statuses: this.statuses,
+      fixes: this.fixes,
     }
   }
 
@@ -38,13 +46,15 @@ class FilterState {
     this.searchTerm = ''
     this.categories = []
     this.statuses = []
+    this.fixes = []
     this.applyFilter()
   }
 
-  // カテゴリとステータスのみクリア（検索キーワードは保持）
+  // カテゴリ・ステータス・自動修正のみクリア（検索キーワードは保持）
   clearCategoriesAndStatuses(): void {
     this.categories = []
     this.statuses = []
+    this.fixes = []
     this.applyFilter()
   }
 
@@ -0,0 +1,223 @@
+// ルールの検索（タイポを許容し、関連度で順位付けする）
+//
+// 検索キーワードを空白で区切った各語が、コード・名前・説明のどこかに
+// 含まれる（またはタイポの範囲で近い単語がある）ルールを一致とする。
+// 順位はコードの完全一致 > コードの部分一致 > 名前 > 説明 の順で、
+// 同じ順位ではタイポの少ないものを上位にする。
+
+// 検索対象の値
+export interface SearchFields {
+  code: string
+  name: string
+  summary: string
+}
+
+// 一致した範囲（endは含まない）
+export interface MatchRange {
+  start: number
+  end: number
+}
+
+export interface SearchMatch {
+  score: number // 大きいほど上位
+  ranges: Record<keyof SearchFields, MatchRange[]>
+}
+
+// 一致した場所ごとの基本スコア
+const SCORE_CODE_EXACT = 1000
+const SCORE_CODE_PREFIX = 900
+const SCORE_CODE_PARTIAL = 800
+const SCORE_NAME = 600
+const SCORE_SUMMARY = 400
+// 語ごとに別の項目に一致した場合
+const SCORE_MIXED = 200
+// タイポ1文字ごとの減点
+const TYPO_PENALTY = 10
+
+// 小文字にし、名前の区切り（"unused-import" / "snake_case"）を空白として扱う
+// （文字数を変えないため、一致した範囲はそのまま元の文字列に使える）
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[-_]/g, ' ')
+}
+
+/**
+ * 検索キーワードを語に分ける（空の場合は空配列）
+ */
+export function tokenize(searchTerm: string): string[] {
+  return normalize(searchTerm).split(/\s+/).filter(Boolean)
+}
+
+// 語の長さに応じて許容するタイポの数（短い語は誤検出が多いため許容しない）
+function maxTypos(token: string): number {
+  if (token.length < 5) return 0
+  if (token.length < 9) return 1
+  return 2
+}
+
+/**
+ * 2つの文字列の編集距離（隣り合う文字の入れ替えも1回として数える）
+ *
+ * limitを超えることが確定した時点でlimit + 1を返す。
+ */
+export function editDistance(a: string, b: string, limit = Infinity): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1
+
+  let prevPrev: number[] = []
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1)
+      }
+      current[j] = value
+      rowMin = Math.min(rowMin, value)
+    }
+    if (rowMin > limit) return limit + 1
+    prevPrev = prev
+    prev = current
+  }
+  return prev[b.length]
+}
+
+// 語が一致した範囲とタイポの数
+interface TokenMatch {
+  range: MatchRange
+  typos: number
+}
+
+// 語を値の中から探す（部分一致を優先し、無ければタイポを許容して単語と比べる）
+function matchToken(text: string, token: string): TokenMatch | null {
+  const index = text.indexOf(token)
+  if (index !== -1) {
+    return { range: { start: index, end: index + token.length }, typos: 0 }
+  }
+
+  const limit = maxTypos(token)
+  if (limit === 0) return null
+
+  let best: TokenMatch | null = null
+  for (const word of text.matchAll(/\S+/g)) {
+    const start = word.index
+    // 単語全体、または単語の先頭（"improt" → "imported"）と比べる
+    const typos = Math.min(
+      editDistance(token, word[0], limit),
+      editDistance(token, word[0].slice(0, token.length), limit)
+    )
+    if (typos <= limit && (!best || typos < best.typos)) {
+      best = { range: { start, end: start + word[0].length }, typos }
+    }
+  }
+  return best
+}
+
+// 全ての語が値に一致する場合はその範囲とタイポの合計
+function matchAll(
+  text: string,
+  tokens: string[]
+): { ranges: MatchRange[]; typos: number } | null {
+  const ranges: MatchRange[] = []
+  let typos = 0
+  for (const token of tokens) {
+    const match = matchToken(text, token)
+    if (!match) return null
+    ranges.push(match.range)
+    typos += match.typos
+  }
+  return { ranges: mergeRanges(ranges), typos }
+}
+
+/**
+ * 重なる・隣接する範囲をまとめ、開始位置の順に並べる
+ */
+export function mergeRanges(ranges: MatchRange[]): MatchRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start)
+  const merged: MatchRange[] = []
+  for (const range of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end)
+    } else {
+      merged.push({ ...range })
+    }
+  }
+  return merged
+}
+
+/**
+ * ルールが検索キーワードに一致するか判定し、スコアと一致した範囲を返す
+ *
+ * 一致しない場合はnullを返す。
+ */
+export function searchRule(
+  fields: SearchFields,
+  searchTerm: string
+): SearchMatch | null {
+  const tokens = tokenize(searchTerm)
+  const code = fields.code.toLowerCase()
+  const name = normalize(fields.name)
+  const summary = normalize(fields.summary)
+  const empty = { code: [], name: [], summary: [] }
+
+  // コードは空白を含まないため、キーワード全体で比べる
+  const term = tokens.join('')
+  if (term && code.startsWith(term)) {
+    return {
+      score: code === term ? SCORE_CODE_EXACT : SCORE_CODE_PREFIX,
+      ranges: { ...empty, code: [{ start: 0, end: term.length }] },
+    }
+  }
+  if (term && code.includes(term)) {
+    const start = code.indexOf(term)
+    return {
+      score: SCORE_CODE_PARTIAL,
+      ranges: { ...empty, code: [{ start, end: start + term.length }] },
+    }
+  }
+
+  if (tokens.length === 0) return null
+
+  const nameMatch = matchAll(name, tokens)
+  if (nameMatch) {
+    return {
+      score: SCORE_NAME - nameMatch.typos * TYPO_PENALTY,
+      ranges: { ...empty, name: nameMatch.ranges },
+    }
+  }
+
+  const summaryMatch = matchAll(summary, tokens)
+  if (summaryMatch) {
+    return {
+      score: SCORE_SUMMARY - summaryMatch.typos * TYPO_PENALTY,
+      ranges: { ...empty, summary: summaryMatch.ranges },
+    }
+  }
+
+  // 語ごとにコード・名前・説明のいずれかに一致すればよい（"F401 unused"）
+  const ranges: SearchMatch['ranges'] = { code: [], name: [], summary: [] }
+  let typos = 0
+  for (const token of tokens) {
+    const start = code.indexOf(token)
+    if (start !== -1) {
+      ranges.code.push({ start, end: start + token.length })
+      continue
+    }
+
+    const nameTokenMatch = matchToken(name, token)
+    const found = nameTokenMatch ?? matchToken(summary, token)
+    if (!found) return null
+    ranges[nameTokenMatch ? 'name' : 'summary'].push(found.range)
+    typos += found.typos
+  }
+  return {
+    score: SCORE_MIXED - typos * TYPO_PENALTY,
+    ranges: {
+      code: mergeRanges(ranges.code),
+      name: mergeRanges(ranges.name),
+      summary: mergeRanges(ranges.summary),
+    },
+  }
+}
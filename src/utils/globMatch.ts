@@ -0,0 +1,103 @@
+import type { PerFileIgnores } from '../types/rules'
+
+/**
+ * グロブパターンを正規表現に変換
+ *
+ * "**" は任意の階層、"*" と "?" はパス区切りを含まない任意の文字列/1文字、
+ * "[...]" は文字クラス、"{a,b}" は選択にマッチする。
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = ''
+  let inGroup = false
+
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i]
+
+    if (c === '*') {
+      if (pattern[i + 1] === '*') {
+        // "**/" は0個以上のディレクトリ
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?'
+          i += 2
+        } else {
+          source += '.*'
+          i += 1
+        }
+      } else {
+        source += '[^/]*'
+      }
+    } else if (c === '?') {
+      source += '[^/]'
+    } else if (c === '[') {
+      const end = pattern.indexOf(']', i + 1)
+      if (end === -1) {
+        source += '\\['
+      } else {
+        source += `[${pattern.slice(i + 1, end).replace(/^!/, '^')}]`
+        i = end
+      }
+    } else if (c === '{') {
+      inGroup = true
+      source += '(?:'
+    } else if (c === '}' && inGroup) {
+      inGroup = false
+      source += ')'
+    } else if (c === ',' && inGroup) {
+      source += '|'
+    } else {
+      source += c.replace(/[.+^$()|\\]/g, '\\$&')
+    }
+  }
+
+  return new RegExp(`^${source}$`)
+}
+
+function normalizePath(path: string): string {
+  return path.trim().replace(/\\/g, '/').replace(/^\.\//, '')
+}
+
+/**
+ * ファイルパスがper-file-ignoresのパターンにマッチするか判定
+ *
+ * Ruffと同様にパス全体とファイル名の両方で照合し、
+ * "!" で始まるパターンはマッチしないファイルに適用する。
+ */
+export function matchesGlob(pattern: string, filePath: string): boolean {
+  const negated = pattern.startsWith('!')
+  const regex = globToRegExp(
+    normalizePath(negated ? pattern.slice(1) : pattern)
+  )
+  const path = normalizePath(filePath)
+  const basename = path.split('/').pop() ?? path
+
+  const matched = regex.test(path) || regex.test(basename)
+  return negated ? !matched : matched
+}
+
+// 1ファイル分のグロブテスト結果
+export interface GlobTestResult {
+  filePath: string
+  patterns: string[]
+  ruleCodes: string[]
+}
+
+/**
+ * ファイルごとにマッチするパターンと除外されるルールを求める
+ */
+export function testPerFileIgnores(
+  perFileIgnores: PerFileIgnores,
+  filePaths: string[]
+): GlobTestResult[] {
+  return filePaths
+    .map(normalizePath)
+    .filter(Boolean)
+    .map((filePath) => {
+      const patterns = Object.keys(perFileIgnores).filter((pattern) =>
+        matchesGlob(pattern, filePath)
+      )
+      const ruleCodes = [
+        ...new Set(patterns.flatMap((pattern) => perFileIgnores[pattern])),
+      ].sort()
+      return { filePath, patterns, ruleCodes }
+    })
+}
@@ -0,0 +1,288 @@
+import type { PerFileIgnores, RuleOptions } from '../types/rules'
+import { getProfileStorageKey } from './profileStorage'
+import type { RuleSettingData } from './ruleSettings'
+import { getStorage } from './storageAdapters'
+import { reportStorageError } from './storageErrors'
+
+const STORAGE_KEY = 'history'
+
+// 保存する履歴の上限（超えた分は古いものから削除）
+const MAX_ENTRIES = 100
+
+// コメントの入力を1件の履歴にまとめる間隔（ミリ秒）
+const COALESCE_INTERVAL = 10_000
+
+export interface RuleSettingChange {
+  ruleCode: string
+  before: RuleSettingData
+  after: RuleSettingData
+}
+
+export interface ValueChange<T> {
+  before: T
+  after: T
+}
+
+// change: 個別・一括の変更, reset: リセット, revert: 履歴からの取り消し,
+// restore: バックアップからの復元
+export type HistoryAction = 'change' | 'reset' | 'revert' | 'restore'
+
+export interface HistoryEntry {
+  id: string
+  action: HistoryAction
+  timestamp: number
+  changes: RuleSettingChange[]
+  // リセットと復元はper-file-ignoresと設定値も変更する
+  perFileIgnores?: ValueChange<PerFileIgnores>
+  ruleOptions?: ValueChange<RuleOptions>
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, 'id' | 'timestamp'>
+
+interface HistoryData {
+  entries: HistoryEntry[] // 古い順
+  redo: HistoryEntry[] // 直前に元に戻したものが末尾
+}
+
+/**
+ * 2つの設定が同じか（commentの空文字とunfixable: falseは省略と同じ扱い）
+ */
+export function isSameSetting(a: RuleSettingData, b: RuleSettingData) {
+  return (
+    a.enabled === b.enabled &&
+    (a.comment || '') === (b.comment || '') &&
+    !!a.unfixable === !!b.unfixable
+  )
+}
+
+function isSameValue<T>(change: ValueChange<T>) {
+  return JSON.stringify(change.before) === JSON.stringify(change.after)
+}
+
+// コメントのみを変更したか
+function isCommentOnly(change: RuleSettingChange) {
+  return isSameSetting(change.before, {
+    ...change.after,
+    comment: change.before.comment,
+  })
+}
+
+// 変更のないルール・値を除く（何も変わらない場合はnull）
+function pruneEntry(entry: NewHistoryEntry): NewHistoryEntry | null {
+  const changes = entry.changes.filter(
+    (change) => !isSameSetting(change.before, change.after)
+  )
+  const perFileIgnores =
+    entry.perFileIgnores && !isSameValue(entry.perFileIgnores)
+      ? entry.perFileIgnores
+      : undefined
+  const ruleOptions =
+    entry.ruleOptions && !isSameValue(entry.ruleOptions)
+      ? entry.ruleOptions
+      : undefined
+
+  if (changes.length === 0 && !perFileIgnores && !ruleOptions) return null
+  return {
+    action: entry.action,
+    changes,
+    ...(perFileIgnores && { perFileIgnores }),
+    ...(ruleOptions && { ruleOptions }),
+  }
+}
+
+/**
+ * 履歴の内容を表す文（"E501 を無効化"）
+ */
+export function describeEntry(entry: HistoryEntry): string {
+  if (entry.action === 'reset') return '設定をリセット'
+  if (entry.action === 'restore') return 'バックアップから復元'
+
+  const prefix = entry.action === 'revert' ? '取り消し: ' : ''
+  const { changes } = entry
+
+  if (changes.length === 1) {
+    const { ruleCode, before, after } = changes[0]
+    if (before.enabled !== after.enabled) {
+      return `${prefix}${ruleCode} を${after.enabled ? '有効化' : '無効化'}`
+    }
+    if (!!before.unfixable !== !!after.unfixable) {
+      return `${prefix}${ruleCode} を${after.unfixable ? '自動修正しない' : '自動修正する'}`
+    }
+    return `${prefix}${ruleCode} のコメントを変更`
+  }
+
+  if (changes.length === 0) return `${prefix}per-file-ignores・設定値を変更`
+
+  const enabled = changes.map((change) => change.after.enabled)
+  if (enabled.every((value) => value === enabled[0])) {
+    return `${prefix}${changes.length} 件のルールを${enabled[0] ? '有効化' : '無効化'}`
+  }
+  return `${prefix}${changes.length} 件のルールを変更`
+}
+
+/**
+ * 変更後の全てのルールに共通するコメント（無い場合は空文字）
+ */
+export function getEntryComment(entry: HistoryEntry): string {
+  const comments = entry.changes.map((change) => change.after.comment || '')
+  return comments.every((comment) => comment === comments[0])
+    ? (comments[0] ?? '')
+    : ''
+}
+
+// ルール設定の変更履歴（プロファイルごとにストレージに保存）
+class HistoryStore {
+  private cache: HistoryData | null = null
+
+  // 記録された変更（古い順）
+  getEntries(): HistoryEntry[] {
+    return this.getData().entries
+  }
+
+  // やり直せる変更（直前に元に戻したものが末尾）
+  getRedoEntries(): HistoryEntry[] {
+    return this.getData().redo
+  }
+
+  /**
+   * 変更を記録し、やり直しの履歴を破棄する
+   *
+   * 同じルールのコメントの入力が続く場合は直前の履歴にまとめる。
+   * 何も変わらない場合は記録せずnullを返す。
+   */
+  record(newEntry: NewHistoryEntry): HistoryEntry | null {
+    const pruned = pruneEntry(newEntry)
+    if (!pruned) return null
+
+    const { entries } = this.getData()
+    const last = entries[entries.length - 1]
+    const [change] = pruned.changes
+
+    if (
+      last?.action === 'change' &&
+      pruned.action === 'change' &&
+      pruned.changes.length === 1 &&
+      !pruned.perFileIgnores &&
+      !pruned.ruleOptions &&
+      last.changes.length === 1 &&
+      last.changes[0].ruleCode === change.ruleCode &&
+      isCommentOnly(change) &&
+      Date.now() - last.timestamp < COALESCE_INTERVAL
+    ) {
+      return this.coalesce(last, change)
+    }
+
+    const entry = { ...pruned, id: this.generateId(), timestamp: Date.now() }
+    this.save({ entries: [...entries, entry].slice(-MAX_ENTRIES), redo: [] })
+    return entry
+  }
+
+  // 元に戻す変更を取り出し、やり直しの履歴に移す
+  takeUndo(): HistoryEntry | undefined {
+    const { entries, redo } = this.getData()
+    const entry = entries[entries.length - 1]
+    if (!entry) return undefined
+
+    this.save({ entries: entries.slice(0, -1), redo: [...redo, entry] })
+    return entry
+  }
+
+  // やり直す変更を取り出し、履歴に戻す
+  takeRedo(): HistoryEntry | undefined {
+    const { entries, redo } = this.getData()
+    const entry = redo[redo.length - 1]
+    if (!entry) return undefined
+
+    this.save({ entries: [...entries, entry], redo: redo.slice(0, -1) })
+    return entry
+  }
+
+  // 全ての履歴を削除
+  clear() {
+    this.cache = null
+    if (typeof window !== 'undefined') {
+      try {
+        getStorage().removeItem(getProfileStorageKey(STORAGE_KEY))
+      } catch (error) {
+        reportStorageError('変更履歴を削除できませんでした', error)
+      }
+      this.notify()
+    }
+  }
+
+  // プロファイルの切り替え後に読み込み直す
+  reload() {
+    this.cache = null
+    if (typeof window !== 'undefined') this.notify()
+  }
+
+  // 直前の履歴の変更後の値を置き換える（変更前に戻った場合は履歴ごと削除）
+  private coalesce(
+    last: HistoryEntry,
+    change: RuleSettingChange
+  ): HistoryEntry | null {
+    const entries = this.getEntries().slice(0, -1)
+    const merged = pruneEntry({
+      ...last,
+      changes: [{ ...last.changes[0], after: change.after }],
+    })
+
+    if (!merged) {
+      this.save({ entries, redo: [] })
+      return null
+    }
+
+    const entry = { ...merged, id: last.id, timestamp: Date.now() }
+    this.save({ entries: [...entries, entry], redo: [] })
+    return entry
+  }
+
+  private getData(): HistoryData {
+    if (this.cache) return this.cache
+
+    let data: HistoryData = { entries: [], redo: [] }
+    if (typeof window !== 'undefined') {
+      try {
+        const stored = getStorage().getItem(getProfileStorageKey(STORAGE_KEY))
+        if (stored) data = JSON.parse(stored)
+      } catch (error) {
+        reportStorageError('変更履歴を読み込めませんでした', error)
+      }
+    }
+
+    this.cache = data
+    return data
+  }
+
+  private generateId(): string {
+    const ids = new Set(
+      [...this.getEntries(), ...this.getRedoEntries()].map((e) => e.id)
+    )
+    let id = Date.now().toString(36)
+    while (ids.has(id)) id += '0'
+    return id
+  }
+
+  private save(data: HistoryData) {
+    this.cache = data
+    if (typeof window !== 'undefined') {
+      try {
+        getStorage().setItem(
+          getProfileStorageKey(STORAGE_KEY),
+          JSON.stringify(data)
+        )
+      } catch (error) {
+        // 容量を超えても設定の変更自体は続けられるようにする
+        reportStorageError('変更履歴を保存できませんでした', error)
+      }
+      this.notify()
+    }
+  }
+
+  private notify() {
+    window.dispatchEvent(new CustomEvent('history-updated'))
+  }
+}
+
+// グローバルインスタンス
+export const historyStore = new HistoryStore()
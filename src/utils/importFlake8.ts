@@ -0,0 +1,214 @@
+import type { ImportResult, RuleInfo, RuleSettings } from '../types/rules'
+import { parseIni } from './parseIni'
+import {
+  matchesSelector,
+  normalizeSelector,
+  selectorSpecificity,
+} from './ruleSelector'
+
+// flake8本体とプラグイン由来のリンター（"Derived from the X linter" のX）
+const FLAKE8_LINTERS = [
+  'pycodestyle',
+  'Pyflakes',
+  'mccabe',
+  'pep8-naming',
+  'pydocstyle',
+  'eradicate',
+  'isort', // flake8-isort
+  'pandas-vet',
+  'pydoclint',
+]
+
+// Ruffでコードが変更されたflake8プラグインのプレフィックス
+const FLAKE8_CODE_ALIASES: Record<string, string[]> = {
+  E800: ['ERA001'], // flake8-eradicate
+  C801: ['CPY001'], // flake8-copyright
+  C81: ['COM81'], // flake8-commas
+  I25: ['TID25'], // flake8-tidy-imports
+  PL1: ['PTH1'], // flake8-use-pathlib
+  U100: ['ARG'], // flake8-unused-arguments
+}
+
+// flake8のデフォルトのignore
+export const FLAKE8_DEFAULT_IGNORE = [
+  'E121',
+  'E123',
+  'E126',
+  'E226',
+  'E24',
+  'E704',
+  'W503',
+  'W504',
+]
+
+export const FLAKE8_IMPORT_COMMENT = 'imported from flake8'
+
+// [flake8] セクションから読み取った設定
+export interface Flake8Config {
+  select?: string[]
+  extendSelect: string[]
+  ignore?: string[]
+  extendIgnore: string[]
+  perFileIgnores: Record<string, string[]>
+}
+
+/**
+ * ルールがflake8（本体またはプラグイン）由来か判定
+ */
+export function isFlake8Rule(rule: RuleInfo): boolean {
+  const linter = rule.category.replace(/\s*\(.*\)$/, '')
+  return FLAKE8_LINTERS.includes(linter) || linter.startsWith('flake8-')
+}
+
+function splitCodes(value: string | undefined): string[] | undefined {
+  if (value === undefined) return undefined
+  return value
+    .split(/[\s,]+/)
+    .map(normalizeSelector)
+    .filter(Boolean)
+}
+
+/**
+ * per-file-ignoresの値をパース（例: "tests/*.py: S101, E501"）
+ */
+function parsePerFileIgnores(
+  value: string | undefined
+): Flake8Config['perFileIgnores'] {
+  const result: Flake8Config['perFileIgnores'] = {}
+  if (!value) return result
+
+  const tokens = value
+    .replace(/:/g, ' : ')
+    .split(/[\s,]+/)
+    .filter(Boolean)
+  let pattern: string | undefined
+
+  tokens.forEach((token, index) => {
+    if (token === ':') return
+    if (tokens[index + 1] === ':') {
+      pattern = token
+      result[pattern] ??= []
+    } else if (pattern) {
+      result[pattern].push(normalizeSelector(token))
+    }
+  })
+
+  return result
+}
+
+/**
+ * .flake8 / setup.cfg / tox.ini の [flake8] セクションを読み取る
+ */
+export function parseFlake8Config(text: string): Flake8Config {
+  const section = parseIni(text)['flake8']
+  if (!section) {
+    throw new Error('No [flake8] section found')
+  }
+
+  return {
+    select: splitCodes(section['select']),
+    extendSelect: splitCodes(section['extend-select']) ?? [],
+    ignore: splitCodes(section['ignore']),
+    extendIgnore: splitCodes(section['extend-ignore']) ?? [],
+    perFileIgnores: parsePerFileIgnores(section['per-file-ignores']),
+  }
+}
+
+/**
+ * flake8のコード（プレフィックス可）をRuffのセレクタに変換
+ */
+export function translateFlake8Code(code: string): string[] {
+  const alias = Object.keys(FLAKE8_CODE_ALIASES)
+    .sort((a, b) => b.length - a.length)
+    .find((prefix) => code.startsWith(prefix))
+
+  if (!alias) return [code]
+  return FLAKE8_CODE_ALIASES[alias].map(
+    (replacement) => replacement + code.slice(alias.length)
+  )
+}
+
+// flake8のコードをflake8由来のRuffルールに対応付ける
+function mapCodes(
+  flake8Rules: RuleInfo[],
+  codes: string[],
+  unmapped: Set<string>
+): string[] {
+  return codes.flatMap((code) => {
+    const selectors = translateFlake8Code(code)
+    const resolved = selectors.filter((selector) =>
+      flake8Rules.some((rule) => matchesSelector(rule, selector))
+    )
+    if (resolved.length === 0) unmapped.add(code)
+    return resolved
+  })
+}
+
+function bestSpecificity(rule: RuleInfo, selectors: string[]): number {
+  return Math.max(
+    -1,
+    ...selectors
+      .filter((selector) => matchesSelector(rule, selector))
+      .map(selectorSpecificity)
+  )
+}
+
+/**
+ * flake8の設定をflake8由来のRuffルールの有効/無効に解決
+ *
+ * selectを省略した場合は、インストール済みプラグインを含む全てのコードが
+ * 選択されるflake8の挙動に合わせ、flake8由来の全ルールを選択済みとみなす。
+ * flake8由来でないルール（RUF、PLなど）の設定は変更しない。
+ */
+export function resolveFlake8Config(
+  rules: RuleInfo[],
+  config: Flake8Config
+): ImportResult {
+  const flake8Rules = rules.filter(isFlake8Rule)
+  const unmapped = new Set<string>()
+
+  const selectors = [
+    ...(config.select
+      ? mapCodes(flake8Rules, config.select, unmapped)
+      : ['ALL']),
+    ...mapCodes(flake8Rules, config.extendSelect, unmapped),
+  ]
+  const ignores = [
+    ...(config.ignore
+      ? mapCodes(flake8Rules, config.ignore, unmapped)
+      : mapCodes(flake8Rules, FLAKE8_DEFAULT_IGNORE, new Set())),
+    ...mapCodes(flake8Rules, config.extendIgnore, unmapped),
+  ]
+
+  const settings: RuleSettings = {}
+  for (const rule of flake8Rules) {
+    const selected = bestSpecificity(rule, selectors)
+    const ignored = bestSpecificity(rule, ignores)
+    const enabled = selected >= 0 && selected > ignored
+
+    settings[rule.code] = enabled
+      ? { enabled }
+      : { enabled, comment: FLAKE8_IMPORT_COMMENT }
+  }
+
+  const perFileIgnores: Record<string, string[]> = {}
+  for (const [pattern, codes] of Object.entries(config.perFileIgnores)) {
+    perFileIgnores[pattern] = mapCodes(flake8Rules, codes, unmapped)
+  }
+
+  return {
+    settings,
+    unknownCodes: [...unmapped].sort(),
+    perFileIgnores,
+  }
+}
+
+/**
+ * flake8の設定ファイルのテキストからルール設定をインポート
+ */
+export function importFlake8Config(
+  text: string,
+  rules: RuleInfo[]
+): ImportResult {
+  return resolveFlake8Config(rules, parseFlake8Config(text))
+}
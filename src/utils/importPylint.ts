@@ -0,0 +1,144 @@
+import type { ImportResult, RuleInfo, RuleSettings } from '../types/rules'
+import { parseIni } from './parseIni'
+import { parseToml } from './parseToml'
+
+export const PYLINT_IMPORT_COMMENT = 'imported from pylintrc'
+
+// pylintのメッセージカテゴリ → Ruffのカテゴリコード
+const PYLINT_CATEGORIES: Record<string, string> = {
+  C: 'PLC',
+  R: 'PLR',
+  W: 'PLW',
+  E: 'PLE',
+  F: 'PLE',
+}
+
+// "messages control" セクションから読み取った設定
+export interface PylintConfig {
+  disable: string[]
+  enable: string[]
+}
+
+function isPylintRule(rule: RuleInfo): boolean {
+  return rule.categoryCode.startsWith('PL')
+}
+
+function isMessagesControl(name: string): boolean {
+  return /messages[ _]control$/i.test(name)
+}
+
+function splitMessages(value: string | undefined): string[] {
+  if (!value) return []
+  return value
+    .split(/[\s,]+/)
+    .map((message) => message.trim())
+    .filter(Boolean)
+}
+
+/**
+ * .pylintrc / pyproject.toml から messages control の disable/enable を読み取る
+ */
+export function parsePylintConfig(text: string): PylintConfig {
+  const config: PylintConfig = { disable: [], enable: [] }
+  let found = false
+
+  if (/^\s*\[tool\.pylint/m.test(text)) {
+    const doc = parseToml(text)
+    for (const [key, value] of Object.entries(doc)) {
+      const match = key.match(/^tool\.pylint\.(.+)\.(disable|enable)$/)
+      if (!match || !isMessagesControl(match[1])) continue
+
+      found = true
+      config[match[2] as keyof PylintConfig] = Array.isArray(value)
+        ? value.map((item) => item.value)
+        : splitMessages(String(value))
+    }
+  } else {
+    const doc = parseIni(text)
+    for (const [name, section] of Object.entries(doc)) {
+      if (!isMessagesControl(name)) continue
+
+      found = true
+      config.disable.push(...splitMessages(section['disable']))
+      config.enable.push(...splitMessages(section['enable']))
+    }
+  }
+
+  if (!found) {
+    throw new Error('No "messages control" section found')
+  }
+
+  return config
+}
+
+/**
+ * pylintのメッセージ（シンボル名、メッセージID、カテゴリ、"all"）を
+ * Ruffのルールに解決する
+ */
+export function resolvePylintMessage(
+  rules: RuleInfo[],
+  message: string
+): RuleInfo[] {
+  const pylintRules = rules.filter(isPylintRule)
+
+  if (message.toLowerCase() === 'all') return pylintRules
+
+  // カテゴリ（例: "C"）
+  const category = PYLINT_CATEGORIES[message.toUpperCase()]
+  if (category) {
+    return pylintRules.filter((rule) => rule.categoryCode === category)
+  }
+
+  // メッセージID（例: "R0913"）
+  if (/^[CRWEFI]\d{4}$/i.test(message)) {
+    return pylintRules.filter(
+      (rule) => rule.code === `PL${message.toUpperCase()}`
+    )
+  }
+
+  // シンボル名（例: "too-many-arguments"）
+  return pylintRules.filter((rule) => rule.name === message.toLowerCase())
+}
+
+/**
+ * pylintの設定をPL*ルールの有効/無効に解決
+ *
+ * disableを適用したあとにenableを適用する。
+ * どちらにも含まれないルールの設定は変更しない。
+ */
+export function resolvePylintConfig(
+  rules: RuleInfo[],
+  config: PylintConfig
+): ImportResult {
+  const settings: RuleSettings = {}
+  const unknown = new Set<string>()
+
+  const resolve = (message: string) => {
+    const resolved = resolvePylintMessage(rules, message)
+    if (resolved.length === 0) unknown.add(message)
+    return resolved
+  }
+
+  for (const message of config.disable) {
+    for (const rule of resolve(message)) {
+      settings[rule.code] = { enabled: false, comment: PYLINT_IMPORT_COMMENT }
+    }
+  }
+  for (const message of config.enable) {
+    for (const rule of resolve(message)) {
+      settings[rule.code] = { enabled: true }
+    }
+  }
+
+  return { settings, unknownCodes: [...unknown].sort() }
+}
+
+/**
+ * pylintの設定ファイルのテキストからルール設定をインポート
+ */
+export function importPylintConfig(
+  text: string,
+  rules: RuleInfo[]
+): ImportResult {
+  return resolvePylintConfig(rules, parsePylintConfig(text))
+}
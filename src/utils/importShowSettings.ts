@@ -0,0 +1,71 @@
+import type { ImportResult, RuleInfo, RuleSettings } from '../types/rules'
+import { ruleSettingsStore } from './ruleSettings'
+
+/**
+ * `ruff check --show-settings` の出力から linter.rules.enabled のコードを抽出
+ *
+ * 各行は "name (CODE)," の形式（古いバージョンではコードのみ）。
+ */
+export function parseEnabledRules(output: string): string[] {
+  const lines = output.replace(/\r\n/g, '\n').split('\n')
+  const start = lines.findIndex((line) =>
+    /^\s*linter\.rules\.enabled\s*=\s*\[/.test(line)
+  )
+  if (start === -1) {
+    throw new Error('linter.rules.enabled not found in --show-settings output')
+  }
+
+  const codes: string[] = []
+  // "linter.rules.enabled = []" のように1行で閉じている場合
+  if (/\]\s*$/.test(lines[start])) return codes
+
+  for (const line of lines.slice(start + 1)) {
+    if (/^\s*\]/.test(line)) return codes
+
+    const match =
+      line.match(/\(([A-Z]+[0-9]+)\)/) ?? line.match(/^\s*([A-Z]+[0-9]+)\b/)
+    if (match) codes.push(match[1])
+  }
+
+  throw new Error('Unterminated linter.rules.enabled list')
+}
+
+/**
+ * 有効なルールのコード一覧を全ルールの有効/無効に解決
+ *
+ * 一覧に含まれないルールは無効化し、既存の除外理由はそのまま残す。
+ */
+export function resolveEnabledRules(
+  rules: RuleInfo[],
+  enabledCodes: string[]
+): ImportResult {
+  const enabled = new Set(enabledCodes)
+  const known = new Set(rules.map((rule) => rule.code))
+
+  const settings: RuleSettings = {}
+  for (const rule of rules) {
+    if (enabled.has(rule.code)) {
+      settings[rule.code] = { enabled: true }
+    } else {
+      const { comment } = ruleSettingsStore.getSyncWithStorage(rule.code)
+      settings[rule.code] = comment
+        ? { enabled: false, comment }
+        : { enabled: false }
+    }
+  }
+
+  return {
+    settings,
+    unknownCodes: [...enabled].filter((code) => !known.has(code)).sort(),
+  }
+}
+
+/**
+ * `ruff check --show-settings` の出力からルール設定をインポート
+ */
+export function importShowSettings(
+  output: string,
+  rules: RuleInfo[]
+): ImportResult {
+  return resolveEnabledRules(rules, parseEnabledRules(output))
+}
@@ -0,0 +1,206 @@
+import type {
+  ImportResult,
+  PerFileIgnores,
+  RuleInfo,
+  RuleSettings,
+} from '../types/rules'
+import { parseToml, type TomlArrayItem, type TomlDocument } from './parseToml'
+import {
+  matchesSelector,
+  normalizeSelector,
+  resolveSelector,
+  selectorSpecificity,
+} from './ruleSelector'
+
+// selectを省略した場合のRuffのデフォルト
+export const DEFAULT_SELECT = ['E4', 'E7', 'E9', 'F']
+
+// [tool.ruff.lint] から読み取ったセレクタ
+export interface RuffLintSelectors {
+  select?: TomlArrayItem[]
+  extendSelect: TomlArrayItem[]
+  ignore: TomlArrayItem[]
+  extendIgnore: TomlArrayItem[]
+  perFileIgnores: PerFileIgnores
+  // unfixable / extend-unfixable（どちらも指定がない場合はundefined）
+  unfixable?: TomlArrayItem[]
+}
+
+function getArray(
+  doc: TomlDocument,
+  tables: string[],
+  key: string
+): TomlArrayItem[] | undefined {
+  // 先に見つかったテーブルを優先（lintテーブル > トップレベル）
+  for (const table of tables) {
+    const value = doc[table ? `${table}.${key}` : key]
+    if (Array.isArray(value)) {
+      return value.map((item) => ({
+        ...item,
+        value: normalizeSelector(item.value),
+      }))
+    }
+  }
+  return undefined
+}
+
+// per-file-ignores / extend-per-file-ignores テーブルを読み取る
+function getPerFileIgnores(
+  doc: TomlDocument,
+  tables: string[]
+): PerFileIgnores {
+  const result: PerFileIgnores = {}
+
+  for (const table of [...tables].reverse()) {
+    for (const key of ['per-file-ignores', 'extend-per-file-ignores']) {
+      const prefix = table ? `${table}.${key}.` : `${key}.`
+      for (const [path, value] of Object.entries(doc)) {
+        if (!path.startsWith(prefix) || !Array.isArray(value)) continue
+        const pattern = path.slice(prefix.length)
+        result[pattern] = [
+          ...new Set([
+            ...(result[pattern] ?? []),
+            ...value.map((item) => normalizeSelector(item.value)),
+          ]),
+        ]
+      }
+    }
+  }
+
+  return result
+}
+
+function getUnfixable(
+  doc: TomlDocument,
+  tables: string[]
+): TomlArrayItem[] | undefined {
+  const unfixable = getArray(doc, tables, 'unfixable')
+  const extendUnfixable = getArray(doc, tables, 'extend-unfixable')
+  if (!unfixable && !extendUnfixable) return undefined
+  return [...(unfixable ?? []), ...(extendUnfixable ?? [])]
+}
+
+/**
+ * TOMLドキュメントからRuffのlint設定のセレクタを抽出
+ *
+ * pyproject.toml（[tool.ruff.lint] / [tool.ruff]）と
+ * ruff.toml（[lint] / トップレベル）の両方に対応する。
+ */
+export function extractRuffLintSelectors(doc: TomlDocument): RuffLintSelectors {
+  const keys = Object.keys(doc)
+  const isPyproject = keys.some((key) => key.startsWith('tool.'))
+  const tables = isPyproject ? ['tool.ruff.lint', 'tool.ruff'] : ['lint', '']
+
+  const selectors = {
+    select: getArray(doc, tables, 'select'),
+    extendSelect: getArray(doc, tables, 'extend-select') ?? [],
+    ignore: getArray(doc, tables, 'ignore') ?? [],
+    extendIgnore: getArray(doc, tables, 'extend-ignore') ?? [],
+    perFileIgnores: getPerFileIgnores(doc, tables),
+    unfixable: getUnfixable(doc, tables),
+  }
+
+  if (
+    !selectors.select &&
+    selectors.extendSelect.length === 0 &&
+    selectors.ignore.length === 0 &&
+    selectors.extendIgnore.length === 0 &&
+    Object.keys(selectors.perFileIgnores).length === 0 &&
+    !selectors.unfixable
+  ) {
+    throw new Error(
+      isPyproject
+        ? 'No [tool.ruff.lint] select/ignore settings found'
+        : 'No [lint] select/ignore settings found'
+    )
+  }
+
+  return selectors
+}
+
+// ルールにマッチするもののうち最も具体的なエントリを返す
+function findMostSpecific(
+  rule: RuleInfo,
+  entries: TomlArrayItem[]
+): TomlArrayItem | undefined {
+  let best: TomlArrayItem | undefined
+  for (const entry of entries) {
+    if (!matchesSelector(rule, entry.value)) continue
+    if (
+      !best ||
+      selectorSpecificity(entry.value) > selectorSpecificity(best.value)
+    ) {
+      best = entry
+    }
+  }
+  return best
+}
+
+/**
+ * セレクタを各ルールの有効/無効に解決
+ *
+ * Ruffと同様に、selectとignoreの両方にマッチした場合は
+ * より具体的なセレクタを優先し、同じ具体度ならignoreを優先する。
+ */
+export function resolveRuffSelectors(
+  rules: RuleInfo[],
+  selectors: RuffLintSelectors
+): ImportResult {
+  const selectEntries = [
+    ...(selectors.select ?? DEFAULT_SELECT.map((value) => ({ value }))),
+    ...selectors.extendSelect,
+  ]
+  const ignoreEntries = [...selectors.ignore, ...selectors.extendIgnore]
+
+  const settings: RuleSettings = {}
+  for (const rule of rules) {
+    const selected = findMostSpecific(rule, selectEntries)
+    const ignored = findMostSpecific(rule, ignoreEntries)
+
+    const enabled =
+      selected !== undefined &&
+      (ignored === undefined ||
+        selectorSpecificity(selected.value) >
+          selectorSpecificity(ignored.value))
+
+    settings[rule.code] =
+      !enabled && ignored?.comment
+        ? { enabled, comment: ignored.comment }
+        : { enabled }
+
+    // unfixableの指定がある場合のみ上書き（ない場合は現在の値を保持）
+    if (selectors.unfixable) {
+      settings[rule.code].unfixable = selectors.unfixable.some((entry) =>
+        matchesSelector(rule, entry.value)
+      )
+    }
+  }
+
+  const unknownCodes = [
+    ...new Set(
+      [
+        ...[
+          ...selectEntries,
+          ...ignoreEntries,
+          ...(selectors.unfixable ?? []),
+        ].map((entry) => entry.value),
+        ...Object.values(selectors.perFileIgnores).flat(),
+      ].filter(
+        (value) => value !== 'ALL' && resolveSelector(rules, value).length === 0
+      )
+    ),
+  ].sort()
+
+  return { settings, unknownCodes, perFileIgnores: selectors.perFileIgnores }
+}
+
+/**
+ * pyproject.toml / ruff.toml のテキストからルール設定をインポート
+ */
+export function importRuffConfig(
+  text: string,
+  rules: RuleInfo[]
+): ImportResult {
+  const selectors = extractRuffLintSelectors(parseToml(text))
+  return resolveRuffSelectors(rules, selectors)
+}
@@ -0,0 +1,307 @@
+import type { StorageAdapter, StorageChangeListener } from './storageAdapters'
+import { reportStorageError } from './storageErrors'
+
+const DEFAULT_DB_NAME = 'ruffmate'
+const STORE_NAME = 'settings'
+
+// 変更をまとめて保存するまでの待ち時間（ミリ秒）
+const FLUSH_DELAY = 200
+
+// 他のタブに保存したキーを知らせるメッセージ
+interface FlushMessage {
+  keys: string[]
+}
+
+/**
+ * 両方のタブで変更したキーの値をまとめる関数
+ *
+ * base: このタブが最後に読み込んだ（保存した）値、local: このタブの値、
+ * remote: 他のタブが保存した値。localを返すと他のタブの変更を上書きする。
+ */
+export type StorageMerge = (
+  key: string,
+  base: string | null,
+  local: string | null,
+  remote: string | null
+) => string | null
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function openDatabase(name: string): Promise<IDBDatabase> {
+  const request = indexedDB.open(name, 1)
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME)
+  }
+  return requestToPromise(request)
+}
+
+/**
+ * IndexedDBに保存するアダプタ
+ *
+ * 読み込みは起動時にまとめて行い、以降はメモリ上のデータを同期的に返す。
+ * 書き込みはメモリを即座に更新し、IndexedDBへは一定時間ごとに
+ * 1つのトランザクションでまとめて保存する（write-behind）。
+ * 保存したキーはBroadcastChannelで他のタブに知らせる。
+ *
+ * 他のタブも同じキーを変更していた場合は、mergeで両方の変更をまとめる
+ * （保存時にも同じトランザクションで最新の値を読み、まとめてから書き込む）。
+ */
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  private data: Map<string, string>
+  // IndexedDBに保存されていることが分かっている値（まとめる際のbase）
+  private stored: Map<string, string>
+  // 保存待ちのキー（値がnullのものは削除する）
+  private pending = new Map<string, string | null>()
+  // 書き込み中のキーと、そのキーを含む書き込みの数
+  private writing = new Map<string, number>()
+  private flushTimer: ReturnType<typeof setTimeout> | null = null
+  private flushing: Promise<void> = Promise.resolve()
+  private listeners = new Set<StorageChangeListener>()
+  private channel: BroadcastChannel | null
+
+  private constructor(
+    private readonly db: IDBDatabase,
+    entries: Array<[string, string]>,
+    private readonly merge: StorageMerge | null
+  ) {
+    this.data = new Map(entries)
+    this.stored = new Map(entries)
+    this.channel =
+      typeof BroadcastChannel !== 'undefined'
+        ? new BroadcastChannel(`${db.name}-storage`)
+        : null
+    if (this.channel) {
+      this.channel.onmessage = (e: MessageEvent<FlushMessage>) =>
+        void this.handleRemoteFlush(e.data.keys)
+    }
+
+    // ページを離れる前に保存待ちの変更を書き込む
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', this.handlePageHide)
+    }
+  }
+
+  /**
+   * データベースを開き、保存されている全てのデータを読み込む
+   */
+  static async open(
+    name: string = DEFAULT_DB_NAME,
+    merge: StorageMerge | null = null
+  ): Promise<IndexedDBStorageAdapter> {
+    const db = await openDatabase(name)
+    const store = db.transaction(STORE_NAME).objectStore(STORE_NAME)
+    const [keys, values] = await Promise.all([
+      requestToPromise(store.getAllKeys()),
+      requestToPromise(store.getAll()),
+    ])
+    return new IndexedDBStorageAdapter(
+      db,
+      keys.map((key, i) => [String(key), values[i]]),
+      merge
+    )
+  }
+
+  getItem(key: string): string | null {
+    return this.data.get(key) ?? null
+  }
+
+  setItem(key: string, value: string) {
+    this.data.set(key, String(value))
+    this.schedule(key, String(value))
+  }
+
+  removeItem(key: string) {
+    this.data.delete(key)
+    this.schedule(key, null)
+  }
+
+  keys(): string[] {
+    return [...this.data.keys()]
+  }
+
+  subscribe(listener: StorageChangeListener): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  /**
+   * 保存待ちの変更をすぐに書き込む
+   */
+  flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer)
+      this.flushTimer = null
+    }
+    if (this.pending.size === 0) return this.flushing
+
+    const batch = this.pending
+    this.pending = new Map()
+    for (const key of batch.keys()) {
+      this.writing.set(key, (this.writing.get(key) ?? 0) + 1)
+    }
+    // 前の書き込みが終わってから次のトランザクションを始める
+    this.flushing = this.flushing.then(() => this.write(batch))
+    return this.flushing
+  }
+
+  /**
+   * 保存待ちの変更を書き込んでからデータベースとチャンネルを閉じる
+   */
+  async close(): Promise<void> {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('pagehide', this.handlePageHide)
+    }
+    await this.flush()
+    this.channel?.close()
+    this.db.close()
+  }
+
+  private handlePageHide = () => {
+    void this.flush()
+  }
+
+  private schedule(key: string, value: string | null) {
+    this.pending.set(key, value)
+    this.flushTimer ??= setTimeout(() => this.flush(), FLUSH_DELAY)
+  }
+
+  private write(batch: Map<string, string | null>): Promise<void> {
+    return new Promise<void>((resolve) => {
+      const transaction = this.db.transaction(STORE_NAME, 'readwrite')
+      const store = transaction.objectStore(STORE_NAME)
+      // 実際に書き込んだ値（他のタブの変更とまとめた場合はbatchと異なる）
+      const written = new Map<string, string | null>()
+      const put = (key: string, value: string | null) => {
+        written.set(key, value)
+        if (value === null) {
+          store.delete(key)
+        } else {
+          store.put(value, key)
+        }
+      }
+
+      for (const [key, value] of batch) {
+        const merge = this.merge
+        if (!merge) {
+          put(key, value)
+          continue
+        }
+        // 前回から他のタブが保存していた場合は、その値とまとめる
+        const request = store.get(key)
+        request.onsuccess = () => {
+          const current = (request.result as string | undefined) ?? null
+          const base = this.stored.get(key) ?? null
+          put(key, current === base ? value : merge(key, base, value, current))
+        }
+      }
+
+      const finish = () => {
+        for (const key of batch.keys()) {
+          const count = this.writing.get(key) ?? 0
+          if (count > 1) {
+            this.writing.set(key, count - 1)
+          } else {
+            this.writing.delete(key)
+          }
+        }
+        resolve()
+      }
+      transaction.oncomplete = () => {
+        for (const [key, value] of written) {
+          this.applyWritten(key, batch.get(key) ?? null, value)
+        }
+        this.channel?.postMessage({ keys: [...batch.keys()] })
+        finish()
+      }
+      // 保存に失敗してもメモリ上のデータは保持する
+      transaction.onerror = transaction.onabort = () => {
+        reportStorageError('設定を保存できませんでした', transaction.error)
+        finish()
+      }
+    })
+  }
+
+  // 書き込んだ値を記録し、他のタブの変更とまとめた場合はメモリにも反映する
+  private applyWritten(
+    key: string,
+    local: string | null,
+    value: string | null
+  ) {
+    this.setStored(key, value)
+    if (value === local) return
+
+    // 書き込み中に変更された場合は、その変更にも他のタブの変更を反映する
+    let next = value
+    if (this.pending.has(key) && this.merge) {
+      next = this.merge(key, local, this.pending.get(key) ?? null, value)
+      this.pending.set(key, next)
+    }
+    this.setData(key, next)
+    for (const listener of this.listeners) listener(key)
+  }
+
+  private setData(key: string, value: string | null) {
+    if (value === null) {
+      this.data.delete(key)
+    } else {
+      this.data.set(key, value)
+    }
+  }
+
+  private setStored(key: string, value: string | null) {
+    if (value === null) {
+      this.stored.delete(key)
+    } else {
+      this.stored.set(key, value)
+    }
+  }
+
+  // 他のタブが保存したキーを読み込み直してから通知する
+  private async handleRemoteFlush(keys: string[]) {
+    let values: Array<string | undefined>
+    try {
+      const store = this.db.transaction(STORE_NAME).objectStore(STORE_NAME)
+      values = await Promise.all(
+        keys.map((key) => requestToPromise<string | undefined>(store.get(key)))
+      )
+    } catch (error) {
+      reportStorageError(
+        '他のタブで保存された設定を読み込めませんでした',
+        error
+      )
+      return
+    }
+
+    keys.forEach((key, i) => {
+      const value = values[i] ?? null
+      // 書き込み中のキーは、書き込み時に他のタブの変更とまとめる
+      if (this.writing.has(key)) return
+
+      if (this.pending.has(key)) {
+        // 保存待ちの変更は上書きせず、まとめられる場合のみ反映する
+        // （まとめた後はremoteがbaseになるため、保存時に同じ変更を重ねない）
+        if (!this.merge) return
+        const local = this.pending.get(key) ?? null
+        const merged = this.merge(
+          key,
+          this.stored.get(key) ?? null,
+          local,
+          value
+        )
+        this.setStored(key, value)
+        if (merged === local) return
+        this.pending.set(key, merged)
+        this.setData(key, merged)
+      } else {
+        this.setStored(key, value)
+        this.setData(key, value)
+      }
+      for (const listener of this.listeners) listener(key)
+    })
+  }
+}
@@ -0,0 +1,48 @@
+// INI形式（.flake8 / setup.cfg / tox.ini / .pylintrc）の最小限のパーサー
+
+// セクション名 → キー → 値
+export type IniDocument = Record<string, Record<string, string>>
+
+/**
+ * INIテキストをパース
+ *
+ * インデントされた行は直前のキーの値の続きとして扱う（configparserと同じ）。
+ * キーは小文字化し、"_" を "-" に揃える。
+ */
+export function parseIni(text: string): IniDocument {
+  const doc: IniDocument = {}
+  let section: Record<string, string> | undefined
+  let lastKey: string | undefined
+
+  for (const rawLine of text.replace(/\r\n/g, '\n').split('\n')) {
+    const line = rawLine.replace(/\s+[#;].*$/, '')
+    const trimmed = line.trim()
+
+    if (!trimmed || /^[#;]/.test(trimmed)) continue
+
+    // 継続行
+    if (/^\s/.test(line) && section && lastKey) {
+      section[lastKey] += `\n${trimmed}`
+      continue
+    }
+
+    const header = trimmed.match(/^\[(.+)\]$/)
+    if (header) {
+      const name = header[1].trim()
+      section = doc[name] ??= {}
+      lastKey = undefined
+      continue
+    }
+
+    const entry = trimmed.match(/^([^=:]+?)\s*[=:]\s*(.*)$/)
+    if (!entry || !section) {
+      lastKey = undefined
+      continue
+    }
+
+    lastKey = entry[1].toLowerCase().replace(/_/g, '-')
+    section[lastKey] = entry[2]
+  }
+
+  return doc
+}
@@ -0,0 +1,348 @@
+// 設定ファイルのインポートに必要な範囲だけを扱う最小限のTOMLパーサー
+// （配列要素の行末コメントを保持するため、汎用ライブラリは使わない）
+
+// 配列要素（行末コメント付き）
+export interface TomlArrayItem {
+  value: string
+  comment?: string
+}
+
+export type TomlValue = string | number | boolean | TomlArrayItem[]
+
+// キーはテーブルパスを含むドット区切り（例: "tool.ruff.lint.select"）
+export type TomlDocument = Record<string, TomlValue>
+
+// 単独の値として読み取った値（入れ子の配列とインラインテーブルも扱う）
+export type TomlInlineValue =
+  | string
+  | number
+  | boolean
+  | TomlInlineValue[]
+  | TomlInlineTable
+
+export interface TomlInlineTable {
+  [key: string]: TomlInlineValue
+}
+
+class TomlScanner {
+  private pos = 0
+
+  constructor(private readonly text: string) {}
+
+  get done(): boolean {
+    return this.pos >= this.text.length
+  }
+
+  peek(offset = 0): string {
+    return this.text[this.pos + offset] ?? ''
+  }
+
+  startsWith(token: string): boolean {
+    return this.text.startsWith(token, this.pos)
+  }
+
+  advance(count = 1): void {
+    this.pos += count
+  }
+
+  // 空白（改行を含まない）を読み飛ばす
+  skipSpaces(): void {
+    while (this.peek() === ' ' || this.peek() === '\t') this.advance()
+  }
+
+  // 行末まで読み飛ばす
+  skipLine(): void {
+    while (!this.done && this.peek() !== '\n') this.advance()
+  }
+
+  // 行末までを取得
+  readLine(): string {
+    const start = this.pos
+    this.skipLine()
+    return this.text.slice(start, this.pos)
+  }
+
+  error(message: string): Error {
+    const line = this.text.slice(0, this.pos).split('\n').length
+    return new Error(`Invalid TOML at line ${line}: ${message}`)
+  }
+
+  readString(): string {
+    const quote = this.peek()
+    const triple = quote.repeat(3)
+
+    if (this.startsWith(triple)) {
+      this.advance(3)
+      const end = this.text.indexOf(triple, this.pos)
+      if (end === -1) throw this.error('unterminated string')
+      const value = this.text.slice(this.pos, end).replace(/^\r?\n/, '')
+      this.pos = end + 3
+      return value
+    }
+
+    this.advance()
+    let value = ''
+    while (this.peek() !== quote) {
+      if (this.done || this.peek() === '\n') {
+        throw this.error('unterminated string')
+      }
+      if (quote === '"' && this.peek() === '\\') {
+        value += unescape(this.peek(1))
+        this.advance(2)
+        continue
+      }
+      value += this.peek()
+      this.advance()
+    }
+    this.advance()
+    return value
+  }
+
+  // ドット区切りのキーを読む（例: tool.ruff."lint"）
+  readKeyPath(terminator: string): string[] {
+    const path: string[] = []
+    for (;;) {
+      this.skipSpaces()
+      if (this.peek() === '"' || this.peek() === "'") {
+        path.push(this.readString())
+      } else {
+        const match = /^[A-Za-z0-9_-]+/.exec(this.text.slice(this.pos))
+        if (!match) throw this.error('invalid key')
+        path.push(match[0])
+        this.advance(match[0].length)
+      }
+      this.skipSpaces()
+      if (this.peek() === '.') {
+        this.advance()
+        continue
+      }
+      if (!this.startsWith(terminator)) {
+        throw this.error(`expected "${terminator}"`)
+      }
+      this.advance(terminator.length)
+      return path
+    }
+  }
+
+  readValue(): TomlValue | undefined {
+    const c = this.peek()
+    if (c === '"' || c === "'") return this.readString()
+    if (c === '[') return this.readArray()
+    if (c === '{') {
+      this.skipInlineTable()
+      return undefined
+    }
+    return this.readScalar()
+  }
+
+  // 値を型を保ったまま読む（配列の要素やインラインテーブルの中身も含む）
+  readInlineValue(): TomlInlineValue {
+    this.skipSpaces()
+    const c = this.peek()
+    if (c === '"' || c === "'") return this.readString()
+    if (c === '[') return this.readInlineArray()
+    if (c === '{') return this.readInlineTable()
+
+    const value = this.readScalar()
+    if (value === '') throw this.error('missing value')
+    return value as string | number | boolean
+  }
+
+  private readInlineArray(): TomlInlineValue[] {
+    this.advance() // '['
+    const items: TomlInlineValue[] = []
+    for (;;) {
+      this.skipSpaces()
+      if (this.done) throw this.error('unterminated array')
+      if (this.peek() === ']') {
+        this.advance()
+        return items
+      }
+
+      items.push(this.readInlineValue())
+      this.skipSpaces()
+      if (this.peek() === ',') {
+        this.advance()
+      } else if (!this.done && this.peek() !== ']') {
+        throw this.error('expected "," or "]"')
+      }
+    }
+  }
+
+  private readInlineTable(): TomlInlineTable {
+    this.advance() // '{'
+    const table: TomlInlineTable = {}
+    for (;;) {
+      this.skipSpaces()
+      if (this.done) throw this.error('unterminated inline table')
+      if (this.peek() === '}') {
+        this.advance()
+        return table
+      }
+
+      // ドット区切りのキーは入れ子のテーブルとして扱う（"cgi".msg = "..."）
+      const path = this.readKeyPath('=')
+      let target = table
+      for (const key of path.slice(0, -1)) {
+        const next = (target[key] ??= {})
+        if (typeof next !== 'object' || Array.isArray(next)) {
+          throw this.error(`duplicate key "${key}"`)
+        }
+        target = next
+      }
+      target[path[path.length - 1]] = this.readInlineValue()
+
+      this.skipSpaces()
+      if (this.peek() === ',') {
+        this.advance()
+      } else if (!this.done && this.peek() !== '}') {
+        throw this.error('expected "," or "}"')
+      }
+    }
+  }
+
+  private readScalar(): TomlValue {
+    const match = /^[^,\]}#\n]*/.exec(this.text.slice(this.pos))
+    const raw = match ? match[0].trim() : ''
+    this.advance(match ? match[0].length : 0)
+    if (raw === 'true') return true
+    if (raw === 'false') return false
+    const num = Number(raw.replace(/_/g, ''))
+    return raw !== '' && !Number.isNaN(num) ? num : raw
+  }
+
+  private readArray(): TomlArrayItem[] {
+    this.advance() // '['
+    const items: TomlArrayItem[] = []
+    // 行末コメントを紐付ける直前の要素（改行を挟んだら解除）
+    let last: TomlArrayItem | undefined
+
+    for (;;) {
+      this.skipSpaces()
+      const c = this.peek()
+      if (this.done) throw this.error('unterminated array')
+
+      if (c === ']') {
+        this.advance()
+        return items
+      }
+      if (c === '\n' || c === '\r') {
+        last = undefined
+        this.advance()
+        continue
+      }
+      if (c === ',') {
+        this.advance()
+        continue
+      }
+      if (c === '#') {
+        this.advance()
+        const comment = this.readLine().trim()
+        if (last && comment) last.comment = comment
+        last = undefined
+        continue
+      }
+
+      const value = this.readValue()
+      if (value === undefined) continue
+      last = {
+        value: Array.isArray(value)
+          ? value.map((v) => v.value).join(',')
+          : String(value),
+      }
+      items.push(last)
+    }
+  }
+
+  private skipInlineTable(): void {
+    let depth = 0
+    while (!this.done) {
+      const c = this.peek()
+      if (c === '"' || c === "'") {
+        this.readString()
+        continue
+      }
+      this.advance()
+      if (c === '{') depth++
+      if (c === '}' && --depth === 0) return
+    }
+    throw this.error('unterminated inline table')
+  }
+}
+
+function unescape(c: string): string {
+  switch (c) {
+    case 'n':
+      return '\n'
+    case 't':
+      return '\t'
+    case 'r':
+      return '\r'
+    default:
+      return c
+  }
+}
+
+/**
+ * TOMLテキストをパースしてキーパスと値のマップを返す
+ *
+ * 文字列・数値・真偽値・配列のみ対応し、インラインテーブルと
+ * テーブル配列（[[...]]）の中身は読み飛ばす。
+ */
+export function parseToml(text: string): TomlDocument {
+  const scanner = new TomlScanner(text.replace(/\r\n/g, '\n'))
+  const doc: TomlDocument = {}
+  let table: string[] = []
+  let inTableArray = false
+
+  while (!scanner.done) {
+    scanner.skipSpaces()
+    const c = scanner.peek()
+
+    if (c === '\n') {
+      scanner.advance()
+      continue
+    }
+    if (c === '#' || c === '') {
+      scanner.skipLine()
+      continue
+    }
+
+    if (c === '[') {
+      inTableArray = scanner.peek(1) === '['
+      scanner.advance(inTableArray ? 2 : 1)
+      table = scanner.readKeyPath(inTableArray ? ']]' : ']')
+      scanner.skipSpaces()
+      if (scanner.peek() === '#') scanner.skipLine()
+      continue
+    }
+
+    const key = scanner.readKeyPath('=')
+    scanner.skipSpaces()
+    const value = scanner.readValue()
+    if (value !== undefined && !inTableArray) {
+      doc[[...table, ...key].join('.')] = value
+    }
+
+    scanner.skipSpaces()
+    if (scanner.peek() === '#') scanner.skipLine()
+    if (!scanner.done && scanner.peek() !== '\n') {
+      throw scanner.error('expected newline after value')
+    }
+  }
+
+  return doc
+}
+
+/**
+ * 単独の値（"10", "[1, 2]", "{ msg = \"...\" }" など）をパースする
+ *
+ * 配列の要素の型はそのまま保ち、クォートのない文字列は文字列として扱う。
+ */
+export function parseTomlValue(text: string): TomlInlineValue {
+  const scanner = new TomlScanner(text)
+  const value = scanner.readInlineValue()
+  scanner.skipSpaces()
+  if (!scanner.done) throw scanner.error('unexpected characters after value')
+  return value
+}
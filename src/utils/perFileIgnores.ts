@@ -0,0 +1,122 @@
+import type { PerFileIgnores } from '../types/rules'
+import { getProfileStorageKey } from './profileStorage'
+import { getStorage } from './storageAdapters'
+import { reportStorageError } from './storageErrors'
+
+const STORAGE_KEY = 'per-file-ignores'
+
+// per-file-ignoresのストア（ruleSettingsStoreとは別のストレージキーに保存）
+class PerFileIgnoresStore {
+  private cache: PerFileIgnores | null = null
+
+  // 全てのパターンを取得（初回のみストレージから読み込む）
+  getAll(): PerFileIgnores {
+    if (this.cache) return this.cache
+
+    let data: PerFileIgnores = {}
+    if (typeof window !== 'undefined') {
+      try {
+        const stored = getStorage().getItem(getProfileStorageKey(STORAGE_KEY))
+        if (stored) data = JSON.parse(stored)
+      } catch (error) {
+        reportStorageError('per-file-ignoresを読み込めませんでした', error)
+      }
+    }
+
+    this.cache = data
+    return data
+  }
+
+  // ルールを除外しているパターンの一覧
+  getPatternsForRule(ruleCode: string): string[] {
+    return Object.entries(this.getAll())
+      .filter(([, codes]) => codes.includes(ruleCode))
+      .map(([pattern]) => pattern)
+  }
+
+  addPattern(pattern: string) {
+    const all = this.getAll()
+    if (pattern in all) return
+    this.save({ ...all, [pattern]: [] })
+  }
+
+  removePattern(pattern: string) {
+    const { [pattern]: _removed, ...rest } = this.getAll()
+    this.save(rest)
+  }
+
+  addRule(pattern: string, ruleCode: string) {
+    const codes = this.getAll()[pattern] ?? []
+    if (codes.includes(ruleCode)) return
+    this.save({
+      ...this.getAll(),
+      [pattern]: [...codes, ruleCode].sort(),
+    })
+  }
+
+  removeRule(pattern: string, ruleCode: string) {
+    const codes = this.getAll()[pattern]
+    if (!codes) return
+    this.save({
+      ...this.getAll(),
+      [pattern]: codes.filter((code) => code !== ruleCode),
+    })
+  }
+
+  // 既存のパターンにルールを追加する形でまとめて取り込む
+  merge(entries: PerFileIgnores) {
+    const merged = { ...this.getAll() }
+    for (const [pattern, codes] of Object.entries(entries)) {
+      merged[pattern] = [
+        ...new Set([...(merged[pattern] ?? []), ...codes]),
+      ].sort()
+    }
+    this.save(merged)
+  }
+
+  // 全てのパターンを削除
+  clear() {
+    this.cache = null
+    if (typeof window !== 'undefined') {
+      try {
+        getStorage().removeItem(getProfileStorageKey(STORAGE_KEY))
+      } catch (error) {
+        reportStorageError('per-file-ignoresを削除できませんでした', error)
+      }
+      this.notify()
+    }
+  }
+
+  // 全てのパターンを置き換える（履歴から元に戻す場合など）
+  replace(data: PerFileIgnores) {
+    this.save(data)
+  }
+
+  // プロファイルの切り替え後に読み込み直す
+  reload() {
+    this.cache = null
+    if (typeof window !== 'undefined') this.notify()
+  }
+
+  private save(data: PerFileIgnores) {
+    this.cache = data
+    if (typeof window !== 'undefined') {
+      try {
+        getStorage().setItem(
+          getProfileStorageKey(STORAGE_KEY),
+          JSON.stringify(data)
+        )
+      } catch (error) {
+        reportStorageError('per-file-ignoresを保存できませんでした', error)
+      }
+      this.notify()
+    }
+  }
+
+  private notify() {
+    window.dispatchEvent(new CustomEvent('per-file-ignores-updated'))
+  }
+}
+
+// グローバルインスタンス
+export const perFileIgnoresStore = new PerFileIgnoresStore()
@@ -0,0 +1,92 @@
+import type {
+  Preset,
+  PresetIgnore,
+  RuleInfo,
+  RuleSettings,
+} from '../types/rules'
+import { matchesSelector, selectorSpecificity } from './ruleSelector'
+
+// プリセットが変更するルールか（削除済みのルールは変更しない）
+function isInScope(preset: Preset, rule: RuleInfo): boolean {
+  if (rule.status === 'removed') return false
+  return (
+    !preset.scope ||
+    preset.scope.some((selector) => matchesSelector(rule, selector))
+  )
+}
+
+function isSelected(preset: Preset, rule: RuleInfo): boolean {
+  return preset.select.some((selector) => matchesSelector(rule, selector))
+}
+
+// ルールにマッチするignoreのうち最も具体的なもの
+function findIgnore(
+  rule: RuleInfo,
+  ignore: PresetIgnore[]
+): PresetIgnore | undefined {
+  return ignore
+    .filter((entry) => matchesSelector(rule, entry.selector))
+    .sort(
+      (a, b) =>
+        selectorSpecificity(b.selector) - selectorSpecificity(a.selector)
+    )[0]
+}
+
+/**
+ * プリセットを適用した場合の設定を返す（scope外のルールは含めない）
+ */
+export function buildPresetSettings(
+  preset: Preset,
+  rules: RuleInfo[]
+): RuleSettings {
+  const settings: RuleSettings = {}
+
+  for (const rule of rules.filter((r) => isInScope(preset, r))) {
+    const ignore = findIgnore(rule, preset.ignore)
+    if (ignore) {
+      settings[rule.code] = { enabled: false, comment: ignore.reason }
+    } else if (isSelected(preset, rule)) {
+      settings[rule.code] = { enabled: true }
+    } else {
+      settings[rule.code] = {
+        enabled: false,
+        comment: preset.unselectedReason,
+      }
+    }
+  }
+
+  return settings
+}
+
+/**
+ * プリセットのセレクタがルール一覧に存在するか検証し、問題の一覧を返す
+ */
+export function validatePreset(preset: Preset, rules: RuleInfo[]): string[] {
+  const active = rules.filter((rule) => rule.status !== 'removed')
+  const selectors = [
+    ...(preset.scope ?? []),
+    ...preset.select,
+    ...preset.ignore.map((entry) => entry.selector),
+  ]
+
+  const problems = selectors
+    .filter(
+      (selector) => !active.some((rule) => matchesSelector(rule, selector))
+    )
+    .map((selector) => `${preset.id}: ${selector} matches no rules`)
+
+  for (const entry of preset.ignore) {
+    if (!entry.reason.trim()) {
+      problems.push(`${preset.id}: ${entry.selector} has no reason`)
+    }
+  }
+
+  const hasUnselected = rules.some(
+    (rule) => isInScope(preset, rule) && !isSelected(preset, rule)
+  )
+  if (hasUnselected && !preset.unselectedReason) {
+    problems.push(`${preset.id}: unselected rules have no reason`)
+  }
+
+  return problems
+}
@@ -0,0 +1,99 @@
+// プロファイルごとの設定を保存するストレージのキー
+//
+// デフォルトのプロファイルはプレフィックスのないキー（"settings"）を使い、
+// それ以外のプロファイルはIDを前置する（"profile:<id>:settings"）。
+
+import { getStorage } from './storageAdapters'
+import { reportStorageError } from './storageErrors'
+
+export const DEFAULT_PROFILE_ID = 'default'
+
+export const ACTIVE_PROFILE_KEY = 'active-profile'
+const PROFILE_KEY_PREFIX = 'profile:'
+
+// プロファイルに属するキー（デフォルトのプロファイルはプレフィックスが無いため、
+// 同じオリジンの他のサイトのキーを複製・削除しないよう、RuffMateのキーに限る）
+const PROFILE_STORAGE_KEYS = [
+  'settings',
+  'history',
+  'per-file-ignores',
+  'rule-options',
+  'stale-settings-kept',
+]
+// バージョン1のルールごとのキー（"rule-E501"）
+const LEGACY_RULE_KEY_PATTERN = /^rule-[A-Z]+[0-9]+$/
+
+function isProfileKey(key: string): boolean {
+  return PROFILE_STORAGE_KEYS.includes(key) || LEGACY_RULE_KEY_PATTERN.test(key)
+}
+
+/**
+ * 選択中のプロファイルのID
+ */
+export function getActiveProfileId(): string {
+  if (typeof window === 'undefined') return DEFAULT_PROFILE_ID
+  try {
+    return getStorage().getItem(ACTIVE_PROFILE_KEY) || DEFAULT_PROFILE_ID
+  } catch (error) {
+    reportStorageError('選択中のプロファイルを読み込めませんでした', error)
+    return DEFAULT_PROFILE_ID
+  }
+}
+
+/**
+ * 選択中のプロファイルを保存する（失敗した場合はエラーを通知してfalseを返す）
+ */
+export function setActiveProfileId(profileId: string): boolean {
+  if (typeof window === 'undefined') return false
+  try {
+    if (profileId === DEFAULT_PROFILE_ID) {
+      getStorage().removeItem(ACTIVE_PROFILE_KEY)
+    } else {
+      getStorage().setItem(ACTIVE_PROFILE_KEY, profileId)
+    }
+    return true
+  } catch (error) {
+    reportStorageError('プロファイルを切り替えられませんでした', error)
+    return false
+  }
+}
+
+function getPrefix(profileId: string): string {
+  return profileId === DEFAULT_PROFILE_ID
+    ? ''
+    : `${PROFILE_KEY_PREFIX}${profileId}:`
+}
+
+/**
+ * プロファイル内のキーをストレージのキーに変換（省略時は選択中のプロファイル）
+ */
+export function getProfileStorageKey(
+  key: string,
+  profileId: string = getActiveProfileId()
+): string {
+  return `${getPrefix(profileId)}${key}`
+}
+
+/**
+ * プロファイルに保存されているRuffMateのキーの一覧（プレフィックスを除いたもの）
+ */
+export function getProfileKeys(profileId: string): string[] {
+  if (typeof window === 'undefined') return []
+
+  const prefix = getPrefix(profileId)
+  const keys: string[] = []
+  for (const key of getStorage().keys()) {
+    if (!key.startsWith(prefix)) continue
+
+    const profileKey = key.slice(prefix.length)
+    // デフォルトのプロファイルには他のプロファイルのキーを含めない
+    if (
+      profileId === DEFAULT_PROFILE_ID &&
+      key.startsWith(PROFILE_KEY_PREFIX)
+    ) {
+      continue
+    }
+    if (isProfileKey(profileKey)) keys.push(profileKey)
+  }
+  return keys.sort()
+}
@@ -0,0 +1,214 @@
+import { historyStore } from './history'
+import { perFileIgnoresStore } from './perFileIgnores'
+import {
+  DEFAULT_PROFILE_ID,
+  getActiveProfileId,
+  getProfileKeys,
+  getProfileStorageKey,
+  setActiveProfileId,
+} from './profileStorage'
+import { ruleOptionsStore } from './ruleOptions'
+import { ruleSettingsStore } from './ruleSettings'
+import { getStorage } from './storageAdapters'
+import { reportStorageError } from './storageErrors'
+
+const STORAGE_KEY = 'profiles'
+
+// 設定のプロファイル（ライブラリ用・サービス用など）
+export interface Profile {
+  id: string
+  name: string
+}
+
+// profile-changedイベントのdetail
+export interface ProfileChangedDetail {
+  profileId: string
+}
+
+const DEFAULT_PROFILE: Profile = { id: DEFAULT_PROFILE_ID, name: 'デフォルト' }
+
+// プロファイルの一覧と切り替えを管理するストア
+class ProfileStore {
+  private cache: Profile[] | null = null
+
+  // 全てのプロファイルを取得（初回のみストレージから読み込む）
+  getAll(): Profile[] {
+    if (this.cache) return this.cache
+
+    let data: Profile[] = [DEFAULT_PROFILE]
+    if (typeof window !== 'undefined') {
+      try {
+        const stored = getStorage().getItem(STORAGE_KEY)
+        if (stored) data = JSON.parse(stored)
+      } catch (error) {
+        reportStorageError('プロファイルの一覧を読み込めませんでした', error)
+      }
+    }
+
+    this.cache = data
+    return data
+  }
+
+  // 選択中のプロファイル（削除されていた場合は先頭のプロファイル）
+  getActive(): Profile {
+    const profiles = this.getAll()
+    const activeId = getActiveProfileId()
+    return profiles.find((p) => p.id === activeId) ?? profiles[0]
+  }
+
+  // 空のプロファイルを作成して切り替える
+  create(name: string): Profile {
+    const profile = { id: this.generateId(), name: this.validateName(name) }
+    this.save([...this.getAll(), profile])
+    this.switch(profile.id)
+    return profile
+  }
+
+  rename(profileId: string, name: string) {
+    const validName = this.validateName(name, profileId)
+    this.save(
+      this.getAll().map((p) =>
+        p.id === profileId ? { ...p, name: validName } : p
+      )
+    )
+  }
+
+  // 設定をコピーしたプロファイルを作成して切り替える
+  duplicate(profileId: string, name: string): Profile {
+    const profile = { id: this.generateId(), name: this.validateName(name) }
+    if (typeof window !== 'undefined') {
+      try {
+        for (const key of getProfileKeys(profileId)) {
+          const value = getStorage().getItem(
+            getProfileStorageKey(key, profileId)
+          )
+          if (value !== null) {
+            getStorage().setItem(getProfileStorageKey(key, profile.id), value)
+          }
+        }
+      } catch (error) {
+        // コピーの途中で失敗した場合は、コピー済みの設定を残さない
+        reportStorageError('プロファイルの設定をコピーできませんでした', error)
+        this.removeProfileKeys(profile.id)
+        throw new Error('Failed to copy profile settings')
+      }
+    }
+    this.save([...this.getAll(), profile])
+    this.switch(profile.id)
+    return profile
+  }
+
+  // プロファイルと設定を削除（最後の1つとデフォルトのプロファイルは削除できない）
+  delete(profileId: string) {
+    const profiles = this.getAll()
+    if (profiles.length <= 1) {
+      throw new Error('Cannot delete the last profile')
+    }
+    if (profileId === DEFAULT_PROFILE_ID) {
+      throw new Error('Cannot delete the default profile')
+    }
+
+    const wasActive = this.getActive().id === profileId
+    if (!this.removeProfileKeys(profileId)) return
+    const remaining = profiles.filter((p) => p.id !== profileId)
+    this.save(remaining)
+    if (wasActive) this.switch(remaining[0].id)
+  }
+
+  // プロファイルを切り替え、各ストアに読み込み直させる
+  switch(profileId: string) {
+    if (!this.getAll().some((p) => p.id === profileId)) {
+      throw new Error(`Unknown profile: ${profileId}`)
+    }
+
+    if (!setActiveProfileId(profileId)) return
+    this.reloadActive()
+  }
+
+  // 選択中のプロファイルの設定を各ストアに読み込み直させる（他のタブで切り替えた場合など）
+  reloadActive() {
+    ruleSettingsStore.clearCache()
+    perFileIgnoresStore.reload()
+    ruleOptionsStore.reload()
+    historyStore.reload()
+
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(
+        new CustomEvent<ProfileChangedDetail>('profile-changed', {
+          detail: { profileId: getActiveProfileId() },
+        })
+      )
+    }
+  }
+
+  // 他のタブで変更されたプロファイルの一覧を読み込み直す
+  reload() {
+    this.cache = null
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent('profiles-updated'))
+    }
+  }
+
+  // デフォルト以外のプロファイルを設定ごと削除し、デフォルトのプロファイルに戻す
+  clear() {
+    if (typeof window !== 'undefined') {
+      for (const profile of this.getAll()) {
+        if (profile.id !== DEFAULT_PROFILE_ID)
+          this.removeProfileKeys(profile.id)
+      }
+      try {
+        getStorage().removeItem(STORAGE_KEY)
+      } catch (error) {
+        reportStorageError('プロファイルの一覧を削除できませんでした', error)
+      }
+      setActiveProfileId(DEFAULT_PROFILE_ID)
+    }
+    this.cache = null
+  }
+
+  // プロファイルの設定をストレージから削除（失敗した場合はエラーを通知してfalseを返す）
+  private removeProfileKeys(profileId: string): boolean {
+    if (typeof window === 'undefined') return true
+    try {
+      for (const key of getProfileKeys(profileId)) {
+        getStorage().removeItem(getProfileStorageKey(key, profileId))
+      }
+      return true
+    } catch (error) {
+      reportStorageError('プロファイルの設定を削除できませんでした', error)
+      return false
+    }
+  }
+
+  private validateName(name: string, profileId?: string): string {
+    // エクスポートのコメントに含めるため改行などは空白にする
+    const trimmed = name.replace(/\s+/g, ' ').trim()
+    if (!trimmed) throw new Error('Profile name is empty')
+    if (this.getAll().some((p) => p.name === trimmed && p.id !== profileId)) {
+      throw new Error(`Profile already exists: ${trimmed}`)
+    }
+    return trimmed
+  }
+
+  private generateId(): string {
+    const ids = new Set(this.getAll().map((p) => p.id))
+    let id = Date.now().toString(36)
+    while (ids.has(id)) id += '0'
+    return id
+  }
+
+  private save(data: Profile[]) {
+    this.cache = data
+    if (typeof window !== 'undefined') {
+      try {
+        getStorage().setItem(STORAGE_KEY, JSON.stringify(data))
+      } catch (error) {
+        reportStorageError('プロファイルの一覧を保存できませんでした', error)
+      }
+      window.dispatchEvent(new CustomEvent('profiles-updated'))
+    }
+  }
+}
+
+// グローバルインスタンス
+export const profileStore = new ProfileStore()
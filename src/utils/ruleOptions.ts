@@ -0,0 +1,126 @@
+import type { RuleOptions } from '../types/rules'
+import { parseTomlValue, type TomlInlineValue } from './parseToml'
+import { getProfileStorageKey } from './profileStorage'
+import { getStorage } from './storageAdapters'
+import { reportStorageError } from './storageErrors'
+
+const STORAGE_KEY = 'rule-options'
+
+// インラインテーブルのキー（英数字・"_"・"-" 以外を含む場合はクォートする）
+function formatKey(key: string): string {
+  return /^[A-Za-z0-9_-]+$/.test(key) ? key : JSON.stringify(key)
+}
+
+function formatValue(value: TomlInlineValue): string {
+  if (Array.isArray(value)) return `[${value.map(formatValue).join(', ')}]`
+  if (typeof value === 'object') {
+    const entries = Object.entries(value).map(
+      ([key, item]) => `${formatKey(key)} = ${formatValue(item)}`
+    )
+    return entries.length > 0 ? `{ ${entries.join(', ')} }` : '{}'
+  }
+  return typeof value === 'string' ? JSON.stringify(value) : String(value)
+}
+
+/**
+ * 入力された値をTOMLの値として整形
+ *
+ * 真偽値・数値・文字列・配列・インラインテーブルに対応し、
+ * クォートのない文字列（"google" など）は文字列として扱う。
+ * 配列の要素は型を保つ（"[1, 2]" の要素は数値のまま）。
+ */
+export function formatOptionValue(input: string): string {
+  const text = input.trim()
+  if (!text) throw new Error('Option value is empty')
+
+  return formatValue(parseTomlValue(text))
+}
+
+/**
+ * 設定キーのドキュメントURL（"lint.mccabe.max-complexity" → "#lint_mccabe_max-complexity"）
+ */
+export function getOptionDocumentUrl(optionKey: string): string {
+  return `https://docs.astral.sh/ruff/settings/#${optionKey.replace(/\./g, '_')}`
+}
+
+// ルールの設定値のストア（設定キーごとに保存し、同じキーを使うルール間で共有）
+class RuleOptionsStore {
+  private cache: RuleOptions | null = null
+
+  // 全ての設定値を取得（初回のみストレージから読み込む）
+  getAll(): RuleOptions {
+    if (this.cache) return this.cache
+
+    let data: RuleOptions = {}
+    if (typeof window !== 'undefined') {
+      try {
+        const stored = getStorage().getItem(getProfileStorageKey(STORAGE_KEY))
+        if (stored) data = JSON.parse(stored)
+      } catch (error) {
+        reportStorageError('ルールの設定値を読み込めませんでした', error)
+      }
+    }
+
+    this.cache = data
+    return data
+  }
+
+  get(optionKey: string): string | undefined {
+    return this.getAll()[optionKey]
+  }
+
+  set(optionKey: string, value: string) {
+    this.save({ ...this.getAll(), [optionKey]: value })
+  }
+
+  remove(optionKey: string) {
+    const { [optionKey]: _removed, ...rest } = this.getAll()
+    this.save(rest)
+  }
+
+  // 全ての設定値を削除
+  clear() {
+    this.cache = null
+    if (typeof window !== 'undefined') {
+      try {
+        getStorage().removeItem(getProfileStorageKey(STORAGE_KEY))
+      } catch (error) {
+        reportStorageError('ルールの設定値を削除できませんでした', error)
+      }
+      this.notify()
+    }
+  }
+
+  // 全ての設定値を置き換える（履歴から元に戻す場合など）
+  replace(data: RuleOptions) {
+    this.save(data)
+  }
+
+  // プロファイルの切り替え後に読み込み直す
+  reload() {
+    this.cache = null
+    if (typeof window !== 'undefined') this.notify()
+  }
+
+  private save(data: RuleOptions) {
+    this.cache = data
+    if (typeof window !== 'undefined') {
+      try {
+        getStorage().setItem(
+          getProfileStorageKey(STORAGE_KEY),
+          JSON.stringify(data)
+        )
+      } catch (error) {
+        reportStorageError('ルールの設定値を保存できませんでした', error)
+      }
+      this.notify()
+    }
+  }
+
+  private notify() {
+    window.dispatchEvent(new CustomEvent('rule-options-updated'))
+  }
+}
+
+// グローバルインスタンス
+export const ruleOptionsStore = new RuleOptionsStore()
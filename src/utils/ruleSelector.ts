@@ -0,0 +1,47 @@
+import type { RuleInfo } from '../types/rules'
+
+/**
+ * セレクタがルールにマッチするか判定
+ *
+ * Ruffのセレクタは "ALL"、リンター（"D", "PL"）、コードのプレフィックス
+ * （"D2", "PLR09"）、ルールコードそのもの（"E501"）のいずれか。
+ * 単純な前方一致だと "E" が "ERA001" にもマッチしてしまうため、
+ * セレクタのアルファベット部分がカテゴリコードと一致する場合のみマッチとする。
+ */
+export function matchesSelector(rule: RuleInfo, selector: string): boolean {
+  if (selector === 'ALL') return true
+  if (!rule.code.startsWith(selector)) return false
+
+  const alpha = selector.match(/^[A-Z]+/)?.[0] ?? ''
+  // "PL" はPylint全体（PLC/PLE/PLR/PLW）を表す
+  return (
+    alpha === rule.categoryCode ||
+    (alpha === 'PL' && rule.categoryCode.startsWith('PL'))
+  )
+}
+
+/**
+ * セレクタにマッチするルールの一覧を取得
+ */
+export function resolveSelector(
+  rules: RuleInfo[],
+  selector: string
+): RuleInfo[] {
+  return rules.filter((rule) => matchesSelector(rule, selector))
+}
+
+/**
+ * セレクタの具体度（大きいほど具体的）
+ *
+ * selectとignoreの両方にマッチした場合は、より具体的なセレクタが優先される。
+ */
+export function selectorSpecificity(selector: string): number {
+  return selector === 'ALL' ? 0 : selector.length
+}
+
+/**
+ * 設定ファイルに書かれたセレクタを正規化
+ */
+export function normalizeSelector(selector: string): string {
+  return selector.trim().toUpperCase()
+}
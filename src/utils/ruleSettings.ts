@@ -1,19 +1,37 @@
+import type { RuleSettings } from '../types/rules'
+import { historyStore, isSameSetting } from './history'
+import {
+  SETTINGS_SCHEMA_VERSION,
+  loadSettingsDocument,
+  saveSettingsDocument,
+  type SettingsDocument,
+} from './settingsStorage'
+
 // グローバルな設定ストア
-interface RuleSettingData {
+export interface RuleSettingData {
   enabled: boolean
   comment?: string
+  unfixable?: boolean
 }
 
 type LoadCallback = (data: RuleSettingData) => void
 
+// settings-updatedイベントのdetail
+export interface SettingsUpdatedDetail {
+  ruleCodes: string[]
+}
+
 class RuleSettingsStore {
+  // 選択中のプロファイルの設定のドキュメント（初回のみストレージから読み込む）
+  private document: SettingsDocument | null = null
+  // 読み込み済みのルールの設定（getSyncはここだけを見る）
   private cache: Map<string, RuleSettingData> = new Map()
   private loadQueue: Array<{ ruleCode: string; callback: LoadCallback }> = []
   private isProcessing = false
   private readonly BATCH_SIZE = 50 // 50個ずつ処理
   private readonly BATCH_DELAY = 16 // 16ms間隔（1フレーム）
 
-  // 同期取得（キャッシュのみ、localStorageは読まない）
+  // 同期取得（キャッシュのみ、ストレージは読まない）
   getSync(ruleCode: string): RuleSettingData {
     if (this.cache.has(ruleCode)) {
       return this.cache.get(ruleCode)!
@@ -22,31 +40,17 @@ class RuleSettingsStore {
     return { enabled: true }
   }
 
-  // 同期取得（キャッシュ + localStorage）
+  // 同期取得（キャッシュ + ストレージ）
   getSyncWithStorage(ruleCode: string): RuleSettingData {
     // キャッシュにあれば即座に返す
     if (this.cache.has(ruleCode)) {
       return this.cache.get(ruleCode)!
     }
 
-    // localStorageから同期で読み込み
-    if (typeof window !== 'undefined') {
-      try {
-        const stored = localStorage.getItem(`rule-${ruleCode}`)
-        if (stored) {
-          const data = JSON.parse(stored)
-          this.cache.set(ruleCode, data)
-          return data
-        }
-      } catch (error) {
-        console.error(`Failed to load ${ruleCode}:`, error)
-      }
-    }
-
-    // デフォルト値を返してキャッシュに保存
-    const defaultValue = { enabled: true }
-    this.cache.set(ruleCode, defaultValue)
-    return defaultValue
+    // 保存されていなければデフォルト値をキャッシュに保存
+    const data = this.getDocument().rules[ruleCode] ?? { enabled: true }
+    this.cache.set(ruleCode, data)
+    return data
   }
 
   // 非同期読み込み（キューに追加してバッチ処理）
@@ -78,30 +82,9 @@ class RuleSettingsStore {
     requestAnimationFrame(() => {
       const batch = this.loadQueue.splice(0, this.BATCH_SIZE)
 
-      // バッチ内の全てのルールをlocalStorageから読み込み
+      // バッチ内の全てのルールを読み込み
       for (const { ruleCode, callback } of batch) {
-        let data: RuleSettingData
-
-        if (typeof window !== 'undefined') {
-          try {
-            const stored = localStorage.getItem(`rule-${ruleCode}`)
-            if (stored) {
-              data = JSON.parse(stored)
-              this.cache.set(ruleCode, data)
-            } else {
-              data = { enabled: true }
-              this.cache.set(ruleCode, data)
-            }
-          } catch (error) {
-            console.error(`Failed to load ${ruleCode}:`, error)
-            data = { enabled: true }
-            this.cache.set(ruleCode, data)
-          }
-        } else {
-          data = { enabled: true }
-        }
-
-        callback(data)
+        callback(this.getSyncWithStorage(ruleCode))
       }
 
       // 次のバッチを処理（遅延を入れる）
@@ -113,30 +96,143 @@ class RuleSettingsStore {
     })
   }
 
-  // 設定を保存（キャッシュも更新）
+  // 設定を保存（キャッシュも更新）し、履歴に記録
   set(ruleCode: string, data: RuleSettingData) {
-    this.cache.set(ruleCode, data)
-    if (typeof window !== 'undefined') {
-      localStorage.setItem(`rule-${ruleCode}`, JSON.stringify(data))
+    const before = this.getSyncWithStorage(ruleCode)
+    this.write(ruleCode, data)
+    this.persist()
+    historyStore.record({
+      action: 'change',
+      changes: [{ ruleCode, before, after: data }],
+    })
+  }
+
+  // 複数の設定をまとめて保存し、マウント済みのコンポーネントに通知
+  // unfixableを指定しない場合は現在の値を保持する（有効/無効とは独立した設定のため）
+  // まとめて1件の履歴に記録する
+  setMany(settings: RuleSettings) {
+    const ruleCodes = Object.keys(settings)
+    const changes = ruleCodes.map((ruleCode) => {
+      const before = this.getSyncWithStorage(ruleCode)
+      const { unfixable = before.unfixable, ...rest } = settings[ruleCode]
+      const after = unfixable ? { ...rest, unfixable } : rest
+      this.write(ruleCode, after)
+      return { ruleCode, before, after }
+    })
+    this.persist()
+
+    historyStore.record({ action: 'change', changes })
+    this.notify(ruleCodes)
+  }
+
+  // 履歴やバックアップから設定を復元する（履歴には記録しない）
+  // デフォルト値の設定はストレージから削除する
+  // keepDefaultsの場合は、有効のまま残すと判断したルールとして保存する
+  restore(settings: RuleSettings, keepDefaults = false) {
+    const ruleCodes = Object.keys(settings)
+    for (const ruleCode of ruleCodes) {
+      const data = settings[ruleCode]
+      if (!keepDefaults && isSameSetting(data, { enabled: true })) {
+        this.delete(ruleCode)
+      } else {
+        this.write(ruleCode, data)
+      }
     }
+
+    this.persist()
+    this.notify(ruleCodes)
   }
 
-  // 全ての設定をリセット（キャッシュ + localStorage）
-  clearAll() {
+  // 保存されている全てのルールの設定（デフォルト値のルールは含まない）
+  getAll(): RuleSettings {
+    return { ...this.getDocument().rules }
+  }
+
+  // 設定が保存されている全てのルールコード
+  getStoredCodes(): string[] {
+    return Object.keys(this.getDocument().rules).sort()
+  }
+
+  // 設定を削除（デフォルト値に戻る）し、マウント済みのコンポーネントに通知
+  remove(ruleCode: string) {
+    const before = this.getSyncWithStorage(ruleCode)
+    this.delete(ruleCode)
+    this.persist()
+    historyStore.record({
+      action: 'change',
+      changes: [{ ruleCode, before, after: { enabled: true } }],
+    })
+    this.notify([ruleCode])
+  }
+
+  // キャッシュのみを破棄（プロファイルの切り替え後に読み込み直す）
+  clearCache() {
+    this.document = null
     this.cache.clear()
     this.loadQueue = []
     this.isProcessing = false
+  }
 
-    if (typeof window !== 'undefined') {
-      try {
-        // localStorage から全ての rule-* キーを削除
-        const keysToDelete = Object.keys(localStorage).filter((key) =>
-          key.startsWith('rule-')
+  // 他のタブで保存された設定を読み込み直し、変更されたルールを通知する
+  reload() {
+    // まだ読み込んでいない場合は、最初に読み込むときに最新の設定が使われる
+    if (!this.document) return
+
+    const previous = this.document.rules
+    this.document = loadSettingsDocument()
+    const { rules } = this.document
+
+    const ruleCodes = [
+      ...new Set([...Object.keys(previous), ...Object.keys(rules)]),
+    ].filter(
+      (ruleCode) =>
+        !isSameSetting(
+          previous[ruleCode] ?? { enabled: true },
+          rules[ruleCode] ?? { enabled: true }
         )
-        keysToDelete.forEach((key) => localStorage.removeItem(key))
-      } catch (error) {
-        console.error('Failed to clear localStorage:', error)
-      }
+    )
+    for (const ruleCode of ruleCodes) {
+      this.cache.set(ruleCode, rules[ruleCode] ?? { enabled: true })
+    }
+
+    if (ruleCodes.length > 0) this.notify(ruleCodes)
+  }
+
+  // 選択中のプロファイルの全ての設定をリセット（キャッシュ + ストレージ）
+  clearAll() {
+    this.clearCache()
+    saveSettingsDocument({ version: SETTINGS_SCHEMA_VERSION, rules: {} })
+  }
+
+  private getDocument(): SettingsDocument {
+    this.document ??= loadSettingsDocument()
+    return this.document
+  }
+
+  // キャッシュとドキュメントを更新する（保存はpersistでまとめて行う）
+  private write(ruleCode: string, data: RuleSettingData) {
+    this.cache.set(ruleCode, data)
+    this.getDocument().rules[ruleCode] = data
+  }
+
+  private delete(ruleCode: string) {
+    this.cache.delete(ruleCode)
+    delete this.getDocument().rules[ruleCode]
+  }
+
+  // 保存に失敗してもメモリ上の設定は保持し、エラーはトーストで通知される
+  private persist() {
+    saveSettingsDocument(this.getDocument())
+  }
+
+  // マウント済みのコンポーネントに変更を通知
+  private notify(ruleCodes: string[]) {
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(
+        new CustomEvent<SettingsUpdatedDetail>('settings-updated', {
+          detail: { ruleCodes },
+        })
+      )
     }
   }
 }
@@ -0,0 +1,86 @@
+import type { RuffRule, RuleInfo, RulesData } from '../types/rules'
+
+// fetch-rulesが保存したバージョンごとのスナップショット
+// （ビルド時にのみ読み込む。クライアント側のコンポーネントからはimportしないこと）
+const snapshots = import.meta.glob<RulesData>('../data/rules/*.json', {
+  eager: true,
+  import: 'default',
+})
+
+/**
+ * バージョン文字列を比較（"0.4.10" < "0.14.0"）
+ */
+export function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map(Number)
+  const pb = b.split('.').map(Number)
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] || 0) - (pb[i] || 0)
+    if (diff !== 0) return diff
+  }
+  return 0
+}
+
+/**
+ * スナップショットをバージョンごとにまとめる（新しい順）
+ */
+export function indexSnapshots(data: RulesData[]): Map<string, RulesData> {
+  return new Map(
+    [...data]
+      .sort((a, b) => compareVersions(b.version.version, a.version.version))
+      .map((rulesData) => [rulesData.version.version, rulesData])
+  )
+}
+
+const database = indexSnapshots(Object.values(snapshots))
+
+/**
+ * 利用できるRuffのバージョン一覧（新しい順）
+ */
+export function getAvailableVersions(): string[] {
+  return [...database.keys()]
+}
+
+/**
+ * 指定したバージョンのルール一覧（省略時は最新のバージョン）
+ */
+export function getRulesData(version?: string): RulesData {
+  const data = version ? database.get(version) : database.values().next().value
+  if (!data) {
+    throw new Error(
+      version
+        ? `No rules snapshot for Ruff ${version}`
+        : 'No rules snapshot found. Run `npm run fetch-rules` first.'
+    )
+  }
+  return data
+}
+
+/**
+ * バージョンごとのページのパス（最新版はトップページ）
+ */
+export function getVersionPath(
+  base: string,
+  version: string,
+  latestVersion: string
+): string {
+  const root = base.endsWith('/') ? base : `${base}/`
+  return version === latestVersion ? root : `${root}v/${version}/`
+}
+
+/**
+ * アイランドに渡すルールの情報
+ *
+ * propsはアイランドごとにHTMLへ埋め込まれるため、説明や例のような
+ * 設定の読み書きに使わない長いテキストは含めない。
+ */
+export function toRuleInfo(rule: RuffRule): RuleInfo {
+  const { code, name, category, categoryCode, status, fixAvailability } = rule
+  return {
+    code,
+    name,
+    category,
+    categoryCode,
+    status,
+    ...(fixAvailability && { fixAvailability }),
+  }
+}
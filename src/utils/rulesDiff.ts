@@ -0,0 +1,103 @@
+import type { RuffRule, RulesData } from '../types/rules'
+
+// ステータスが変わったルール
+export interface RuleStatusChange {
+  rule: RuffRule // 新しいバージョンのルール
+  before: RuffRule['status']
+  after: RuffRule['status']
+}
+
+// 2つのバージョン間のルールの差分
+export interface RulesDiff {
+  from: string // 比較元のRuffバージョン
+  to: string // 比較先のRuffバージョン
+  added: RuffRule[] // 新しく追加されたルール
+  removed: RuffRule[] // rules.jsonから消えたルール（比較元のルール）
+  statusChanges: RuleStatusChange[]
+}
+
+/**
+ * 2つのスナップショットを比較し、追加・削除・ステータスが変わったルールを返す
+ */
+export function diffRules(from: RulesData, to: RulesData): RulesDiff {
+  const before = new Map(from.rules.map((rule) => [rule.code, rule]))
+  const after = new Map(to.rules.map((rule) => [rule.code, rule]))
+  const byCode = (a: { code: string }, b: { code: string }) =>
+    a.code.localeCompare(b.code)
+
+  return {
+    from: from.version.version,
+    to: to.version.version,
+    added: to.rules.filter((rule) => !before.has(rule.code)).sort(byCode),
+    removed: from.rules.filter((rule) => !after.has(rule.code)).sort(byCode),
+    statusChanges: to.rules
+      .filter((rule) => {
+        const old = before.get(rule.code)
+        return old !== undefined && old.status !== rule.status
+      })
+      .map((rule) => ({
+        rule,
+        before: before.get(rule.code)!.status,
+        after: rule.status,
+      }))
+      .sort((a, b) => byCode(a.rule, b.rule)),
+  }
+}
+
+// ステータス変更の見出し（レビューで注目したい順）
+const STATUS_CHANGE_GROUPS: {
+  title: string
+  matches: (change: RuleStatusChange) => boolean
+}[] = [
+  {
+    title: 'Promoted to stable',
+    matches: (change) => change.after === 'stable',
+  },
+  {
+    title: 'Deprecated',
+    matches: (change) => change.after === 'deprecated',
+  },
+  {
+    title: 'Marked as removed',
+    matches: (change) => change.after === 'removed',
+  },
+  {
+    title: 'Moved to preview',
+    matches: (change) => change.after === 'preview',
+  },
+]
+
+function formatRule(rule: RuffRule): string {
+  return `- [\`${rule.code}\`](${rule.documentUrl}) ${rule.name}`
+}
+
+function formatSection(title: string, lines: string[]): string {
+  if (lines.length === 0) return ''
+  return `\n## ${title} (${lines.length})\n\n${lines.join('\n')}\n`
+}
+
+/**
+ * 差分をMarkdownの変更履歴として出力
+ */
+export function formatRulesDiffMarkdown(diff: RulesDiff): string {
+  const sections = [
+    formatSection(
+      'Added',
+      diff.added.map((rule) => `${formatRule(rule)} (${rule.status})`)
+    ),
+    formatSection('Removed', diff.removed.map(formatRule)),
+    ...STATUS_CHANGE_GROUPS.map(({ title, matches }) =>
+      formatSection(
+        title,
+        diff.statusChanges
+          .filter(matches)
+          .map(
+            (change) =>
+              `${formatRule(change.rule)} (${change.before} → ${change.after})`
+          )
+      )
+    ),
+  ].join('')
+
+  return `# Ruff rule changes: ${diff.from} → ${diff.to}\n${sections || '\nNo rule changes.\n'}`
+}
@@ -0,0 +1,40 @@
+import type { RuleInfo, RuleSettings } from '../types/rules'
+import { ruleSettingsStore, type RuleSettingData } from './ruleSettings'
+
+// 1ルール分の変更内容
+export interface SettingsChange {
+  rule: RuleInfo
+  before: RuleSettingData
+  after: RuleSettingData
+}
+
+function isSameSetting(a: RuleSettingData, b: RuleSettingData): boolean {
+  return (
+    a.enabled === b.enabled &&
+    (a.comment || '') === (b.comment || '') &&
+    // unfixableを指定しない場合は現在の値が保持される
+    (b.unfixable === undefined || !!a.unfixable === b.unfixable)
+  )
+}
+
+/**
+ * 現在の設定と適用予定の設定を比較し、変更されるルールの一覧を返す
+ */
+export function diffSettings(
+  rules: RuleInfo[],
+  proposed: RuleSettings
+): SettingsChange[] {
+  const changes: SettingsChange[] = []
+
+  for (const rule of rules) {
+    const after = proposed[rule.code]
+    if (!after) continue
+
+    const before = ruleSettingsStore.getSyncWithStorage(rule.code)
+    if (!isSameSetting(before, after)) {
+      changes.push({ rule, before, after })
+    }
+  }
+
+  return changes.sort((a, b) => a.rule.code.localeCompare(b.rule.code))
+}
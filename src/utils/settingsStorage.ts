@@ -0,0 +1,237 @@
+import {
+  getActiveProfileId,
+  getProfileKeys,
+  getProfileStorageKey,
+} from './profileStorage'
+import type { RuleSettingData } from './ruleSettings'
+import { getStorage } from './storageAdapters'
+import { reportStorageError } from './storageErrors'
+
+// ルール設定のドキュメントを保存するキー（プロファイルごと）
+const STORAGE_KEY = 'settings'
+
+/**
+ * 現在のスキーマのバージョン
+ *
+ * 1: ルールごとのキー（"rule-E501"）に保存していた形式
+ * 2: 全てのルールの設定を1つのドキュメントに保存する形式
+ */
+export const SETTINGS_SCHEMA_VERSION = 2
+
+export interface SettingsDocument {
+  version: number
+  rules: Record<string, RuleSettingData>
+}
+
+interface Migration {
+  version: number // 移行後のバージョン
+  migrate: (doc: SettingsDocument, profileId: string) => SettingsDocument
+  // 移行後のドキュメントの保存に成功してから古いデータを削除する
+  cleanup?: (profileId: string) => void
+}
+
+// バージョン1のキーの形式（"rule-options" などの他のストアのキーと区別する）
+const LEGACY_RULE_KEY_PATTERN = /^rule-([A-Z]+[0-9]+)$/
+
+function getLegacyRuleKeys(profileId: string): string[] {
+  return getProfileKeys(profileId).filter((key) =>
+    LEGACY_RULE_KEY_PATTERN.test(key)
+  )
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    // ルールごとのキーを1つのドキュメントにまとめる
+    version: 2,
+    migrate: (doc, profileId) => {
+      const rules = { ...doc.rules }
+      for (const key of getLegacyRuleKeys(profileId)) {
+        const ruleCode = key.replace(LEGACY_RULE_KEY_PATTERN, '$1')
+        try {
+          const stored = getStorage().getItem(
+            getProfileStorageKey(key, profileId)
+          )
+          if (stored) rules[ruleCode] = JSON.parse(stored)
+        } catch (error) {
+          reportStorageError(`${ruleCode} の設定を読み込めませんでした`, error)
+        }
+      }
+      return { version: 2, rules }
+    },
+    cleanup: (profileId) => {
+      for (const key of getLegacyRuleKeys(profileId)) {
+        getStorage().removeItem(getProfileStorageKey(key, profileId))
+      }
+    },
+  },
+]
+
+/**
+ * 古いバージョンのドキュメントを現在のバージョンに移行する
+ */
+export function migrateSettingsDocument(
+  doc: SettingsDocument,
+  profileId: string
+): SettingsDocument {
+  return MIGRATIONS.filter((m) => m.version > doc.version).reduce(
+    (migrated, m) => m.migrate(migrated, profileId),
+    doc
+  )
+}
+
+// 保存された値がドキュメントの形式か（nullやrulesの無いものを除く）
+function isSettingsDocument(value: unknown): value is SettingsDocument {
+  if (typeof value !== 'object' || value === null) return false
+  const { version, rules } = value as Record<string, unknown>
+  return (
+    typeof version === 'number' &&
+    typeof rules === 'object' &&
+    rules !== null &&
+    !Array.isArray(rules)
+  )
+}
+
+/**
+ * プロファイルのルール設定を読み込む
+ *
+ * 古いバージョンの場合は移行して保存し、移行前のデータを削除する。
+ * 新しいバージョンの場合は警告してそのまま返す（saveSettingsDocumentは保存しない）。
+ * 読み込めない場合はエラーを通知し、空の設定を返す。
+ */
+export function loadSettingsDocument(
+  profileId: string = getActiveProfileId()
+): SettingsDocument {
+  const empty = { version: SETTINGS_SCHEMA_VERSION, rules: {} }
+  if (typeof window === 'undefined') return empty
+
+  let doc: SettingsDocument
+  try {
+    const stored = getStorage().getItem(
+      getProfileStorageKey(STORAGE_KEY, profileId)
+    )
+    // ドキュメントが無い場合はバージョン1（ルールごとのキー）として移行する
+    const parsed: unknown = stored
+      ? JSON.parse(stored)
+      : { version: 1, rules: {} }
+    if (!isSettingsDocument(parsed)) {
+      throw new Error('Invalid settings document')
+    }
+    doc = parsed
+  } catch (error) {
+    reportStorageError('保存されたルールの設定を読み込めませんでした', error)
+    return empty
+  }
+
+  if (doc.version > SETTINGS_SCHEMA_VERSION) {
+    reportStorageError(
+      '新しいバージョンのRuffMateで保存された設定のため、正しく読み込めない可能性があります（変更は保存されません）',
+      new Error(`Unsupported settings version: ${doc.version}`)
+    )
+    return doc
+  }
+  if (doc.version === SETTINGS_SCHEMA_VERSION) return doc
+
+  const pending = MIGRATIONS.filter((m) => m.version > doc.version)
+  const migrated = migrateSettingsDocument(doc, profileId)
+  if (saveSettingsDocument(migrated, profileId)) {
+    for (const m of pending) m.cleanup?.(profileId)
+  }
+  return migrated
+}
+
+/**
+ * プロファイルのルール設定を保存する（失敗した場合はエラーを通知してfalseを返す）
+ *
+ * 新しいバージョンのドキュメントは、現在のバージョンの形式で上書きすると
+ * データが失われるため保存しない。
+ */
+export function saveSettingsDocument(
+  doc: SettingsDocument,
+  profileId: string = getActiveProfileId()
+): boolean {
+  if (typeof window === 'undefined') return false
+  if (doc.version > SETTINGS_SCHEMA_VERSION) {
+    reportStorageError(
+      '新しいバージョンのRuffMateで保存された設定のため、変更を保存できませんでした',
+      new Error(`Unsupported settings version: ${doc.version}`)
+    )
+    return false
+  }
+
+  try {
+    getStorage().setItem(
+      getProfileStorageKey(STORAGE_KEY, profileId),
+      JSON.stringify({ version: SETTINGS_SCHEMA_VERSION, rules: doc.rules })
+    )
+    return true
+  } catch (error) {
+    reportStorageError('ルールの設定を保存できませんでした', error)
+    return false
+  }
+}
+
+/**
+ * 他のタブで保存されたドキュメントに、このタブで変更したルールの設定を重ねる
+ *
+ * base（両方のタブが変更する前のドキュメント）からlocalで変更したルールは
+ * localの値を、それ以外のルールはremoteの値を使う。
+ */
+export function mergeSettingsDocuments(
+  base: SettingsDocument,
+  local: SettingsDocument,
+  remote: SettingsDocument
+): SettingsDocument {
+  const rules: Record<string, RuleSettingData> = {}
+  const ruleCodes = new Set([
+    ...Object.keys(base.rules),
+    ...Object.keys(local.rules),
+    ...Object.keys(remote.rules),
+  ])
+  for (const ruleCode of ruleCodes) {
+    const changed =
+      JSON.stringify(local.rules[ruleCode]) !==
+      JSON.stringify(base.rules[ruleCode])
+    const data = changed ? local.rules[ruleCode] : remote.rules[ruleCode]
+    if (data) rules[ruleCode] = data
+  }
+  return { version: SETTINGS_SCHEMA_VERSION, rules }
+}
+
+/**
+ * ルール設定のドキュメントのキーか（"settings" / "profile:<id>:settings"）
+ */
+export function isSettingsStorageKey(key: string): boolean {
+  return key === STORAGE_KEY || key.endsWith(`:${STORAGE_KEY}`)
+}
+
+/**
+ * ストレージのキーの値を、他のタブで保存された値とまとめる（IndexedDBStorageAdapter用）
+ *
+ * ルール設定のドキュメントのみをルールごとにまとめ、それ以外のキーや
+ * まとめられない値（削除・現在のバージョン以外）はlocalをそのまま返す。
+ */
+export function mergeStoredSettings(
+  key: string,
+  base: string | null,
+  local: string | null,
+  remote: string | null
+): string | null {
+  if (!isSettingsStorageKey(key)) return local
+  if (local === null || remote === null) return local
+
+  const parse = (value: string | null): SettingsDocument | null => {
+    if (value === null) return { version: SETTINGS_SCHEMA_VERSION, rules: {} }
+    try {
+      const doc: unknown = JSON.parse(value)
+      return isSettingsDocument(doc) && doc.version === SETTINGS_SCHEMA_VERSION
+        ? doc
+        : null
+    } catch {
+      return null
+    }
+  }
+  const [baseDoc, localDoc, remoteDoc] = [base, local, remote].map(parse)
+  if (!baseDoc || !localDoc || !remoteDoc) return local
+
+  return JSON.stringify(mergeSettingsDocuments(baseDoc, localDoc, remoteDoc))
+}
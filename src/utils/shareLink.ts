@@ -0,0 +1,116 @@
+import type { ImportResult, RuleInfo, RuleSettings } from '../types/rules'
+import { ruleSettingsStore } from './ruleSettings'
+
+// URLフラグメントのキー（"#share=..."）
+const SHARE_PARAM = 'share'
+const SHARE_FORMAT_VERSION = 1
+
+// 共有する設定（無効なルールのコード → 理由。理由がない場合は空文字）
+export interface SharedSettings {
+  [ruleCode: string]: string
+}
+
+interface SharePayload {
+  v: number
+  d: SharedSettings
+}
+
+/**
+ * 現在の設定から共有する内容（無効なルールとその理由）を取得
+ */
+export function getSharedSettings(rules: RuleInfo[]): SharedSettings {
+  const shared: SharedSettings = {}
+  for (const rule of rules) {
+    const setting = ruleSettingsStore.getSyncWithStorage(rule.code)
+    if (!setting.enabled) shared[rule.code] = setting.comment || ''
+  }
+  return shared
+}
+
+async function transform(
+  bytes: Uint8Array<ArrayBuffer>,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array<ArrayBuffer>> {
+  const body = new Response(bytes).body!.pipeThrough(stream)
+  return new Uint8Array(await new Response(body).arrayBuffer())
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join('')
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+/**
+ * 共有する設定をURLフラグメント（"share=..."）に変換
+ *
+ * JSONをdeflateで圧縮し、base64urlでエンコードする。
+ */
+export async function encodeShareFragment(
+  shared: SharedSettings
+): Promise<string> {
+  const payload: SharePayload = { v: SHARE_FORMAT_VERSION, d: shared }
+  const json = new TextEncoder().encode(JSON.stringify(payload))
+  const compressed = await transform(json, new CompressionStream('deflate-raw'))
+  return `${SHARE_PARAM}=${toBase64Url(compressed)}`
+}
+
+/**
+ * URLフラグメントから共有された設定を復元（共有リンクでない場合はnull）
+ */
+export async function decodeShareFragment(
+  hash: string
+): Promise<SharedSettings | null> {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_PARAM)
+  if (encoded === null) return null
+
+  let payload: SharePayload
+  try {
+    const compressed = fromBase64Url(encoded)
+    const json = await transform(
+      compressed,
+      new DecompressionStream('deflate-raw')
+    )
+    payload = JSON.parse(new TextDecoder().decode(json))
+  } catch {
+    throw new Error('Invalid share link')
+  }
+
+  if (payload?.v !== SHARE_FORMAT_VERSION || typeof payload.d !== 'object') {
+    throw new Error(`Unsupported share link version: ${payload?.v}`)
+  }
+  return payload.d
+}
+
+/**
+ * 共有された設定を適用予定の設定に変換
+ *
+ * 共有リンクに含まれないルールは有効にする（理由は手元のものを残す）。
+ */
+export function importSharedSettings(
+  shared: SharedSettings,
+  rules: RuleInfo[]
+): ImportResult {
+  const settings: RuleSettings = {}
+  for (const rule of rules) {
+    if (rule.code in shared) {
+      settings[rule.code] = { enabled: false, comment: shared[rule.code] }
+    } else {
+      const { comment } = ruleSettingsStore.getSyncWithStorage(rule.code)
+      settings[rule.code] = comment
+        ? { enabled: true, comment }
+        : { enabled: true }
+    }
+  }
+
+  const knownCodes = new Set(rules.map((rule) => rule.code))
+  const unknownCodes = Object.keys(shared)
+    .filter((code) => !knownCodes.has(code))
+    .sort()
+
+  return { settings, unknownCodes }
+}
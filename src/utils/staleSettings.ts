@@ -0,0 +1,115 @@
+import type { RuleInfo } from '../types/rules'
+import { getProfileStorageKey } from './profileStorage'
+import { ruleSettingsStore, type RuleSettingData } from './ruleSettings'
+import { getStorage } from './storageAdapters'
+import { reportStorageError } from './storageErrors'
+
+// 「保持」を選んだルールコード（次回以降の起動時に通知しない）
+const KEPT_STORAGE_KEY = 'stale-settings-kept'
+
+// orphaned: 表示中のバージョンにも最新のバージョンにも存在しないルール / removed: 削除済みのルール
+export type StaleReason = 'orphaned' | 'removed'
+
+// 見直しが必要な保存済みの設定
+export interface StaleSetting {
+  code: string
+  reason: StaleReason
+  setting: RuleSettingData
+  rule?: RuleInfo // removedの場合のみ
+}
+
+// 有効・理由なし・自動修正ありはデフォルトと同じなので、失われても困らない
+function hasDecision(setting: RuleSettingData): boolean {
+  return (
+    !setting.enabled || Boolean(setting.comment) || Boolean(setting.unfixable)
+  )
+}
+
+function getKeptCodes(): string[] {
+  if (typeof window === 'undefined') return []
+  try {
+    const stored = getStorage().getItem(getProfileStorageKey(KEPT_STORAGE_KEY))
+    return stored ? JSON.parse(stored) : []
+  } catch (error) {
+    reportStorageError('保持したルールの一覧を読み込めませんでした', error)
+    return []
+  }
+}
+
+function setKeptCodes(codes: string[]) {
+  if (typeof window === 'undefined') return
+  try {
+    if (codes.length === 0) {
+      getStorage().removeItem(getProfileStorageKey(KEPT_STORAGE_KEY))
+    } else {
+      getStorage().setItem(
+        getProfileStorageKey(KEPT_STORAGE_KEY),
+        JSON.stringify(codes)
+      )
+    }
+  } catch (error) {
+    reportStorageError('保持したルールの一覧を保存できませんでした', error)
+  }
+}
+
+/**
+ * 保存済みの設定のうち、読み込んだルール一覧に存在しない、
+ * またはremovedになったルールの設定を返す（「保持」を選んだものは除く）
+ *
+ * 古いバージョンのページでは、新しいバージョンで追加されたルールの設定も
+ * 一覧に存在しないため、newerCodes（最新のバージョンにのみ存在するルールコード）
+ * に含まれるものは対象にしない。
+ */
+export function findStaleSettings(
+  rules: RuleInfo[],
+  newerCodes: string[] = []
+): StaleSetting[] {
+  const rulesByCode = new Map(rules.map((rule) => [rule.code, rule]))
+  const newer = new Set(newerCodes)
+  const kept = new Set(getKeptCodes())
+
+  return ruleSettingsStore.getStoredCodes().flatMap((code): StaleSetting[] => {
+    if (kept.has(code) || newer.has(code)) return []
+
+    const setting = ruleSettingsStore.getSyncWithStorage(code)
+    if (!hasDecision(setting)) return []
+
+    const rule = rulesByCode.get(code)
+    if (!rule) return [{ code, reason: 'orphaned', setting }]
+    if (rule.status === 'removed') {
+      return [{ code, reason: 'removed', setting, rule }]
+    }
+    return []
+  })
+}
+
+/**
+ * 設定を別のルールコードに移し、元の設定を削除
+ */
+export function migrateSetting(fromCode: string, toCode: string) {
+  if (fromCode === toCode) {
+    throw new Error(`Cannot migrate ${fromCode} to itself`)
+  }
+
+  const setting = ruleSettingsStore.getSyncWithStorage(fromCode)
+  ruleSettingsStore.setMany({
+    [toCode]: { ...setting, unfixable: Boolean(setting.unfixable) },
+  })
+  discardSetting(fromCode)
+}
+
+/**
+ * 設定を削除
+ */
+export function discardSetting(code: string) {
+  ruleSettingsStore.remove(code)
+  setKeptCodes(getKeptCodes().filter((kept) => kept !== code))
+}
+
+/**
+ * 設定をそのまま残し、以降は通知しない
+ */
+export function keepSetting(code: string) {
+  const kept = getKeptCodes()
+  if (!kept.includes(code)) setKeptCodes([...kept, code])
+}
@@ -0,0 +1,126 @@
+// 各ストアが設定を保存する先（localStorage / IndexedDB / メモリ）
+//
+// ストアは同期的に読み書きするため、非同期のバックエンドを使うアダプタは
+// メモリ上に全てのデータを保持し、保存を後から行う。
+
+// 他のタブで変更されたキー（nullは全てのキーが削除された場合）
+export type StorageChangeListener = (key: string | null) => void
+
+export interface StorageAdapter {
+  getItem(key: string): string | null
+  setItem(key: string, value: string): void
+  removeItem(key: string): void
+  // 保存されている全てのキー
+  keys(): string[]
+  // 他のタブでの変更を監視し、停止する関数を返す
+  subscribe(listener: StorageChangeListener): () => void
+}
+
+/**
+ * localStorageに保存するアダプタ（デフォルト）
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  getItem(key: string): string | null {
+    return localStorage.getItem(key)
+  }
+
+  setItem(key: string, value: string) {
+    localStorage.setItem(key, value)
+  }
+
+  removeItem(key: string) {
+    localStorage.removeItem(key)
+  }
+
+  keys(): string[] {
+    const keys: string[] = []
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i)
+      if (key !== null) keys.push(key)
+    }
+    return keys
+  }
+
+  // storageイベントは変更したタブ以外で発生する
+  subscribe(listener: StorageChangeListener): () => void {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.storageArea === localStorage) listener(e.key)
+    }
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  }
+}
+
+// 同じデータを共有するメモリ上のアダプタの集まり（タブに相当）
+interface MemoryHub {
+  data: Map<string, string>
+  adapters: Set<MemoryStorageAdapter>
+}
+
+/**
+ * メモリ上に保存するアダプタ（テスト用。ページを閉じると失われる）
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  private listeners = new Set<StorageChangeListener>()
+  private readonly hub: MemoryHub
+
+  constructor(hub?: MemoryHub) {
+    this.hub = hub ?? { data: new Map(), adapters: new Set() }
+    this.hub.adapters.add(this)
+  }
+
+  /**
+   * 同じデータを共有する別のタブのアダプタを作る
+   */
+  createPeer(): MemoryStorageAdapter {
+    return new MemoryStorageAdapter(this.hub)
+  }
+
+  getItem(key: string): string | null {
+    return this.hub.data.get(key) ?? null
+  }
+
+  setItem(key: string, value: string) {
+    this.hub.data.set(key, String(value))
+    this.notifyPeers(key)
+  }
+
+  removeItem(key: string) {
+    if (!this.hub.data.delete(key)) return
+    this.notifyPeers(key)
+  }
+
+  keys(): string[] {
+    return [...this.hub.data.keys()]
+  }
+
+  subscribe(listener: StorageChangeListener): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  // storageイベントと同じく、変更したアダプタ自身には通知しない
+  private notifyPeers(key: string) {
+    for (const adapter of this.hub.adapters) {
+      if (adapter === this) continue
+      for (const listener of adapter.listeners) listener(key)
+    }
+  }
+}
+
+let current: StorageAdapter | null = null
+
+/**
+ * 各ストアが使うアダプタ（未設定の場合はlocalStorage）
+ */
+export function getStorage(): StorageAdapter {
+  current ??= new LocalStorageAdapter()
+  return current
+}
+
+/**
+ * アダプタを切り替える（ストアのキャッシュは各ストアで読み込み直す必要がある）
+ */
+export function setStorageAdapter(adapter: StorageAdapter) {
+  current = adapter
+}
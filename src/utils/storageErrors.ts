@@ -0,0 +1,44 @@
+// ストレージの読み書きの失敗をユーザーに通知する
+
+// storage-errorイベントのdetail
+export interface StorageErrorDetail {
+  message: string
+}
+
+// トーストより先にハイドレーションされたコンポーネントで発生したエラー
+let lastMessage: string | null = null
+
+/**
+ * 最後に発生したエラーのメッセージ
+ */
+export function getLastStorageError(): string | null {
+  return lastMessage
+}
+
+/**
+ * 保存容量の超過によるエラーか（Firefoxの古いバージョンは名前が異なる）
+ */
+export function isQuotaExceeded(error: unknown): boolean {
+  return (
+    error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' ||
+      error.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+  )
+}
+
+/**
+ * ストレージのエラーを記録し、storage-errorイベントでトーストに表示する
+ */
+export function reportStorageError(message: string, error: unknown) {
+  console.error(message, error)
+  if (typeof window === 'undefined') return
+
+  lastMessage = isQuotaExceeded(error)
+    ? `${message}（ブラウザの保存容量が不足しています）`
+    : message
+  window.dispatchEvent(
+    new CustomEvent<StorageErrorDetail>('storage-error', {
+      detail: { message: lastMessage },
+    })
+  )
+}
@@ -0,0 +1,119 @@
+import { IndexedDBStorageAdapter } from './indexedDBStorageAdapter'
+import { profileStore } from './profiles'
+import {
+  SETTINGS_SCHEMA_VERSION,
+  isSettingsStorageKey,
+  mergeStoredSettings,
+} from './settingsStorage'
+import {
+  LocalStorageAdapter,
+  MemoryStorageAdapter,
+  setStorageAdapter,
+  type StorageAdapter,
+} from './storageAdapters'
+import { reportStorageError } from './storageErrors'
+
+let ready: Promise<StorageAdapter> | null = null
+
+const EMPTY_SETTINGS = JSON.stringify({
+  version: SETTINGS_SCHEMA_VERSION,
+  rules: {},
+})
+
+/**
+ * localStorageに保存されている全てのデータをコピーする
+ */
+async function copyFromLocalStorage(adapter: IndexedDBStorageAdapter) {
+  const source = new LocalStorageAdapter()
+  for (const key of source.keys()) {
+    const value = source.getItem(key)
+    if (value !== null) adapter.setItem(key, value)
+  }
+  await adapter.flush()
+}
+
+/**
+ * 保存先を開く前（空のメモリ上のストレージ）に保存された変更を引き継ぐ
+ *
+ * ルール設定はこのとき変更したルールのみを保存済みの設定に重ね、
+ * それ以外のキーは保存済みのデータを上書きしないよう破棄して通知する。
+ */
+function carryOver(placeholder: MemoryStorageAdapter, adapter: StorageAdapter) {
+  const discarded: string[] = []
+  for (const key of placeholder.keys()) {
+    const value = placeholder.getItem(key)
+    if (!isSettingsStorageKey(key)) {
+      discarded.push(key)
+      continue
+    }
+    // 空のストレージを読んだときに保存された空のドキュメントは、
+    // 以前の形式の設定の移行を妨げないよう引き継がない
+    if (value === EMPTY_SETTINGS) continue
+    const stored = adapter.getItem(key)
+    const merged = mergeStoredSettings(key, null, value, stored)
+    if (merged !== null && merged !== stored) adapter.setItem(key, merged)
+  }
+
+  if (discarded.length > 0) {
+    reportStorageError(
+      '設定を読み込む前に行った変更の一部を保存できませんでした',
+      new Error(`Storage was not ready: ${discarded.join(', ')}`)
+    )
+  }
+}
+
+async function openStorage(
+  placeholder: MemoryStorageAdapter
+): Promise<StorageAdapter> {
+  let adapter: StorageAdapter
+  try {
+    // 両方のタブで変更したルールの設定はルールごとにまとめる
+    const indexedDBAdapter = await IndexedDBStorageAdapter.open(
+      undefined,
+      mergeStoredSettings
+    )
+    // 初回はlocalStorageに保存されていた設定を引き継ぐ（localStorageの設定は残す）
+    if (indexedDBAdapter.keys().length === 0) {
+      try {
+        await copyFromLocalStorage(indexedDBAdapter)
+      } catch (error) {
+        reportStorageError('以前の設定を引き継げませんでした', error)
+      }
+    }
+    adapter = indexedDBAdapter
+  } catch (error) {
+    // プライベートブラウズなどでIndexedDBを使えない場合
+    console.warn('IndexedDB is unavailable, using localStorage:', error)
+    adapter = new LocalStorageAdapter()
+  }
+
+  try {
+    carryOver(placeholder, adapter)
+  } catch (error) {
+    reportStorageError(
+      '設定を読み込む前に行った変更を保存できませんでした',
+      error
+    )
+  }
+  setStorageAdapter(adapter)
+  profileStore.reload()
+  profileStore.reloadActive()
+  return adapter
+}
+
+/**
+ * 各ストアの保存先をIndexedDBに切り替える（何度呼んでも1回だけ実行する）
+ *
+ * IndexedDBを開くまでは空のメモリ上のストレージを使い、古いデータを読んで
+ * 上書きしないようにする。開いた後は各ストアを読み込み直し、
+ * profile-changedイベントで表示中のコンポーネントを更新する。
+ * 保存済みの設定を使う処理は、このPromiseを待ってから行う。
+ */
+export function initStorage(): Promise<StorageAdapter> {
+  if (!ready) {
+    const placeholder = new MemoryStorageAdapter()
+    setStorageAdapter(placeholder)
+    ready = openStorage(placeholder)
+  }
+  return ready
+}
@@ -0,0 +1,101 @@
+import type { RuleSettings } from '../types/rules'
+import {
+  historyStore,
+  type HistoryEntry,
+  type NewHistoryEntry,
+} from './history'
+import { perFileIgnoresStore } from './perFileIgnores'
+import { ruleOptionsStore } from './ruleOptions'
+import { ruleSettingsStore } from './ruleSettings'
+
+// 履歴の変更前（before）または変更後（after）の値を各ストアに書き戻す
+function applyEntry(entry: NewHistoryEntry, side: 'before' | 'after') {
+  const settings: RuleSettings = Object.fromEntries(
+    entry.changes.map((change) => [change.ruleCode, change[side]])
+  )
+  ruleSettingsStore.restore(settings)
+
+  if (entry.perFileIgnores) {
+    perFileIgnoresStore.replace(entry.perFileIgnores[side])
+  }
+  if (entry.ruleOptions) {
+    ruleOptionsStore.replace(entry.ruleOptions[side])
+  }
+}
+
+/**
+ * 直前の変更を元に戻す（戻す変更が無い場合はundefined）
+ */
+export function undo(): HistoryEntry | undefined {
+  const entry = historyStore.takeUndo()
+  if (entry) applyEntry(entry, 'before')
+  return entry
+}
+
+/**
+ * 元に戻した変更をやり直す（やり直す変更が無い場合はundefined）
+ */
+export function redo(): HistoryEntry | undefined {
+  const entry = historyStore.takeRedo()
+  if (entry) applyEntry(entry, 'after')
+  return entry
+}
+
+/**
+ * 履歴の1件だけを取り消す
+ *
+ * 現在の値を変更前の値に戻す変更として新たに記録するため、
+ * それ以降の変更は残る。
+ */
+export function revertEntry(entryId: string): HistoryEntry | null {
+  const entry = historyStore.getEntries().find((e) => e.id === entryId)
+  if (!entry) {
+    throw new Error(`Unknown history entry: ${entryId}`)
+  }
+
+  const revert: NewHistoryEntry = {
+    action: 'revert',
+    changes: entry.changes.map((change) => ({
+      ruleCode: change.ruleCode,
+      before: ruleSettingsStore.getSyncWithStorage(change.ruleCode),
+      after: change.before,
+    })),
+    ...(entry.perFileIgnores && {
+      perFileIgnores: {
+        before: perFileIgnoresStore.getAll(),
+        after: entry.perFileIgnores.before,
+      },
+    }),
+    ...(entry.ruleOptions && {
+      ruleOptions: {
+        before: ruleOptionsStore.getAll(),
+        after: entry.ruleOptions.before,
+      },
+    }),
+  }
+
+  applyEntry(revert, 'after')
+  return historyStore.record(revert)
+}
+
+/**
+ * 選択中のプロファイルの全ての設定をリセットし、元に戻せるように履歴に記録する
+ */
+export function resetSettings(): HistoryEntry | null {
+  const entry: NewHistoryEntry = {
+    action: 'reset',
+    changes: ruleSettingsStore.getStoredCodes().map((ruleCode) => ({
+      ruleCode,
+      before: ruleSettingsStore.getSyncWithStorage(ruleCode),
+      after: { enabled: true },
+    })),
+    perFileIgnores: { before: perFileIgnoresStore.getAll(), after: {} },
+    ruleOptions: { before: ruleOptionsStore.getAll(), after: {} },
+  }
+
+  ruleSettingsStore.clearAll()
+  perFileIgnoresStore.clear()
+  ruleOptionsStore.clear()
+
+  return historyStore.record(entry)
+}
@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest'
+import {
+  BACKUP_VERSION,
+  createBackup,
+  diffRestore,
+  getBackupFileName,
+  getUnknownBackupCodes,
+  parseBackup,
+  planRestore,
+  restoreBackup,
+} from '../src/utils/backup'
+import { describeEntry, historyStore } from '../src/utils/history'
+import { perFileIgnoresStore } from '../src/utils/perFileIgnores'
+import { ruleOptionsStore } from '../src/utils/ruleOptions'
+import { ruleSettingsStore } from '../src/utils/ruleSettings'
+import { undo } from '../src/utils/undo'
+import { createRule } from './helpers/rules'
+
+const rules = ['D100', 'E501', 'F401'].map((code) => createRule(code))
+
+// 現在の設定のバックアップをJSONで保存し、読み込み直したもの
+const roundTrip = () =>
+  parseBackup(JSON.stringify(createBackup('0.8.0'), null, 2))
+
+describe('createBackup / parseBackup', () => {
+  it('有効なルールのコメントやper-file-ignores・設定値も含めて保存する', () => {
+    ruleSettingsStore.set('E501', { enabled: false, comment: 'formatter' })
+    ruleSettingsStore.set('F401', { enabled: true, comment: '確認済み' })
+    ruleSettingsStore.set('D100', { enabled: true })
+    perFileIgnoresStore.addRule('tests/*', 'S101')
+    ruleOptionsStore.set('lint.pycodestyle.max-line-length', '100')
+
+    const backup = roundTrip()
+
+    expect(backup.version).toBe(BACKUP_VERSION)
+    expect(backup.ruffVersion).toBe('0.8.0')
+    expect(backup.settings).toEqual({
+      D100: { enabled: true },
+      E501: { enabled: false, comment: 'formatter' },
+      F401: { enabled: true, comment: '確認済み' },
+    })
+    expect(backup.perFileIgnores).toEqual({ 'tests/*': ['S101'] })
+    expect(backup.ruleOptions).toEqual({
+      'lint.pycodestyle.max-line-length': '100',
+    })
+    expect(getBackupFileName(backup)).toMatch(
+      /^ruffmate-backup-\d{4}-\d{2}-\d{2}\.json$/
+    )
+  })
+
+  it('不正なファイルはエラーにする', () => {
+    const valid = {
+      format: 'ruffmate-backup',
+      version: 1,
+      createdAt: '2025-01-31T00:00:00.000Z',
+      ruffVersion: '0.8.0',
+      settings: {},
+    }
+
+    expect(() => parseBackup('{')).toThrow('Invalid JSON')
+    expect(() => parseBackup('{"rules": {}}')).toThrow(
+      'Not a RuffMate backup file'
+    )
+    expect(() => parseBackup(JSON.stringify({ ...valid, version: 2 }))).toThrow(
+      'Unsupported backup version: 2'
+    )
+    expect(() =>
+      parseBackup(JSON.stringify({ ...valid, ruffVersion: undefined }))
+    ).toThrow('Invalid backup: ruffVersion')
+    expect(() =>
+      parseBackup(
+        JSON.stringify({ ...valid, settings: { E501: { enabled: 'no' } } })
+      )
+    ).toThrow('Invalid backup: settings.E501')
+    expect(() =>
+      parseBackup(JSON.stringify({ ...valid, perFileIgnores: { a: 'E501' } }))
+    ).toThrow('Invalid backup: perFileIgnores')
+  })
+
+  it('省略されたper-file-ignoresと設定値は空として扱う', () => {
+    const backup = parseBackup(
+      JSON.stringify({
+        format: 'ruffmate-backup',
+        version: 1,
+        createdAt: '2025-01-31T00:00:00.000Z',
+        ruffVersion: '0.8.0',
+        settings: { E501: { enabled: false, comment: '', unfixable: false } },
+      })
+    )
+
+    expect(backup.settings).toEqual({ E501: { enabled: false } })
+    expect(backup.perFileIgnores).toEqual({})
+    expect(backup.ruleOptions).toEqual({})
+  })
+})
+
+describe('planRestore / diffRestore', () => {
+  it('マージではバックアップにある設定だけを上書きする', () => {
+    ruleSettingsStore.set('E501', { enabled: false })
+    perFileIgnoresStore.addRule('tests/*', 'S101')
+    const backup = roundTrip()
+
+    ruleSettingsStore.set('E501', { enabled: true })
+    ruleSettingsStore.set('F401', { enabled: false })
+    perFileIgnoresStore.addRule('tests/*', 'D100')
+
+    const plan = planRestore(backup, 'merge')
+    const changes = diffRestore(rules, plan)
+
+    expect(plan.perFileIgnores).toEqual({ 'tests/*': ['D100', 'S101'] })
+    expect(changes.map((c) => c.rule.code)).toEqual(['E501'])
+  })
+
+  it('置き換えではバックアップにないルールを有効に戻す', () => {
+    ruleSettingsStore.set('E501', { enabled: false })
+    const backup = roundTrip()
+
+    ruleSettingsStore.set('F401', { enabled: false, unfixable: true })
+    ruleOptionsStore.set('lint.pycodestyle.max-line-length', '100')
+
+    const plan = planRestore(backup, 'replace')
+    const changes = diffRestore(rules, plan)
+
+    expect(plan.resetCodes).toEqual(['F401'])
+    expect(plan.ruleOptions).toEqual({})
+    expect(changes).toHaveLength(1)
+    expect(changes[0].after).toEqual({ enabled: true, unfixable: false })
+  })
+
+  it('現在のルールの一覧にないコードを返す', () => {
+    ruleSettingsStore.set('ANN101', { enabled: false })
+    ruleSettingsStore.set('E501', { enabled: false })
+
+    expect(getUnknownBackupCodes(roundTrip(), rules)).toEqual(['ANN101'])
+  })
+})
+
+describe('restoreBackup', () => {
+  it('復元して1件の履歴に記録し、元に戻せる', () => {
+    ruleSettingsStore.set('E501', { enabled: false, comment: 'formatter' })
+    ruleSettingsStore.set('D100', { enabled: true })
+    perFileIgnoresStore.addRule('tests/*', 'S101')
+    const backup = roundTrip()
+
+    ruleSettingsStore.clearAll()
+    perFileIgnoresStore.clear()
+    ruleSettingsStore.set('F401', { enabled: false })
+    historyStore.clear()
+
+    const entry = restoreBackup(planRestore(backup, 'replace'))
+
+    expect(ruleSettingsStore.getAll()).toEqual({
+      // 有効のまま残すと判断したルールも保存される
+      D100: { enabled: true },
+      E501: { enabled: false, comment: 'formatter' },
+    })
+    expect(perFileIgnoresStore.getAll()).toEqual({ 'tests/*': ['S101'] })
+    expect(entry && describeEntry(entry)).toBe('バックアップから復元')
+    expect(historyStore.getEntries()).toHaveLength(1)
+
+    undo()
+    expect(ruleSettingsStore.getSyncWithStorage('E501')).toEqual({
+      enabled: true,
+    })
+    expect(ruleSettingsStore.getSyncWithStorage('F401')).toEqual({
+      enabled: false,
+    })
+    expect(perFileIgnoresStore.getAll()).toEqual({})
+  })
+})
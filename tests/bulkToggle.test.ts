@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest'
+import { buildBulkSettings } from '../src/utils/bulkToggle'
+import { ruleSettingsStore } from '../src/utils/ruleSettings'
+
+describe('buildBulkSettings', () => {
+  const ruleCodes = ['ANN001', 'ANN002']
+
+  it('共通のコメントを付けてまとめて無効にする', () => {
+    ruleSettingsStore.set('ANN001', { enabled: true, comment: '以前の理由' })
+
+    expect(buildBulkSettings(ruleCodes, false, ' 段階的に導入する ')).toEqual({
+      ANN001: { enabled: false, comment: '段階的に導入する' },
+      ANN002: { enabled: false, comment: '段階的に導入する' },
+    })
+  })
+
+  it('コメントを省略した場合は各ルールのコメントを残す', () => {
+    ruleSettingsStore.set('ANN001', { enabled: false, comment: '以前の理由' })
+
+    expect(buildBulkSettings(ruleCodes, true)).toEqual({
+      ANN001: { enabled: true, comment: '以前の理由' },
+      ANN002: { enabled: true },
+    })
+  })
+})
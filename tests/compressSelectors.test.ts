@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { compressSelectors } from '../src/utils/compressSelectors'
+import { generateToml, getDisabledRules } from '../src/utils/exportToml'
+import { importRuffConfig } from '../src/utils/importToml'
+import { resolveSelector } from '../src/utils/ruleSelector'
+import { ruleSettingsStore } from '../src/utils/ruleSettings'
+import type { RuffRule } from '../src/types/rules'
+import { createRule } from './helpers/rules'
+
+describe('compressSelectors', () => {
+  const allRules = [
+    'D100',
+    'D101',
+    'D200',
+    'D203',
+    'D212',
+    'E501',
+    'ERA001',
+    'PLC0414',
+    'PLR0402',
+    'PLR0911',
+    'PLR0912',
+    'PLR0913',
+    'PLR2004',
+    'PLW0603',
+  ].map((code) => createRule(code))
+
+  const pick = (...codes: string[]) =>
+    allRules.filter((r) => codes.includes(r.code))
+
+  const selectors = (targets: RuffRule[]) =>
+    compressSelectors(allRules, targets).map((s) => s.selector)
+
+  // セレクタを解決したルール集合
+  const resolveAll = (sels: string[]) =>
+    [...new Set(sels.flatMap((s) => resolveSelector(allRules, s)))].map(
+      (r) => r.code
+    )
+
+  beforeEach(() => {
+    ruleSettingsStore.clearAll()
+  })
+
+  it('リンター配下の全ルールが対象ならリンターのプレフィックスにまとめる', () => {
+    expect(
+      selectors(pick('D100', 'D101', 'D200', 'D203', 'D212', 'E501'))
+    ).toEqual(['D', 'E'])
+  })
+
+  it('一部のルールのみ対象なら、より深いプレフィックスを使う', () => {
+    expect(selectors(pick('D100', 'D101', 'D203'))).toEqual(['D1', 'D203'])
+    expect(selectors(pick('PLR0911', 'PLR0912', 'PLR0913'))).toEqual(['PLR09'])
+  })
+
+  it('"E"は"ERA"のルールを含まない', () => {
+    expect(selectors(pick('E501'))).toEqual(['E'])
+  })
+
+  it('"C" / "T" 配下は途中のプレフィックスを使わずリンターのプレフィックスに進む', () => {
+    const rules = ['C400', 'C401', 'C901', 'T100', 'T201', 'T203'].map((code) =>
+      createRule(code)
+    )
+    const compress = (...codes: string[]) =>
+      compressSelectors(
+        rules,
+        rules.filter((r) => codes.includes(r.code))
+      ).map((s) => s.selector)
+
+    // "C9" や "T1" はRuffのセレクタとして存在しない
+    expect(compress('C901', 'T100')).toEqual(['C90', 'T10'])
+    expect(compress('C400', 'C401', 'T201')).toEqual(['C4', 'T201'])
+    expect(compress('T201', 'T203')).toEqual(['T20'])
+    expect(compress('C400', 'C401', 'C901')).toEqual(['C'])
+  })
+
+  it('Pylintの全カテゴリが対象なら"PL"にまとめる', () => {
+    expect(
+      selectors(
+        pick(
+          'PLC0414',
+          'PLR0402',
+          'PLR0911',
+          'PLR0912',
+          'PLR0913',
+          'PLR2004',
+          'PLW0603'
+        )
+      )
+    ).toEqual(['PL'])
+  })
+
+  it('圧縮したセレクタは元と同じルール集合に解決される', () => {
+    const subsets = [
+      pick('D100', 'D203', 'PLR0912', 'PLR0913'),
+      pick('D100', 'D101', 'D200', 'D203', 'D212', 'ERA001', 'PLW0603'),
+      pick('E501', 'PLC0414', 'PLR0911', 'PLR0912', 'PLR0913', 'PLR2004'),
+      allRules,
+    ]
+
+    for (const subset of subsets) {
+      expect(resolveAll(selectors(subset)).sort()).toEqual(
+        subset.map((r) => r.code).sort()
+      )
+    }
+  })
+
+  it('圧縮したTOMLを読み込むと同じ無効ルールに戻る（ラウンドトリップ）', () => {
+    pick('D100', 'D101', 'D200', 'D203', 'D212', 'PLR0911', 'E501').forEach(
+      (r) => ruleSettingsStore.set(r.code, { enabled: false, comment: 'x' })
+    )
+    const expected = getDisabledRules(allRules).map((r) => r.code)
+
+    const toml = generateToml(allRules, { compress: true })
+    const { settings } = importRuffConfig(toml, allRules)
+
+    expect(toml).toContain('"D",  # x')
+    expect(
+      Object.keys(settings).filter((code) => !settings[code].enabled)
+    ).toEqual(expected)
+  })
+
+  it('まとめたルールの除外理由が異なる場合はコメントを付けない', () => {
+    ruleSettingsStore.set('PLR0911', { enabled: false, comment: 'a' })
+    ruleSettingsStore.set('PLR0912', { enabled: false, comment: 'b' })
+    ruleSettingsStore.set('PLR0913', { enabled: false, comment: 'a' })
+
+    const toml = generateToml(allRules, { compress: true })
+
+    expect(toml).toContain('    "PLR09",\n')
+  })
+})
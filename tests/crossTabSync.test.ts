@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest'
+import { startCrossTabSync, syncFromStorage } from '../src/utils/crossTabSync'
+import { perFileIgnoresStore } from '../src/utils/perFileIgnores'
+import { profileStore } from '../src/utils/profiles'
+import { ruleSettingsStore } from '../src/utils/ruleSettings'
+import {
+  getStorage,
+  type MemoryStorageAdapter,
+} from '../src/utils/storageAdapters'
+
+// 同じストレージを共有する他のタブ
+const getOtherTab = () => (getStorage() as MemoryStorageAdapter).createPeer()
+
+// 他のタブがルール設定のドキュメントを保存した状態にする
+const saveFromOtherTab = (rules: object, key = 'settings') => {
+  getOtherTab().setItem(key, JSON.stringify({ version: 2, rules }))
+}
+
+describe('syncFromStorage', () => {
+  it('他のタブで変更されたルールのキャッシュを更新して通知する', () => {
+    ruleSettingsStore.set('E501', { enabled: false })
+    ruleSettingsStore.set('F401', { enabled: false })
+    const listener = vi.fn()
+    window.addEventListener('settings-updated', listener)
+
+    saveFromOtherTab({ E501: { enabled: false }, D100: { enabled: false } })
+    syncFromStorage('settings')
+
+    window.removeEventListener('settings-updated', listener)
+    expect(ruleSettingsStore.getSync('F401')).toEqual({ enabled: true })
+    expect(ruleSettingsStore.getSync('D100')).toEqual({ enabled: false })
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(
+      (listener.mock.calls[0][0] as CustomEvent).detail.ruleCodes.sort()
+    ).toEqual(['D100', 'F401'])
+  })
+
+  it('読み込み直した後の変更で他のタブの変更を上書きしない', () => {
+    ruleSettingsStore.set('E501', { enabled: true })
+
+    saveFromOtherTab({ E501: { enabled: false, comment: 'formatter' } })
+    syncFromStorage('settings')
+    ruleSettingsStore.set('F401', { enabled: false })
+
+    expect(JSON.parse(getStorage().getItem('settings')!).rules).toEqual({
+      E501: { enabled: false, comment: 'formatter' },
+      F401: { enabled: false },
+    })
+  })
+
+  it('他のプロファイルのキーの変更は無視する', () => {
+    const listener = vi.fn()
+    window.addEventListener('settings-updated', listener)
+
+    saveFromOtherTab({ E501: { enabled: false } }, 'profile:abc:settings')
+    syncFromStorage('profile:abc:settings')
+
+    window.removeEventListener('settings-updated', listener)
+    expect(listener).not.toHaveBeenCalled()
+  })
+
+  it('他のタブで切り替えたプロファイルを読み込み直す', () => {
+    const profile = profileStore.create('ライブラリ用')
+    perFileIgnoresStore.addRule('tests/*', 'S101')
+    profileStore.switch('default')
+
+    // 他のタブでプロファイルを切り替えた状態
+    getOtherTab().setItem('active-profile', profile.id)
+    const listener = vi.fn()
+    window.addEventListener('profile-changed', listener)
+
+    syncFromStorage('active-profile')
+
+    window.removeEventListener('profile-changed', listener)
+    expect(profileStore.getActive().name).toBe('ライブラリ用')
+    expect(perFileIgnoresStore.getAll()).toEqual({ 'tests/*': ['S101'] })
+    expect((listener.mock.calls[0][0] as CustomEvent).detail).toEqual({
+      profileId: profile.id,
+    })
+  })
+})
+
+describe('startCrossTabSync', () => {
+  it('他のタブの変更で読み込み直し、停止後は反応しない', () => {
+    const stop = startCrossTabSync()
+    ruleSettingsStore.getSyncWithStorage('E501')
+
+    saveFromOtherTab({ E501: { enabled: false } })
+    expect(ruleSettingsStore.getSync('E501')).toEqual({ enabled: false })
+
+    stop()
+    saveFromOtherTab({})
+    expect(ruleSettingsStore.getSync('E501')).toEqual({ enabled: false })
+  })
+})
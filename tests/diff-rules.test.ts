@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdirSync, rmSync, writeFileSync } from 'fs'
+import { join, dirname } from 'path'
+import { fileURLToPath } from 'url'
+import { formatDiff, loadSnapshot, parseArgs } from '../scripts/diff-rules.js'
+import { diffRules } from '../src/utils/rulesDiff.js'
+import type { RulesData } from '../src/types/rules.js'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = dirname(__filename)
+
+const SNAPSHOT_DIR = join(__dirname, 'output/rules')
+
+describe('diff-rules', () => {
+  const snapshot = (version: string, codes: string[]): RulesData => ({
+    version: { version, fetchedAt: '2025-01-01T00:00:00.000Z' },
+    rules: codes.map((code) => ({
+      code,
+      name: code.toLowerCase(),
+      summary: '',
+      category: 'Sample',
+      categoryCode: 'E',
+      status: 'stable',
+      documentUrl: `https://docs.astral.sh/ruff/rules/${code.toLowerCase()}/`,
+    })),
+  })
+
+  beforeEach(() => {
+    mkdirSync(SNAPSHOT_DIR, { recursive: true })
+  })
+
+  afterEach(() => {
+    rmSync(SNAPSHOT_DIR, { recursive: true, force: true })
+  })
+
+  describe('parseArgs', () => {
+    it('比較する2つのバージョンと出力形式を解析できること', () => {
+      expect(parseArgs(['0.4.10', '0.14.10'])).toEqual({
+        from: '0.4.10',
+        to: '0.14.10',
+        format: 'markdown',
+      })
+      expect(parseArgs(['--format', 'json', '0.4.10', '0.14.10'])).toEqual({
+        from: '0.4.10',
+        to: '0.14.10',
+        format: 'json',
+      })
+    })
+
+    it('引数が不正な場合はエラーになること', () => {
+      expect(() => parseArgs(['0.4.10'])).toThrow('Usage')
+      expect(() => parseArgs(['a', 'b', '--format', 'html'])).toThrow(
+        'Unknown format: html'
+      )
+    })
+  })
+
+  describe('loadSnapshot', () => {
+    it('バージョンまたはファイルパスでスナップショットを読み込めること', () => {
+      const path = join(SNAPSHOT_DIR, '0.4.10.json')
+      writeFileSync(path, JSON.stringify(snapshot('0.4.10', ['E501'])))
+
+      expect(loadSnapshot('0.4.10', SNAPSHOT_DIR).version.version).toBe(
+        '0.4.10'
+      )
+      expect(loadSnapshot(path, SNAPSHOT_DIR).rules).toHaveLength(1)
+      expect(() => loadSnapshot('0.0.1', SNAPSHOT_DIR)).toThrow(
+        'Rules snapshot not found: 0.0.1'
+      )
+    })
+  })
+
+  describe('formatDiff', () => {
+    it('JSON形式ではコードとドキュメントURLを出力すること', () => {
+      const diff = diffRules(
+        snapshot('0.4.10', ['E501', 'E999']),
+        snapshot('0.14.10', ['E501', 'E701'])
+      )
+
+      expect(JSON.parse(formatDiff(diff, 'json'))).toEqual({
+        from: '0.4.10',
+        to: '0.14.10',
+        added: [
+          {
+            code: 'E701',
+            name: 'e701',
+            status: 'stable',
+            documentUrl: 'https://docs.astral.sh/ruff/rules/e701/',
+          },
+        ],
+        removed: [
+          {
+            code: 'E999',
+            name: 'e999',
+            documentUrl: 'https://docs.astral.sh/ruff/rules/e999/',
+          },
+        ],
+        statusChanges: [],
+      })
+      expect(formatDiff(diff, 'markdown')).toContain('## Added (1)')
+    })
+  })
+})
@@ -0,0 +1,89 @@
+import { test, expect, type Page } from '@playwright/test'
+
+// 検索でルールを絞り込み、トグルスイッチを返す
+// （client:visibleのため、スクロールしてハイドレーションさせる）
+async function findToggle(page: Page, code: string) {
+  await page.getByRole('textbox', { name: 'ルールを検索' }).fill(code)
+  await page.waitForTimeout(400) // debounce (300ms) + 少し余裕
+
+  const item = page.locator(`.rule-item[data-rule-code="${code}"]`)
+  await item.scrollIntoViewIfNeeded()
+  return item.getByRole('button', { name: new RegExp(`^${code}を`) })
+}
+
+// IndexedDBに保存されたルールの設定
+async function getStoredRules(page: Page) {
+  return page.evaluate(
+    () =>
+      new Promise((resolve, reject) => {
+        const open = indexedDB.open('ruffmate')
+        open.onerror = () => reject(open.error)
+        open.onsuccess = () => {
+          const request = open.result
+            .transaction('settings')
+            .objectStore('settings')
+            .get('settings')
+          request.onerror = () => reject(request.error)
+          request.onsuccess = () => {
+            open.result.close()
+            resolve(JSON.parse(request.result ?? '{}').rules ?? {})
+          }
+        }
+      })
+  )
+}
+
+test.describe('RuffMate Cross-Tab Sync', () => {
+  test('一方のタブでの切り替えがもう一方のタブに反映される', async ({
+    context,
+  }) => {
+    const pageA = await context.newPage()
+    const pageB = await context.newPage()
+    await pageA.goto('/')
+    await pageB.goto('/')
+
+    const toggleA = await findToggle(pageA, 'E501')
+    const toggleB = await findToggle(pageB, 'E501')
+    await expect(toggleB).toHaveAttribute('aria-label', 'E501を無効化')
+
+    await toggleA.click()
+
+    await expect(toggleA).toHaveAttribute('aria-label', 'E501を有効化')
+    await expect(toggleB).toHaveAttribute('aria-label', 'E501を有効化')
+  })
+
+  test('もう一方のタブでの変更が先の変更を上書きしない', async ({
+    context,
+  }) => {
+    const pageA = await context.newPage()
+    const pageB = await context.newPage()
+    await pageA.goto('/')
+    await pageB.goto('/')
+
+    // 両方のタブで設定を読み込んだ状態にする
+    await findToggle(pageB, 'F401')
+    const toggleA = await findToggle(pageA, 'E501')
+
+    await toggleA.click()
+    await expect
+      .poll(() => getStoredRules(pageB))
+      .toEqual({ E501: { enabled: false, comment: '' } })
+
+    const toggleB = await findToggle(pageB, 'F401')
+    await toggleB.click()
+
+    await expect
+      .poll(() => getStoredRules(pageA))
+      .toEqual({
+        E501: { enabled: false, comment: '' },
+        F401: { enabled: false, comment: '' },
+      })
+
+    // 再読み込みしても両方の変更が残っている
+    await pageA.reload()
+    await expect(await findToggle(pageA, 'E501')).toHaveAttribute(
+      'aria-label',
+      'E501を有効化'
+    )
+  })
+})
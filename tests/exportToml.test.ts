@@ -1,10 +1,14 @@
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
 import {
   getDisabledRules,
+  getLintTableName,
   generateToml,
   generateTomlWithMetadata,
 } from '../src/utils/exportToml'
+import { importRuffConfig } from '../src/utils/importToml'
+import { parseToml } from '../src/utils/parseToml'
 import { ruleSettingsStore } from '../src/utils/ruleSettings'
+import { getStorage } from '../src/utils/storageAdapters'
 import type { RuffRule } from '../src/types/rules'
 
 describe('exportToml', () => {
@@ -67,6 +71,23 @@ describe('exportToml', () => {
       expect(disabled).toHaveLength(0)
     })
 
+    it('ルールごとにストレージを読まず、設定を1度だけ読み込む', () => {
+      ruleSettingsStore.set('E501', { enabled: false })
+      ruleSettingsStore.clearCache()
+      const getItemSpy = vi.spyOn(getStorage(), 'getItem')
+      const getSyncSpy = vi.spyOn(ruleSettingsStore, 'getSyncWithStorage')
+
+      const disabled = getDisabledRules(mockRules)
+
+      expect(disabled.map((r) => r.code)).toEqual(['E501'])
+      expect(
+        getItemSpy.mock.calls.filter(([key]) => key === 'settings')
+      ).toHaveLength(1)
+      expect(getSyncSpy).not.toHaveBeenCalled()
+      getItemSpy.mockRestore()
+      getSyncSpy.mockRestore()
+    })
+
     it('全てのルールが無効な場合は全てを返す', () => {
       mockRules.forEach((rule) => {
         ruleSettingsStore.set(rule.code, { enabled: false })
@@ -157,6 +178,7 @@ describe('exportToml', () => {
       expect(toml).toContain('[tool.ruff.lint]')
       expect(toml).toContain('# Generated by RuffMate at')
       expect(toml).toContain('# Ruff version: 0.1.0')
+      expect(toml).toContain('# Profile: デフォルト')
       expect(toml).toContain('# http://localhost:3000/')
       expect(toml).toContain('select = ["ALL"]')
       expect(toml).toContain('"E501",')
@@ -184,4 +206,135 @@ describe('exportToml', () => {
       }
     })
   })
+
+  describe('エクスポート先', () => {
+    it('pyproject.tomlでは[tool.ruff.lint]テーブルになる', () => {
+      expect(getLintTableName('pyproject.toml')).toBe('tool.ruff.lint')
+
+      ruleSettingsStore.set('E501', { enabled: false })
+      const toml = generateToml(mockRules, { target: 'pyproject.toml' })
+      const doc = parseToml(toml)
+
+      expect(doc['tool.ruff.lint.select']).toEqual([{ value: 'ALL' }])
+      expect(doc['tool.ruff.lint.ignore']).toEqual([{ value: 'E501' }])
+    })
+
+    it.each(['ruff.toml', '.ruff.toml'] as const)(
+      '%sでは[lint]テーブルになる',
+      (target) => {
+        ruleSettingsStore.set('E501', { enabled: false, comment: 'long' })
+        const toml = generateTomlWithMetadata(mockRules, '0.1.0', { target })
+        const doc = parseToml(toml)
+
+        expect(toml.startsWith('[lint]\n')).toBe(true)
+        expect(toml).not.toContain('[tool.ruff')
+        expect(doc['lint.select']).toEqual([{ value: 'ALL' }])
+        expect(doc['lint.ignore']).toEqual([{ value: 'E501', comment: 'long' }])
+      }
+    )
+
+    it('全てのルールが有効な場合も指定したテーブルで出力する', () => {
+      const toml = generateToml(mockRules, { target: 'ruff.toml' })
+
+      expect(toml).toContain('[lint]')
+      expect(toml).toContain('select = ["ALL"]')
+    })
+  })
+
+  describe('allowlist（明示的なselect）', () => {
+    it('有効なルールのみをselectに列挙し、ignoreを出力しない', () => {
+      ruleSettingsStore.set('E501', { enabled: false })
+
+      const toml = generateToml(mockRules, { strategy: 'allowlist' })
+      const doc = parseToml(toml)
+
+      expect(doc['tool.ruff.lint.select']).toEqual([
+        { value: 'D100' },
+        { value: 'F401' },
+      ])
+      expect(doc['tool.ruff.lint.ignore']).toBeUndefined()
+      expect(toml).not.toContain('"ALL"')
+    })
+
+    it('除外理由をコメントとして残す', () => {
+      ruleSettingsStore.set('E501', {
+        enabled: false,
+        comment: 'formatter handles it',
+      })
+      ruleSettingsStore.set('F401', { enabled: true, comment: 'keep it' })
+
+      const toml = generateToml(mockRules, { strategy: 'allowlist' })
+
+      expect(toml).toContain('"F401",  # keep it')
+      expect(toml).toContain('#     "E501",  # formatter handles it')
+    })
+
+    it('削除済みのルールはselectしない', () => {
+      const rules: RuffRule[] = [
+        ...mockRules,
+        {
+          code: 'ANN101',
+          name: 'missing-type-self',
+          summary: '',
+          category: 'flake8-annotations',
+          categoryCode: 'ANN',
+          status: 'removed',
+          documentUrl: '',
+        },
+      ]
+
+      const toml = generateToml(rules, { strategy: 'allowlist' })
+
+      expect(toml).not.toContain('ANN101')
+    })
+
+    it('プレフィックスでまとめた結果が元の有効なルールに解決される', () => {
+      ruleSettingsStore.set('E501', { enabled: false })
+
+      const toml = generateToml(mockRules, {
+        strategy: 'allowlist',
+        compress: true,
+        target: 'ruff.toml',
+      })
+      const { settings } = importRuffConfig(toml, mockRules)
+
+      expect(parseToml(toml)['lint.select']).toEqual([
+        { value: 'D' },
+        { value: 'F' },
+      ])
+      expect(
+        Object.keys(settings).filter((code) => settings[code].enabled)
+      ).toEqual(['F401', 'D100'])
+    })
+  })
+
+  describe('unfixable', () => {
+    it('自動修正しない有効なルールをunfixableに出力する', () => {
+      ruleSettingsStore.set('F401', { enabled: true, unfixable: true })
+      // 無効なルールはunfixableに含めない
+      ruleSettingsStore.set('E501', { enabled: false, unfixable: true })
+
+      const doc = parseToml(generateToml(mockRules))
+      expect(doc['tool.ruff.lint.unfixable']).toEqual([{ value: 'F401' }])
+
+      const allowlist = parseToml(
+        generateToml(mockRules, { strategy: 'allowlist' })
+      )
+      expect(allowlist['tool.ruff.lint.unfixable']).toEqual([{ value: 'F401' }])
+    })
+
+    it('全てのルールが有効な場合もunfixableを出力する', () => {
+      ruleSettingsStore.set('F401', { enabled: true, unfixable: true })
+
+      const toml = generateToml(mockRules)
+      expect(toml).toContain('# All rules are enabled')
+      expect(parseToml(toml)['tool.ruff.lint.unfixable']).toEqual([
+        { value: 'F401' },
+      ])
+    })
+
+    it('自動修正しないルールがない場合はunfixableを出力しない', () => {
+      expect(generateToml(mockRules)).not.toContain('unfixable')
+    })
+  })
 })
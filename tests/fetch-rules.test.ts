@@ -3,24 +3,38 @@ import { readFileSync, existsSync, unlinkSync } from 'fs'
 import { join, dirname } from 'path'
 import { fileURLToPath } from 'url'
 import {
+  _guessFixAvailability,
   executeCommand,
+  extractOptions,
+  fetchRules,
+  getSnapshotPath,
   parseRules,
+  parseRulesJson,
+  ruffCommand,
   saveToFile,
 } from '../scripts/fetch-rules.js'
-import type { RulesData } from '../src/types/rules.js'
+import type { RuffVersion, RulesData } from '../src/types/rules.js'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = dirname(__filename)
 
 const FIXTURE_PATH = join(__dirname, 'fixtures/ruff-rules.md')
+const JSON_FIXTURE_PATH = join(__dirname, 'fixtures/ruff-rules.json')
 const TEST_OUTPUT_PATH = join(__dirname, 'output/test-rules.json')
 
 describe('fetch-rules', () => {
   let sampleMarkdown: string
+  let sampleJson: string
+
+  const version: RuffVersion = {
+    version: '0.14.10',
+    fetchedAt: '2025-01-01T00:00:00.000Z',
+  }
 
   beforeEach(() => {
-    // サンプルMarkdownを読み込み
+    // サンプルMarkdown / JSONを読み込み
     sampleMarkdown = readFileSync(FIXTURE_PATH, 'utf-8')
+    sampleJson = readFileSync(JSON_FIXTURE_PATH, 'utf-8')
   })
 
   describe('executeCommand', () => {
@@ -316,6 +330,202 @@ describe('fetch-rules', () => {
     })
   })
 
+  describe('parseRulesJson', () => {
+    it('JSON出力のlinter / preview / fixフィールドからルールを組み立てること', () => {
+      const result = parseRulesJson(sampleJson, version)
+
+      expect(result.version).toEqual(version)
+      expect(result.rules.length).toBe(6)
+      expect(
+        Object.fromEntries(result.rules.map((r) => [r.code, r.status]))
+      ).toEqual({
+        AIR001: 'stable',
+        YTT303: 'stable',
+        ANN102: 'removed',
+        ASYNC212: 'preview',
+        PD901: 'deprecated',
+        UP038: 'deprecated',
+      })
+
+      const rule = result.rules.find((r) => r.code === 'UP038')!
+      expect(rule.name).toBe('non-pep604-isinstance')
+      expect(rule.category).toBe('pyupgrade')
+      expect(rule.categoryCode).toBe('UP')
+      expect(rule.fixAvailability).toBe('always')
+      expect(rule.options).toEqual(['target-version'])
+      expect(rule.documentUrl).toBe(
+        'https://docs.astral.sh/ruff/rules/non-pep604-isinstance/'
+      )
+    })
+
+    it('Markdown出力と同じ結果になること', () => {
+      const fromJson = parseRulesJson(sampleJson, version)
+      const fromMarkdown = parseRules(sampleMarkdown, version)
+
+      expect(fromJson.rules).toEqual(fromMarkdown.rules)
+    })
+
+    it('本文に `--preview` が含まれていてもpreviewフラグで判定すること', () => {
+      const json = JSON.stringify([
+        {
+          name: 'sample-rule',
+          code: 'SAM001',
+          linter: 'Sample',
+          summary: 'sample',
+          fix: 'Fix is sometimes available.',
+          explanation:
+            '## What it does\nsample rule\n\n## Fix safety\nThe fix is unsafe unless `--preview` is enabled.\n',
+          preview: false,
+        },
+      ])
+
+      const [rule] = parseRulesJson(json, version).rules
+      expect(rule.status).toBe('stable')
+      expect(rule.fixAvailability).toBe('sometimes')
+      expect(rule.summary).toBe('sample rule')
+    })
+
+    it('statusフィールドがある場合はそれを優先すること', () => {
+      const json = JSON.stringify([
+        {
+          name: 'sample-rule',
+          code: 'SAM001',
+          linter: 'Sample',
+          summary: 'sample',
+          fix: 'Fix is not available.',
+          explanation: null,
+          preview: false,
+          status: 'Deprecated',
+        },
+      ])
+
+      const [rule] = parseRulesJson(json, version).rules
+      expect(rule.status).toBe('deprecated')
+      expect(rule.fixAvailability).toBe('none')
+    })
+
+    it('配列でない場合はエラーになること', () => {
+      expect(() => parseRulesJson('{}', version)).toThrow(
+        'expected an array of rules'
+      )
+    })
+  })
+
+  describe('fetchRules', () => {
+    const runner =
+      (outputs: Record<string, string | Error>) => (command: string) => {
+        const output = outputs[command]
+        if (output instanceof Error) throw output
+        if (output === undefined) throw new Error(`unexpected: ${command}`)
+        return output
+      }
+
+    it('JSON出力が使える場合はJSONからルールを取得すること', () => {
+      const result = fetchRules(
+        runner({
+          'uvx ruff --version': 'ruff 0.14.10',
+          'uvx ruff rule --all --output-format json': sampleJson,
+        })
+      )
+
+      expect(result.version.version).toBe('0.14.10')
+      expect(result.rules.length).toBe(6)
+    })
+
+    it('JSON出力に対応していない場合はMarkdownにフォールバックすること', () => {
+      const result = fetchRules(
+        runner({
+          'uvx ruff --version': 'ruff 0.1.0',
+          'uvx ruff rule --all --output-format json': new Error(
+            "unexpected argument '--output-format'"
+          ),
+          'uvx ruff rule --all': sampleMarkdown,
+        })
+      )
+
+      expect(result.version.version).toBe('0.1.0')
+      expect(result.rules.map((r) => r.code)).toEqual([
+        'AIR001',
+        'YTT303',
+        'ANN102',
+        'ASYNC212',
+        'PD901',
+        'UP038',
+      ])
+    })
+  })
+
+  describe('バージョン指定', () => {
+    it('ruffCommandはバージョンを指定したuvxコマンドを返すこと', () => {
+      expect(ruffCommand()).toBe('uvx ruff')
+      expect(ruffCommand('latest')).toBe('uvx ruff')
+      expect(ruffCommand('0.4.10')).toBe('uvx ruff@0.4.10')
+    })
+
+    it('指定したバージョンのRuffでルールを取得すること', () => {
+      const commands: string[] = []
+      const result = fetchRules((command) => {
+        commands.push(command)
+        return command.endsWith('--version') ? 'ruff 0.4.10' : sampleJson
+      }, ruffCommand('0.4.10'))
+
+      expect(commands).toEqual([
+        'uvx ruff@0.4.10 --version',
+        'uvx ruff@0.4.10 rule --all --output-format json',
+      ])
+      expect(result.version.version).toBe('0.4.10')
+    })
+
+    it('スナップショットは取得したバージョンごとのファイルに保存すること', () => {
+      expect(
+        getSnapshotPath(
+          { version: { ...version, version: '0.4.10' }, rules: [] },
+          '/tmp/rules'
+        )
+      ).toBe('/tmp/rules/0.4.10.json')
+    })
+  })
+
+  describe('_guessFixAvailability', () => {
+    it('自動修正の可否を判定できること', () => {
+      expect(_guessFixAvailability('Fix is always available.')).toBe('always')
+      expect(_guessFixAvailability('Fix is sometimes available.')).toBe(
+        'sometimes'
+      )
+      expect(_guessFixAvailability('## What it does\nsample')).toBe('none')
+    })
+  })
+
+  describe('extractOptions', () => {
+    it('Optionsセクションの設定キーを抽出できること', () => {
+      const block = [
+        '# too-many-arguments (PLR0913)',
+        '',
+        '## What it does',
+        'Checks for function definitions that include too many arguments.',
+        '',
+        '## Options',
+        '- `lint.pylint.max-args`',
+        '- [`lint.pylint.max-positional-args`](#lint_pylint_max-positional-args)',
+      ].join('\n')
+
+      expect(extractOptions(block)).toEqual([
+        'lint.pylint.max-args',
+        'lint.pylint.max-positional-args',
+      ])
+    })
+
+    it('Optionsセクションがない場合はundefinedになること', () => {
+      expect(extractOptions(sampleMarkdown.split('## Options')[0])).toBe(
+        undefined
+      )
+    })
+
+    it('fixtureのOptionsセクションを抽出できること', () => {
+      expect(extractOptions(sampleMarkdown)).toEqual(['target-version'])
+    })
+  })
+
   describe('saveToFile', () => {
     it('should save rules data to JSON file', () => {
       const testData: RulesData = {
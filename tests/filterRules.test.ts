@@ -1,5 +1,11 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
-import { filterRules, debounce } from '../src/utils/filterRules'
+import type { RuffRule } from '../src/types/rules'
+import {
+  filterRules,
+  debounce,
+  getMatchingRules,
+} from '../src/utils/filterRules'
+import { createRule } from './helpers/rules'
 
 describe('filterRules', () => {
   beforeEach(() => {
@@ -20,6 +26,7 @@ describe('filterRules', () => {
       searchTerm: 'import',
       categories: [],
       statuses: [],
+      fixes: [],
     })
 
     const items = document.querySelectorAll<HTMLElement>('.rule-item')
@@ -40,6 +47,7 @@ describe('filterRules', () => {
       searchTerm: '',
       categories: ['E'],
       statuses: [],
+      fixes: [],
     })
 
     const items = document.querySelectorAll<HTMLElement>('.rule-item')
@@ -60,6 +68,7 @@ describe('filterRules', () => {
       searchTerm: '',
       categories: [],
       statuses: ['deprecated'],
+      fixes: [],
     })
 
     const items = document.querySelectorAll<HTMLElement>('.rule-item')
@@ -68,6 +77,27 @@ describe('filterRules', () => {
     expect(items[2].style.display).toBe('') // W503は表示
   })
 
+  it('自動修正フィルタが機能する', () => {
+    document.body.innerHTML = `
+      <div class="rule-item" data-rule-code="E501" data-rule-name="line too long" data-rule-summary="line exceeds maximum length" data-rule-category="E" data-rule-status="stable" data-rule-fix="none"></div>
+      <div class="rule-item" data-rule-code="F401" data-rule-name="unused import" data-rule-summary="module imported but unused" data-rule-category="F" data-rule-status="stable" data-rule-fix="sometimes"></div>
+      <div class="rule-item" data-rule-code="W503" data-rule-name="line break before operator" data-rule-summary="line break occurred before operator" data-rule-category="W" data-rule-status="deprecated"></div>
+    `
+
+    // 自動修正できるルールでフィルタ
+    filterRules({
+      searchTerm: '',
+      categories: [],
+      statuses: [],
+      fixes: ['always', 'sometimes'],
+    })
+
+    const items = document.querySelectorAll<HTMLElement>('.rule-item')
+    expect(items[0].style.display).toBe('none') // E501は非表示
+    expect(items[1].style.display).toBe('') // F401は表示
+    expect(items[2].style.display).toBe('none') // W503（属性なし）は非表示
+  })
+
   it('複数の条件を組み合わせられる', () => {
     document.body.innerHTML = `
       <div class="rule-item" data-rule-code="E501" data-rule-name="line too long" data-rule-summary="line exceeds maximum length" data-rule-category="E" data-rule-status="stable"></div>
@@ -80,6 +110,7 @@ describe('filterRules', () => {
       searchTerm: 'import',
       categories: ['E'],
       statuses: [],
+      fixes: [],
     })
 
     const items = document.querySelectorAll<HTMLElement>('.rule-item')
@@ -101,6 +132,7 @@ describe('filterRules', () => {
       searchTerm: '',
       categories: [],
       statuses: [],
+      fixes: [],
     })
 
     expect(eventListener).toHaveBeenCalled()
@@ -111,6 +143,119 @@ describe('filterRules', () => {
     window.removeEventListener('filter-complete', eventListener)
   })
 
+  it('一致するルールが無いカテゴリのグループは非表示になる', () => {
+    document.body.innerHTML = `
+      <section class="rule-group" data-rule-group="E">
+        <div class="rule-item" data-rule-code="E501" data-rule-name="line too long" data-rule-summary="line exceeds maximum length" data-rule-category="E" data-rule-status="stable"></div>
+      </section>
+      <section class="rule-group" data-rule-group="F">
+        <div class="rule-item" data-rule-code="F401" data-rule-name="unused import" data-rule-summary="module imported but unused" data-rule-category="F" data-rule-status="stable"></div>
+      </section>
+    `
+
+    filterRules({
+      searchTerm: 'import',
+      categories: [],
+      statuses: [],
+      fixes: [],
+    })
+
+    const groups = document.querySelectorAll<HTMLElement>('.rule-group')
+    expect(groups[0].style.display).toBe('none') // Eのグループは非表示
+    expect(groups[1].style.display).toBe('') // Fのグループは表示
+
+    filterRules({ searchTerm: '', categories: [], statuses: [], fixes: [] })
+    expect(groups[0].style.display).toBe('')
+  })
+
+  it('タイポを含む検索キーワードでも一致する', () => {
+    document.body.innerHTML = `
+      <div class="rule-item" data-rule-code="E501" data-rule-name="line-too-long" data-rule-summary="line too long ({width} &gt; {limit})" data-rule-category="E" data-rule-status="stable"></div>
+      <div class="rule-item" data-rule-code="F401" data-rule-name="unused-import" data-rule-summary="{name} imported but unused" data-rule-category="F" data-rule-status="stable"></div>
+    `
+
+    filterRules({
+      searchTerm: 'unsued import',
+      categories: [],
+      statuses: [],
+      fixes: [],
+    })
+
+    const items = document.querySelectorAll<HTMLElement>('.rule-item')
+    expect(items[0].style.display).toBe('none')
+    expect(items[1].style.display).toBe('')
+  })
+
+  it('検索中は関連度の順に並べ、一致した箇所をハイライトする', () => {
+    const ruleItem = (code: string, name: string, summary: string) => `
+      <div class="rule-item" data-rule-code="${code}" data-rule-name="${name}" data-rule-summary="${summary.toLowerCase()}" data-rule-category="${code[0]}" data-rule-status="stable">
+        <code data-rule-highlight="code">${code}</code>
+        <h3><span data-rule-highlight="name">${name}</span></h3>
+        <p data-rule-highlight="summary">${summary}</p>
+      </div>`
+    document.body.innerHTML = `
+      <div id="search-results" hidden></div>
+      <section class="rule-group">
+        <div id="rule-group-E">
+          ${ruleItem('E401', 'multiple-imports-on-one-line', 'Multiple imports on one line')}
+        </div>
+      </section>
+      <section class="rule-group">
+        <div id="rule-group-F">
+          ${ruleItem('F401', 'unused-import', 'Unused import')}
+          ${ruleItem('F811', 'redefined-while-unused', 'Redefinition of unused name')}
+        </div>
+      </section>
+    `
+    const results = document.getElementById('search-results')!
+    const codes = (parent: Element) =>
+      Array.from(parent.querySelectorAll<HTMLElement>('.rule-item'))
+        .filter((item) => item.style.display !== 'none')
+        .map((item) => item.dataset.ruleCode)
+
+    filterRules({
+      searchTerm: 'unused',
+      categories: [],
+      statuses: [],
+      fixes: [],
+    })
+
+    expect(results.hidden).toBe(false)
+    // 名前の先頭に一致するものと、名前の途中に一致するものは同じ順位（元の順序）
+    expect(codes(results)).toEqual(['F401', 'F811'])
+    expect(
+      Array.from(results.querySelectorAll('mark'), (mark) => mark.textContent)
+    ).toEqual(['unused', 'unused'])
+    expect(
+      document.querySelectorAll<HTMLElement>('.rule-group')[1].style.display
+    ).toBe('none')
+
+    filterRules({ searchTerm: 'F4', categories: [], statuses: [], fixes: [] })
+    // コードの一致は名前の一致より上位
+    expect(codes(results)).toEqual(['F401'])
+
+    filterRules({
+      searchTerm: 'import',
+      categories: [],
+      statuses: [],
+      fixes: [],
+    })
+    expect(codes(results)).toEqual(['E401', 'F401'])
+
+    filterRules({ searchTerm: '', categories: [], statuses: [], fixes: [] })
+    expect(results.hidden).toBe(true)
+    expect(codes(document.getElementById('rule-group-F')!)).toEqual([
+      'F401',
+      'F811',
+    ])
+    expect(document.querySelectorAll('mark')).toHaveLength(0)
+    expect(
+      document.querySelector(
+        '[data-rule-code="F401"] [data-rule-highlight="name"]'
+      )!.textContent
+    ).toBe('unused-import')
+  })
+
   it('フィルタ条件なしで全て表示される', () => {
     document.body.innerHTML = `
       <div class="rule-item" data-rule-code="E501" data-rule-name="line too long" data-rule-summary="line exceeds maximum length" data-rule-category="E" data-rule-status="stable"></div>
@@ -121,6 +266,7 @@ describe('filterRules', () => {
       searchTerm: '',
       categories: [],
       statuses: [],
+      fixes: [],
     })
 
     const items = document.querySelectorAll<HTMLElement>('.rule-item')
@@ -129,15 +275,73 @@ describe('filterRules', () => {
   })
 })
 
+describe('getMatchingRules', () => {
+  const rule = (
+    code: string,
+    name: string,
+    status: RuffRule['status'],
+    fixAvailability?: RuffRule['fixAvailability']
+  ) =>
+    createRule(code, {
+      name,
+      summary: `Summary of ${name}`,
+      category: 'Sample',
+      status,
+      fixAvailability,
+    })
+
+  const rules = [
+    rule('ANN001', 'missing-type-function-argument', 'stable'),
+    rule('ANN101', 'missing-type-self', 'removed'),
+    rule('E501', 'line-too-long', 'stable'),
+    rule('F401', 'unused-import', 'stable', 'sometimes'),
+  ]
+
+  it('DOMと同じ条件でルールを絞り込む', () => {
+    const codes = (criteria: Partial<Parameters<typeof getMatchingRules>[1]>) =>
+      getMatchingRules(rules, {
+        searchTerm: '',
+        categories: [],
+        statuses: [],
+        fixes: [],
+        ...criteria,
+      }).map((r) => r.code)
+
+    expect(codes({})).toEqual(['ANN001', 'ANN101', 'E501', 'F401'])
+    expect(codes({ categories: ['ANN'] })).toEqual(['ANN001', 'ANN101'])
+    expect(codes({ categories: ['ANN'], statuses: ['stable'] })).toEqual([
+      'ANN001',
+    ])
+    expect(codes({ searchTerm: 'Unused' })).toEqual(['F401'])
+    expect(codes({ searchTerm: 'unsued-improt' })).toEqual(['F401'])
+    expect(codes({ fixes: ['none'] })).toEqual(['ANN001', 'ANN101', 'E501'])
+  })
+})
+
 describe('debounce', () => {
   it('指定時間内の連続呼び出しが1回にまとめられる', async () => {
     const func = vi.fn()
     const debouncedFunc = debounce(func, 100)
 
     // 連続で呼び出す
-    debouncedFunc({ searchTerm: 'test1', categories: [], statuses: [] })
-    debouncedFunc({ searchTerm: 'test2', categories: [], statuses: [] })
-    debouncedFunc({ searchTerm: 'test3', categories: [], statuses: [] })
+    debouncedFunc({
+      searchTerm: 'test1',
+      categories: [],
+      statuses: [],
+      fixes: [],
+    })
+    debouncedFunc({
+      searchTerm: 'test2',
+      categories: [],
+      statuses: [],
+      fixes: [],
+    })
+    debouncedFunc({
+      searchTerm: 'test3',
+      categories: [],
+      statuses: [],
+      fixes: [],
+    })
 
     // すぐには呼ばれない
     expect(func).not.toHaveBeenCalled()
@@ -151,6 +355,7 @@ describe('debounce', () => {
       searchTerm: 'test3',
       categories: [],
       statuses: [],
+      fixes: [],
     })
   })
 })
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import {
+  editDistance,
+  mergeRanges,
+  searchRule,
+  tokenize,
+} from '../src/utils/fuzzySearch'
+
+const unusedImport = {
+  code: 'F401',
+  name: 'unused-import',
+  summary: '{name} imported but unused; consider removing',
+}
+
+describe('tokenize', () => {
+  it('小文字にして空白・ハイフン・アンダースコアで区切る', () => {
+    expect(tokenize('  Unused-Import  self_arg ')).toEqual([
+      'unused',
+      'import',
+      'self',
+      'arg',
+    ])
+    expect(tokenize('   ')).toEqual([])
+  })
+})
+
+describe('editDistance', () => {
+  it('挿入・削除・置換・隣り合う文字の入れ替えを1回として数える', () => {
+    expect(editDistance('unused', 'unused')).toBe(0)
+    expect(editDistance('unsued', 'unused')).toBe(1)
+    expect(editDistance('imprt', 'import')).toBe(1)
+    expect(editDistance('impart', 'import')).toBe(1)
+    expect(editDistance('kitten', 'sitting')).toBe(3)
+  })
+
+  it('上限を超える場合は上限 + 1を返す', () => {
+    expect(editDistance('abc', 'xyzxyz', 1)).toBe(2)
+    expect(editDistance('kitten', 'sitting', 1)).toBe(2)
+  })
+})
+
+describe('mergeRanges', () => {
+  it('重なる範囲をまとめて開始位置の順に並べる', () => {
+    expect(
+      mergeRanges([
+        { start: 8, end: 10 },
+        { start: 0, end: 3 },
+        { start: 2, end: 5 },
+      ])
+    ).toEqual([
+      { start: 0, end: 5 },
+      { start: 8, end: 10 },
+    ])
+  })
+})
+
+describe('searchRule', () => {
+  it('タイポを含むキーワードでも名前に一致する', () => {
+    const match = searchRule(unusedImport, 'unsued import')
+
+    expect(match).not.toBeNull()
+    expect(match!.ranges.name).toEqual([
+      { start: 0, end: 6 },
+      { start: 7, end: 13 },
+    ])
+  })
+
+  it('単語の先頭のタイポも許容する', () => {
+    expect(searchRule(unusedImport, 'improted')).not.toBeNull()
+  })
+
+  it('短い語はタイポを許容しない', () => {
+    expect(searchRule(unusedImport, 'lint')).toBeNull()
+    expect(searchRule(unusedImport, 'unusde xyz')).toBeNull()
+  })
+
+  it('コードの完全一致 > コードの前方一致 > 名前 > 説明 の順にスコアが高い', () => {
+    const score = (term: string) => searchRule(unusedImport, term)?.score ?? 0
+
+    expect(score('f401')).toBeGreaterThan(score('F4'))
+    expect(score('F4')).toBeGreaterThan(score('import'))
+    expect(score('import')).toBeGreaterThan(score('removing'))
+    // タイポが多いほどスコアが低い
+    expect(score('import')).toBeGreaterThan(score('improt'))
+  })
+
+  it('コードと名前にまたがるキーワードにも一致する', () => {
+    const match = searchRule(unusedImport, 'F401 unused')
+
+    expect(match!.ranges.code).toEqual([{ start: 0, end: 4 }])
+    expect(match!.ranges.name).toEqual([{ start: 0, end: 6 }])
+  })
+
+  it('一致した範囲は元の文字列の位置を指す', () => {
+    const match = searchRule(unusedImport, 'consider')
+
+    const { start, end } = match!.ranges.summary[0]
+    expect(unusedImport.summary.slice(start, end)).toBe('consider')
+  })
+})
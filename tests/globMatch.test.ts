@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import {
+  globToRegExp,
+  matchesGlob,
+  testPerFileIgnores,
+} from '../src/utils/globMatch'
+
+describe('globMatch', () => {
+  describe('globToRegExp', () => {
+    it('"*" はパス区切りを含まない', () => {
+      const regex = globToRegExp('src/*.py')
+      expect(regex.test('src/main.py')).toBe(true)
+      expect(regex.test('src/app/main.py')).toBe(false)
+    })
+
+    it('"**/" は0個以上のディレクトリにマッチする', () => {
+      const regex = globToRegExp('tests/**/*.py')
+      expect(regex.test('tests/test_a.py')).toBe(true)
+      expect(regex.test('tests/unit/api/test_a.py')).toBe(true)
+      expect(regex.test('src/test_a.py')).toBe(false)
+    })
+
+    it('"?"、文字クラス、選択に対応する', () => {
+      expect(globToRegExp('test_?.py').test('test_a.py')).toBe(true)
+      expect(globToRegExp('v[0-9].py').test('v1.py')).toBe(true)
+      expect(globToRegExp('v[!0-9].py').test('v1.py')).toBe(false)
+      expect(globToRegExp('*.{py,pyi}').test('stub.pyi')).toBe(true)
+    })
+
+    it('"." をエスケープする', () => {
+      expect(globToRegExp('*.py').test('mainxpy')).toBe(false)
+    })
+  })
+
+  describe('matchesGlob', () => {
+    it('ファイル名だけのパターンは任意のディレクトリにマッチする', () => {
+      expect(matchesGlob('__init__.py', 'src/pkg/__init__.py')).toBe(true)
+      expect(matchesGlob('conftest.py', 'src/pkg/__init__.py')).toBe(false)
+    })
+
+    it('"./" やバックスラッシュを正規化する', () => {
+      expect(matchesGlob('./tests/*.py', 'tests\\test_a.py')).toBe(true)
+    })
+
+    it('"!" で始まるパターンはマッチしないファイルに適用される', () => {
+      expect(matchesGlob('!src/**', 'scripts/build.py')).toBe(true)
+      expect(matchesGlob('!src/**', 'src/main.py')).toBe(false)
+    })
+  })
+
+  describe('testPerFileIgnores', () => {
+    it('ファイルごとにマッチしたパターンと除外されるルールを返す', () => {
+      const results = testPerFileIgnores(
+        {
+          'tests/**/*.py': ['S101'],
+          '__init__.py': ['D104', 'F401'],
+          'tests/conftest.py': ['F401'],
+        },
+        ['tests/conftest.py', 'src/pkg/__init__.py', '', 'src/main.py']
+      )
+
+      expect(results).toEqual([
+        {
+          filePath: 'tests/conftest.py',
+          patterns: ['tests/**/*.py', 'tests/conftest.py'],
+          ruleCodes: ['F401', 'S101'],
+        },
+        {
+          filePath: 'src/pkg/__init__.py',
+          patterns: ['__init__.py'],
+          ruleCodes: ['D104', 'F401'],
+        },
+        { filePath: 'src/main.py', patterns: [], ruleCodes: [] },
+      ])
+    })
+  })
+})
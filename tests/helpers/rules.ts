@@ -0,0 +1,23 @@
+import type { RuffRule } from '../../src/types/rules'
+
+/**
+ * テスト用のルールを作成する
+ *
+ * 名前はコードを小文字にしたもの、カテゴリコードはコードの英字部分になる。
+ * それ以外の値はoverridesで指定する。
+ */
+export function createRule(
+  code: string,
+  overrides: Partial<RuffRule> = {}
+): RuffRule {
+  return {
+    code,
+    name: code.toLowerCase(),
+    summary: '',
+    category: '',
+    categoryCode: code.match(/^[A-Z]+/)![0],
+    status: 'stable',
+    documentUrl: '',
+    ...overrides,
+  }
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  describeEntry,
+  getEntryComment,
+  historyStore,
+  type HistoryEntry,
+} from '../src/utils/history'
+import { ruleSettingsStore } from '../src/utils/ruleSettings'
+import { getStorage } from '../src/utils/storageAdapters'
+
+const entry = (overrides: Partial<HistoryEntry>): HistoryEntry => ({
+  id: 'a',
+  action: 'change',
+  timestamp: 0,
+  changes: [],
+  ...overrides,
+})
+
+describe('historyStore', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('ルール設定の変更を変更前の値とともに記録する', () => {
+    ruleSettingsStore.set('E501', { enabled: false, comment: 'formatter' })
+
+    expect(historyStore.getEntries()).toMatchObject([
+      {
+        action: 'change',
+        changes: [
+          {
+            ruleCode: 'E501',
+            before: { enabled: true },
+            after: { enabled: false, comment: 'formatter' },
+          },
+        ],
+      },
+    ])
+  })
+
+  it('setManyはまとめて1件として記録し、変更の無いルールは含めない', () => {
+    ruleSettingsStore.set('F401', { enabled: false })
+    ruleSettingsStore.setMany({
+      E501: { enabled: false },
+      F401: { enabled: false },
+    })
+
+    const entries = historyStore.getEntries()
+    expect(entries).toHaveLength(2)
+    expect(entries[1].changes.map((c) => c.ruleCode)).toEqual(['E501'])
+  })
+
+  it('何も変わらない場合は記録しない', () => {
+    ruleSettingsStore.setMany({ E501: { enabled: true } })
+    expect(historyStore.getEntries()).toEqual([])
+  })
+
+  it('同じルールのコメントの入力は直前の履歴にまとめる', () => {
+    ruleSettingsStore.setMany({ E501: { enabled: false, comment: '' } })
+    ruleSettingsStore.setMany({ E501: { enabled: false, comment: 'f' } })
+    ruleSettingsStore.setMany({ E501: { enabled: false, comment: 'fmt' } })
+
+    const entries = historyStore.getEntries()
+    expect(entries).toHaveLength(1)
+    expect(entries[0].changes[0]).toMatchObject({
+      before: { enabled: true },
+      after: { enabled: false, comment: 'fmt' },
+    })
+  })
+
+  it('時間が空いたコメントの変更は別の履歴にする', () => {
+    vi.useFakeTimers()
+    ruleSettingsStore.setMany({ E501: { enabled: false } })
+    vi.advanceTimersByTime(60_000)
+    ruleSettingsStore.setMany({ E501: { enabled: false, comment: 'fmt' } })
+
+    expect(historyStore.getEntries()).toHaveLength(2)
+  })
+
+  it('新しい変更でやり直しの履歴を破棄する', () => {
+    ruleSettingsStore.set('E501', { enabled: false })
+    historyStore.takeUndo()
+    expect(historyStore.getRedoEntries()).toHaveLength(1)
+
+    ruleSettingsStore.set('F401', { enabled: false })
+    expect(historyStore.getRedoEntries()).toEqual([])
+  })
+
+  it('ストレージに保存され、プロファイルの切り替えで読み込み直す', () => {
+    ruleSettingsStore.set('E501', { enabled: false })
+    expect(JSON.parse(getStorage().getItem('history')!).entries).toHaveLength(1)
+
+    getStorage().setItem('history', JSON.stringify({ entries: [], redo: [] }))
+    historyStore.reload()
+    expect(historyStore.getEntries()).toEqual([])
+  })
+})
+
+describe('describeEntry', () => {
+  it('1件の変更はルールコードと内容を表す', () => {
+    expect(
+      describeEntry(
+        entry({
+          changes: [
+            {
+              ruleCode: 'E501',
+              before: { enabled: true },
+              after: { enabled: false, comment: 'formatter' },
+            },
+          ],
+        })
+      )
+    ).toBe('E501 を無効化')
+    expect(
+      describeEntry(
+        entry({
+          action: 'revert',
+          changes: [
+            {
+              ruleCode: 'E501',
+              before: { enabled: false, comment: 'a' },
+              after: { enabled: false, comment: 'b' },
+            },
+          ],
+        })
+      )
+    ).toBe('取り消し: E501 のコメントを変更')
+  })
+
+  it('一括の変更は件数を表す', () => {
+    const changes = ['D100', 'D101'].map((ruleCode) => ({
+      ruleCode,
+      before: { enabled: true },
+      after: { enabled: false, comment: 'docstringは任意' },
+    }))
+    const bulk = entry({ changes })
+
+    expect(describeEntry(bulk)).toBe('2 件のルールを無効化')
+    expect(getEntryComment(bulk)).toBe('docstringは任意')
+    expect(describeEntry(entry({ action: 'reset', changes }))).toBe(
+      '設定をリセット'
+    )
+  })
+})
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest'
+import {
+  FLAKE8_IMPORT_COMMENT,
+  importFlake8Config,
+  isFlake8Rule,
+  translateFlake8Code,
+} from '../src/utils/importFlake8'
+import type { RuffRule } from '../src/types/rules'
+import { createRule } from './helpers/rules'
+
+describe('importFlake8', () => {
+  const rule = (code: string, category: string) =>
+    createRule(code, { category })
+
+  const mockRules: RuffRule[] = [
+    rule('E203', 'pycodestyle'),
+    rule('E226', 'pycodestyle'),
+    rule('E501', 'pycodestyle'),
+    rule('W291', 'pycodestyle'),
+    rule('F401', 'Pyflakes'),
+    rule('B008', 'flake8-bugbear'),
+    rule('S101', 'flake8-bandit'),
+    rule('ERA001', 'eradicate'),
+    rule('COM812', 'flake8-commas'),
+    rule('RUF100', 'Ruff-specific rules'),
+    rule('PLR0913', 'Pylint'),
+  ]
+
+  const disabledCodes = (settings: Record<string, { enabled: boolean }>) =>
+    Object.keys(settings).filter((code) => !settings[code].enabled)
+
+  describe('isFlake8Rule', () => {
+    it('flake8本体とプラグイン由来のルールのみ対象とする', () => {
+      expect(mockRules.filter(isFlake8Rule).map((r) => r.code)).toEqual([
+        'E203',
+        'E226',
+        'E501',
+        'W291',
+        'F401',
+        'B008',
+        'S101',
+        'ERA001',
+        'COM812',
+      ])
+    })
+
+    it('flake8-で始まらない名前のプラグイン由来のルールも対象とする', () => {
+      const pluginRules = [
+        rule('PD901', 'pandas-vet'),
+        rule('DOC201', 'pydoclint'),
+        rule('I001', 'isort'),
+      ]
+
+      expect(pluginRules.every(isFlake8Rule)).toBe(true)
+
+      const { settings, unknownCodes } = importFlake8Config(
+        '[flake8]\nextend-ignore = PD901, DOC201',
+        pluginRules
+      )
+      expect(disabledCodes(settings)).toEqual(['PD901', 'DOC201'])
+      expect(unknownCodes).toEqual([])
+    })
+  })
+
+  describe('translateFlake8Code', () => {
+    it('Ruffでコードが変わったプラグインのコードを変換する', () => {
+      expect(translateFlake8Code('E800')).toEqual(['ERA001'])
+      expect(translateFlake8Code('C812')).toEqual(['COM812'])
+      expect(translateFlake8Code('PL118')).toEqual(['PTH118'])
+      expect(translateFlake8Code('E501')).toEqual(['E501'])
+    })
+  })
+
+  describe('importFlake8Config', () => {
+    it('extend-ignoreをデフォルトのignoreに追加する', () => {
+      const { settings, unknownCodes } = importFlake8Config(
+        '[flake8]\nextend-ignore = E203, E800',
+        mockRules
+      )
+
+      expect(disabledCodes(settings)).toEqual(['E203', 'E226', 'ERA001'])
+      expect(settings['E203'].comment).toBe(FLAKE8_IMPORT_COMMENT)
+      expect(unknownCodes).toEqual([])
+      // flake8由来でないルールは変更しない
+      expect(settings['RUF100']).toBeUndefined()
+      expect(settings['PLR0913']).toBeUndefined()
+    })
+
+    it('selectとignoreを解決する', () => {
+      const { settings } = importFlake8Config(
+        ['[flake8]', 'select = E,W,F', 'ignore = E501,W'].join('\n'),
+        mockRules
+      )
+
+      expect(disabledCodes(settings)).toEqual([
+        'E501',
+        'W291',
+        'B008',
+        'S101',
+        'ERA001',
+        'COM812',
+      ])
+    })
+
+    it('Ruffに対応するルールがないコードを報告する', () => {
+      const { unknownCodes } = importFlake8Config(
+        '[flake8]\nextend-ignore = W503, E203, ABC123',
+        mockRules
+      )
+
+      expect(unknownCodes).toEqual(['ABC123', 'W503'])
+    })
+
+    it('per-file-ignoresを読み取る', () => {
+      const { perFileIgnores, unknownCodes } = importFlake8Config(
+        [
+          '[flake8]',
+          'per-file-ignores =',
+          '    tests/*: S101, E501',
+          '    __init__.py:F401 setup.py:X100',
+        ].join('\n'),
+        mockRules
+      )
+
+      expect(perFileIgnores).toEqual({
+        'tests/*': ['S101', 'E501'],
+        '__init__.py': ['F401'],
+        'setup.py': [],
+      })
+      expect(unknownCodes).toEqual(['X100'])
+    })
+
+    it('[flake8]セクションがない場合はエラーになる', () => {
+      expect(() => importFlake8Config('[tool:pytest]\n', mockRules)).toThrow(
+        /flake8/
+      )
+    })
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import {
+  PYLINT_IMPORT_COMMENT,
+  importPylintConfig,
+  resolvePylintMessage,
+} from '../src/utils/importPylint'
+import type { RuffRule } from '../src/types/rules'
+import { createRule } from './helpers/rules'
+
+describe('importPylint', () => {
+  const rule = (code: string, name: string) =>
+    createRule(code, { name, category: 'Pylint' })
+
+  const mockRules: RuffRule[] = [
+    rule('PLC0414', 'useless-import-alias'),
+    rule('PLR0913', 'too-many-arguments'),
+    rule('PLR0915', 'too-many-statements'),
+    rule('PLW0603', 'global-statement'),
+    rule('F401', 'unused-import'),
+  ]
+
+  describe('resolvePylintMessage', () => {
+    it('シンボル名、メッセージID、カテゴリを解決する', () => {
+      const codes = (message: string) =>
+        resolvePylintMessage(mockRules, message).map((r) => r.code)
+
+      expect(codes('too-many-arguments')).toEqual(['PLR0913'])
+      expect(codes('R0915')).toEqual(['PLR0915'])
+      expect(codes('R')).toEqual(['PLR0913', 'PLR0915'])
+      expect(codes('all')).toEqual(['PLC0414', 'PLR0913', 'PLR0915', 'PLW0603'])
+    })
+
+    it('PL以外のルールには解決しない', () => {
+      expect(resolvePylintMessage(mockRules, 'unused-import')).toEqual([])
+    })
+  })
+
+  describe('importPylintConfig', () => {
+    it('.pylintrcのdisableを無効化として取り込む', () => {
+      const { settings, unknownCodes } = importPylintConfig(
+        [
+          '[MESSAGES CONTROL]',
+          'disable =',
+          '    too-many-arguments,',
+          '    R0915,',
+          '    missing-docstring',
+        ].join('\n'),
+        mockRules
+      )
+
+      expect(settings).toEqual({
+        PLR0913: { enabled: false, comment: PYLINT_IMPORT_COMMENT },
+        PLR0915: { enabled: false, comment: PYLINT_IMPORT_COMMENT },
+      })
+      expect(unknownCodes).toEqual(['missing-docstring'])
+    })
+
+    it('pyproject.tomlの[tool.pylint."messages control"]を読み取る', () => {
+      const { settings } = importPylintConfig(
+        [
+          '[tool.pylint."messages control"]',
+          'disable = ["all"]',
+          'enable = ["global-statement"]',
+        ].join('\n'),
+        mockRules
+      )
+
+      expect(settings['PLC0414'].enabled).toBe(false)
+      expect(settings['PLW0603']).toEqual({ enabled: true })
+      expect(settings['F401']).toBeUndefined()
+    })
+
+    it('messages controlセクションがない場合はエラーになる', () => {
+      expect(() => importPylintConfig('[MASTER]\njobs=4', mockRules)).toThrow()
+    })
+  })
+})
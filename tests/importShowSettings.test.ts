@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  importShowSettings,
+  parseEnabledRules,
+} from '../src/utils/importShowSettings'
+import { ruleSettingsStore } from '../src/utils/ruleSettings'
+import { createRule } from './helpers/rules'
+
+describe('importShowSettings', () => {
+  const mockRules = ['E501', 'F401', 'F841', 'D100'].map((code) =>
+    createRule(code)
+  )
+
+  const output = [
+    'Resolved settings for: "/repo/src/app.py"',
+    'Settings path: "/repo/pyproject.toml"',
+    '',
+    '# Linter Settings',
+    'linter.exclude = []',
+    'linter.rules.enabled = [',
+    '\tline-too-long (E501),',
+    '\tunused-import (F401),',
+    '\tsome-new-rule (RUF999),',
+    ']',
+    'linter.rules.should_fix = [',
+    '\tunused-variable (F841),',
+    ']',
+  ].join('\n')
+
+  beforeEach(() => {
+    ruleSettingsStore.clearAll()
+  })
+
+  describe('parseEnabledRules', () => {
+    it('linter.rules.enabledのコードのみを抽出する', () => {
+      expect(parseEnabledRules(output)).toEqual(['E501', 'F401', 'RUF999'])
+    })
+
+    it('空のリストを扱える', () => {
+      expect(parseEnabledRules('linter.rules.enabled = []')).toEqual([])
+    })
+
+    it('linter.rules.enabledがない場合はエラーになる', () => {
+      expect(() => parseEnabledRules('cache_dir = "/tmp"')).toThrow()
+    })
+  })
+
+  describe('importShowSettings', () => {
+    it('一覧にないルールを無効化し、不明なコードを報告する', () => {
+      ruleSettingsStore.set('D100', { enabled: false, comment: 'no docs' })
+
+      const { settings, unknownCodes } = importShowSettings(output, mockRules)
+
+      expect(settings).toEqual({
+        E501: { enabled: true },
+        F401: { enabled: true },
+        F841: { enabled: false },
+        D100: { enabled: false, comment: 'no docs' },
+      })
+      expect(unknownCodes).toEqual(['RUF999'])
+    })
+  })
+})
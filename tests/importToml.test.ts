@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { importRuffConfig } from '../src/utils/importToml'
+import { generateToml } from '../src/utils/exportToml'
+import { ruleSettingsStore } from '../src/utils/ruleSettings'
+import { diffSettings } from '../src/utils/settingsDiff'
+import type { RuffRule } from '../src/types/rules'
+import { createRule } from './helpers/rules'
+
+describe('importToml', () => {
+  const rule = (code: string, name: string) => createRule(code, { name })
+
+  const mockRules: RuffRule[] = [
+    rule('D100', 'undocumented-public-module'),
+    rule('D203', 'incorrect-blank-line-before-class'),
+    rule('E501', 'line-too-long'),
+    rule('E711', 'none-comparison'),
+    rule('F401', 'unused-import'),
+    rule('PLR0913', 'too-many-arguments'),
+  ]
+
+  const enabledCodes = (settings: Record<string, { enabled: boolean }>) =>
+    Object.keys(settings).filter((code) => settings[code].enabled)
+
+  beforeEach(() => {
+    ruleSettingsStore.clearAll()
+  })
+
+  describe('importRuffConfig', () => {
+    it('pyproject.tomlのselect/ignoreを解決する', () => {
+      const { settings, unknownCodes } = importRuffConfig(
+        ['[tool.ruff.lint]', 'select = ["ALL"]', 'ignore = ["D", "E501"]'].join(
+          '\n'
+        ),
+        mockRules
+      )
+
+      expect(enabledCodes(settings)).toEqual(['E711', 'F401', 'PLR0913'])
+      expect(unknownCodes).toEqual([])
+    })
+
+    it('ruff.tomlの[lint]テーブルとextend-*を解決する', () => {
+      const { settings } = importRuffConfig(
+        [
+          '[lint]',
+          'select = ["E"]',
+          'extend-select = ["PLR09"]',
+          'extend-ignore = ["E7"]',
+        ].join('\n'),
+        mockRules
+      )
+
+      expect(enabledCodes(settings)).toEqual(['E501', 'PLR0913'])
+    })
+
+    it('selectがない場合はRuffのデフォルトを使う', () => {
+      const { settings } = importRuffConfig(
+        '[tool.ruff.lint]\nignore = ["F401"]',
+        mockRules
+      )
+
+      expect(enabledCodes(settings)).toEqual(['E711'])
+    })
+
+    it('より具体的なselectはignoreより優先される', () => {
+      const { settings } = importRuffConfig(
+        '[tool.ruff.lint]\nselect = ["ALL", "D203"]\nignore = ["D"]',
+        mockRules
+      )
+
+      expect(settings['D100'].enabled).toBe(false)
+      expect(settings['D203'].enabled).toBe(true)
+    })
+
+    it('ignoreの行末コメントを除外理由として読み込む', () => {
+      const { settings } = importRuffConfig(
+        [
+          '[tool.ruff.lint]',
+          'select = ["ALL"]',
+          'ignore = [',
+          '    "D",  # docstrings are optional',
+          '    "E501",  # formatter handles it',
+          ']',
+        ].join('\n'),
+        mockRules
+      )
+
+      expect(settings['D100']).toEqual({
+        enabled: false,
+        comment: 'docstrings are optional',
+      })
+      expect(settings['E501']).toEqual({
+        enabled: false,
+        comment: 'formatter handles it',
+      })
+    })
+
+    it('rules.jsonに存在しないコードを報告する', () => {
+      const { unknownCodes } = importRuffConfig(
+        '[tool.ruff.lint]\nselect = ["ALL"]\nignore = ["XYZ123", "E999", "D"]',
+        mockRules
+      )
+
+      expect(unknownCodes).toEqual(['E999', 'XYZ123'])
+    })
+
+    it('Ruffの設定がない場合はエラーになる', () => {
+      expect(() =>
+        importRuffConfig('[tool.black]\nline-length = 88', mockRules)
+      ).toThrow()
+    })
+
+    it('generateTomlの出力を読み込むと同じ設定に戻る', () => {
+      ruleSettingsStore.set('E501', { enabled: false, comment: 'long lines' })
+      ruleSettingsStore.set('D203', { enabled: false })
+      const toml = generateToml(mockRules)
+
+      const { settings } = importRuffConfig(toml, mockRules)
+      ruleSettingsStore.clearAll()
+
+      expect(settings['E501']).toEqual({
+        enabled: false,
+        comment: 'long lines',
+      })
+      expect(settings['D203']).toEqual({ enabled: false })
+      expect(enabledCodes(settings)).toHaveLength(4)
+    })
+  })
+
+  describe('unfixable', () => {
+    it('unfixable / extend-unfixableを自動修正しない設定として読み込む', () => {
+      const { settings } = importRuffConfig(
+        '[tool.ruff.lint]\nselect = ["ALL"]\nunfixable = ["F401"]\nextend-unfixable = ["E7"]',
+        mockRules
+      )
+
+      expect(settings['F401']).toEqual({ enabled: true, unfixable: true })
+      expect(settings['E711']).toEqual({ enabled: true, unfixable: true })
+      expect(settings['E501']).toEqual({ enabled: true, unfixable: false })
+    })
+
+    it('unfixableの指定がない場合は現在の設定を保持する', () => {
+      ruleSettingsStore.set('F401', { enabled: true, unfixable: true })
+      const { settings } = importRuffConfig(
+        '[tool.ruff.lint]\nselect = ["ALL"]',
+        mockRules
+      )
+
+      expect(settings['F401']).toEqual({ enabled: true })
+      expect(diffSettings(mockRules, settings)).toEqual([])
+
+      ruleSettingsStore.setMany(settings)
+      expect(ruleSettingsStore.getSync('F401')).toEqual({
+        enabled: true,
+        unfixable: true,
+      })
+    })
+  })
+
+  describe('diffSettings', () => {
+    it('現在の設定から変わるルールのみを返す', () => {
+      ruleSettingsStore.set('E501', { enabled: false })
+      const { settings } = importRuffConfig(
+        '[tool.ruff.lint]\nselect = ["ALL"]\nignore = ["E501", "F401"]',
+        mockRules
+      )
+
+      const changes = diffSettings(mockRules, settings)
+
+      expect(changes.map((c) => c.rule.code)).toEqual(['F401'])
+      expect(changes[0].before).toEqual({ enabled: true })
+      expect(changes[0].after).toEqual({ enabled: false })
+    })
+  })
+})
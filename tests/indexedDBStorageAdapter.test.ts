@@ -0,0 +1,248 @@
+import 'fake-indexeddb/auto'
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { IndexedDBStorageAdapter } from '../src/utils/indexedDBStorageAdapter'
+import { perFileIgnoresStore } from '../src/utils/perFileIgnores'
+import { ruleSettingsStore } from '../src/utils/ruleSettings'
+import { mergeStoredSettings } from '../src/utils/settingsStorage'
+import {
+  MemoryStorageAdapter,
+  getStorage,
+  setStorageAdapter,
+} from '../src/utils/storageAdapters'
+import { getLastStorageError } from '../src/utils/storageErrors'
+import { initStorage } from '../src/utils/storageStartup'
+
+// テストごとに別のデータベースを使う
+let dbCount = 0
+const uniqueName = () => `ruffmate-test-${++dbCount}`
+
+const opened: IndexedDBStorageAdapter[] = []
+const open = async (name: string, merge = mergeStoredSettings) => {
+  const adapter = await IndexedDBStorageAdapter.open(name, merge)
+  opened.push(adapter)
+  return adapter
+}
+
+// IndexedDBに保存されている内容（メモリ上のデータではなく）
+const readStored = async (name: string) => {
+  const adapter = await IndexedDBStorageAdapter.open(name)
+  const stored = Object.fromEntries(
+    adapter.keys().map((key) => [key, adapter.getItem(key)])
+  )
+  await adapter.close()
+  return stored
+}
+
+// ルール設定のドキュメント
+const settings = (rules: Record<string, { enabled: boolean }>) =>
+  JSON.stringify({ version: 2, rules })
+const storedRules = (value: string | null) =>
+  value === null ? null : JSON.parse(value).rules
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+afterEach(async () => {
+  await Promise.all(opened.splice(0).map((adapter) => adapter.close()))
+})
+
+describe('IndexedDBStorageAdapter', () => {
+  it('保存されているデータを開いたときに読み込む', async () => {
+    const name = uniqueName()
+    const first = await open(name)
+    first.setItem('settings', '{}')
+    first.setItem('history', '[]')
+    await first.flush()
+
+    const second = await open(name)
+    expect(second.getItem('settings')).toBe('{}')
+    expect(second.keys().sort()).toEqual(['history', 'settings'])
+  })
+
+  it('変更はメモリにすぐ反映し、一定時間後にまとめて保存する', async () => {
+    const name = uniqueName()
+    const adapter = await open(name)
+
+    adapter.setItem('settings', '{}')
+    adapter.setItem('history', '[]')
+    expect(adapter.getItem('settings')).toBe('{}')
+    expect(await readStored(name)).toEqual({})
+
+    await sleep(300)
+    expect(await readStored(name)).toEqual({ settings: '{}', history: '[]' })
+  })
+
+  it('続けて保存した場合も最後の変更が残る', async () => {
+    const name = uniqueName()
+    const adapter = await open(name)
+
+    adapter.setItem('settings', '1')
+    const first = adapter.flush()
+    adapter.setItem('settings', '2')
+    adapter.setItem('history', '[]')
+    const second = adapter.flush()
+    adapter.removeItem('history')
+    await Promise.all([first, second, adapter.flush()])
+
+    expect(await readStored(name)).toEqual({ settings: '2' })
+  })
+
+  it('ページを離れる前に保存待ちの変更を書き込む', async () => {
+    const adapter = await open(uniqueName())
+    const flushSpy = vi.spyOn(adapter, 'flush')
+
+    window.dispatchEvent(new Event('pagehide'))
+
+    expect(flushSpy).toHaveBeenCalledTimes(1)
+  })
+
+  it('他のタブで保存されたキーを読み込み直して通知する', async () => {
+    const name = uniqueName()
+    const adapter = await open(name)
+    const otherTab = await open(name)
+    const listener = vi.fn()
+    adapter.subscribe(listener)
+
+    otherTab.setItem('settings', '{}')
+    await otherTab.flush()
+
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledWith('settings'))
+    expect(adapter.getItem('settings')).toBe('{}')
+
+    otherTab.removeItem('settings')
+    await otherTab.flush()
+
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledTimes(2))
+    expect(adapter.getItem('settings')).toBeNull()
+  })
+
+  it('両方のタブで保存待ちのルールの設定はルールごとにまとめる', async () => {
+    const name = uniqueName()
+    const tabA = await open(name)
+    const tabB = await open(name)
+    const listenerA = vi.fn()
+    tabA.subscribe(listenerA)
+
+    // 両方のタブが保存する前に、それぞれ別のルールを変更する
+    tabA.setItem('settings', settings({ E501: { enabled: false } }))
+    tabB.setItem('settings', settings({ F401: { enabled: false } }))
+    await Promise.all([tabA.flush(), tabB.flush()])
+
+    const merged = { E501: { enabled: false }, F401: { enabled: false } }
+    expect(storedRules((await readStored(name)).settings)).toEqual(merged)
+    await vi.waitFor(() => {
+      expect(storedRules(tabA.getItem('settings'))).toEqual(merged)
+      expect(storedRules(tabB.getItem('settings'))).toEqual(merged)
+    })
+    expect(listenerA).toHaveBeenCalledWith('settings')
+  })
+
+  it('他のタブの変更を受け取った後に保存しても上書きしない', async () => {
+    const name = uniqueName()
+    const tabA = await open(name)
+    const tabB = await open(name)
+
+    tabB.setItem('settings', settings({ F401: { enabled: false } }))
+    tabA.setItem('settings', settings({ E501: { enabled: false } }))
+    await tabA.flush()
+    // tabBは保存待ちの変更にtabAの変更をまとめる
+    await vi.waitFor(() =>
+      expect(storedRules(tabB.getItem('settings'))).toEqual({
+        E501: { enabled: false },
+        F401: { enabled: false },
+      })
+    )
+
+    // tabAで元に戻した変更は、tabBの保存で復活しない
+    tabA.setItem('settings', settings({}))
+    await tabA.flush()
+    await tabB.flush()
+
+    expect(storedRules((await readStored(name)).settings)).toEqual({
+      F401: { enabled: false },
+    })
+  })
+
+  it('まとめる関数が無い場合は後から保存した値を使う', async () => {
+    const name = uniqueName()
+    const tabA = await open(name, null)
+    const tabB = await open(name, null)
+
+    tabA.setItem('settings', settings({ E501: { enabled: false } }))
+    tabB.setItem('settings', settings({ F401: { enabled: false } }))
+    await tabA.flush()
+    await tabB.flush()
+
+    expect(storedRules((await readStored(name)).settings)).toEqual({
+      F401: { enabled: false },
+    })
+  })
+
+  it('他のタブで保存されたキーを読み込めない場合はエラーを通知する', async () => {
+    const name = uniqueName()
+    const adapter = await open(name)
+    const otherTab = await open(name)
+    const listener = vi.fn()
+    adapter.subscribe(listener)
+    const errorListener = vi.fn()
+    window.addEventListener('storage-error', errorListener)
+    const consoleErrorSpy = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {})
+
+    otherTab.setItem('settings', '{}')
+    await otherTab.flush()
+    const getSpy = vi
+      .spyOn(IDBObjectStore.prototype, 'get')
+      .mockImplementation(() => {
+        throw new DOMException('The database is closing.', 'InvalidStateError')
+      })
+
+    await vi.waitFor(() => expect(errorListener).toHaveBeenCalled())
+
+    getSpy.mockRestore()
+    consoleErrorSpy.mockRestore()
+    window.removeEventListener('storage-error', errorListener)
+    expect((errorListener.mock.calls[0][0] as CustomEvent).detail).toEqual({
+      message: '他のタブで保存された設定を読み込めませんでした',
+    })
+    expect(listener).not.toHaveBeenCalled()
+    expect(adapter.getItem('settings')).toBeNull()
+  })
+})
+
+describe('initStorage', () => {
+  it('localStorageの設定をIndexedDBに引き継いで切り替える', async () => {
+    localStorage.setItem(
+      'settings',
+      JSON.stringify({ version: 2, rules: { E501: { enabled: false } } })
+    )
+    const consoleErrorSpy = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {})
+
+    const ready = initStorage()
+    // 開く前の変更: ルール設定は保存済みの設定に重ね、それ以外は破棄して通知する
+    ruleSettingsStore.clearCache()
+    ruleSettingsStore.set('F401', { enabled: false })
+    perFileIgnoresStore.addPattern('tests/**')
+    const adapter = await ready
+    opened.push(adapter as IndexedDBStorageAdapter)
+    localStorage.clear()
+    consoleErrorSpy.mockRestore()
+
+    expect(adapter).toBeInstanceOf(IndexedDBStorageAdapter)
+    expect(getStorage()).toBe(adapter)
+    expect(ruleSettingsStore.getAll()).toEqual({
+      E501: { enabled: false },
+      F401: { enabled: false },
+    })
+    expect(perFileIgnoresStore.getAll()).toEqual({})
+    expect(getLastStorageError()).toBe(
+      '設定を読み込む前に行った変更の一部を保存できませんでした'
+    )
+    expect(await readStored('ruffmate')).toHaveProperty('settings')
+
+    // 閉じたアダプタに後片付けの変更を書き込まないようにする
+    setStorageAdapter(new MemoryStorageAdapter())
+  })
+})
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { parseIni } from '../src/utils/parseIni'
+
+describe('parseIni', () => {
+  it('セクションごとにキーと値を返す', () => {
+    const doc = parseIni(
+      [
+        '[metadata]',
+        'name = sample',
+        '',
+        '[flake8]',
+        'max_line_length: 100',
+        'extend-ignore = E203  # black',
+      ].join('\n')
+    )
+
+    expect(doc['metadata']).toEqual({ name: 'sample' })
+    expect(doc['flake8']).toEqual({
+      'max-line-length': '100',
+      'extend-ignore': 'E203',
+    })
+  })
+
+  it('インデントされた行を直前の値の続きとして扱う', () => {
+    const doc = parseIni(
+      [
+        '[flake8]',
+        'per-file-ignores =',
+        '    # comment line',
+        '    tests/*: S101',
+        '    __init__.py: F401',
+      ].join('\n')
+    )
+
+    expect(doc['flake8']['per-file-ignores']).toBe(
+      '\ntests/*: S101\n__init__.py: F401'
+    )
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { parseToml } from '../src/utils/parseToml'
+
+describe('parseToml', () => {
+  it('テーブルのパスを含むキーで値を返す', () => {
+    const doc = parseToml(
+      [
+        '[project]',
+        'name = "sample"',
+        '',
+        '[tool.ruff]',
+        'line-length = 88',
+        'preview = true',
+        '',
+        '[tool.pylint."messages control"]',
+        "disable = ['C0114']",
+      ].join('\n')
+    )
+
+    expect(doc['project.name']).toBe('sample')
+    expect(doc['tool.ruff.line-length']).toBe(88)
+    expect(doc['tool.ruff.preview']).toBe(true)
+    expect(doc['tool.pylint.messages control.disable']).toEqual([
+      { value: 'C0114' },
+    ])
+  })
+
+  it('配列要素の行末コメントを保持する', () => {
+    const doc = parseToml(
+      [
+        '[tool.ruff.lint]',
+        'ignore = [',
+        '    "D",  # docstrings',
+        '    "E501",',
+        '    # standalone comment',
+        '    "F401", "F841",  # unused',
+        ']',
+      ].join('\n')
+    )
+
+    expect(doc['tool.ruff.lint.ignore']).toEqual([
+      { value: 'D', comment: 'docstrings' },
+      { value: 'E501' },
+      { value: 'F401' },
+      { value: 'F841', comment: 'unused' },
+    ])
+  })
+
+  it('ドット区切りのキーとインラインテーブルを扱える', () => {
+    const doc = parseToml(
+      [
+        'lint.select = ["E", "F"]',
+        'format = { quote-style = "single" }',
+        '[[tool.other]]',
+        'name = "skipped"',
+      ].join('\n')
+    )
+
+    expect(doc['lint.select']).toEqual([{ value: 'E' }, { value: 'F' }])
+    expect(doc['format']).toBeUndefined()
+    expect(doc['tool.other.name']).toBeUndefined()
+  })
+
+  it('不正なTOMLはエラーになる', () => {
+    expect(() => parseToml('select = ["E501"')).toThrow(/line 1/)
+    expect(() => parseToml('[tool.ruff\nselect = []')).toThrow()
+  })
+})
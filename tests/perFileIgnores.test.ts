@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from 'vitest'
+import { generateToml } from '../src/utils/exportToml'
+import { importRuffConfig } from '../src/utils/importToml'
+import { perFileIgnoresStore } from '../src/utils/perFileIgnores'
+import { getStorage } from '../src/utils/storageAdapters'
+import type { RuffRule } from '../src/types/rules'
+
+describe('perFileIgnoresStore', () => {
+  it('パターンとルールを追加・削除できる', () => {
+    perFileIgnoresStore.addPattern('tests/**/*.py')
+    perFileIgnoresStore.addRule('tests/**/*.py', 'S101')
+    perFileIgnoresStore.addRule('tests/**/*.py', 'D')
+    perFileIgnoresStore.addRule('tests/**/*.py', 'S101')
+
+    expect(perFileIgnoresStore.getAll()).toEqual({
+      'tests/**/*.py': ['D', 'S101'],
+    })
+
+    perFileIgnoresStore.removeRule('tests/**/*.py', 'D')
+    expect(perFileIgnoresStore.getPatternsForRule('S101')).toEqual([
+      'tests/**/*.py',
+    ])
+    expect(perFileIgnoresStore.getPatternsForRule('D')).toEqual([])
+
+    perFileIgnoresStore.removePattern('tests/**/*.py')
+    expect(perFileIgnoresStore.getAll()).toEqual({})
+  })
+
+  it('ストレージに保存される', () => {
+    perFileIgnoresStore.addRule('__init__.py', 'F401')
+
+    const stored = JSON.parse(getStorage().getItem('per-file-ignores') ?? '{}')
+    expect(stored).toEqual({ '__init__.py': ['F401'] })
+  })
+
+  it('mergeは既存のパターンにルールを追加する', () => {
+    perFileIgnoresStore.addRule('__init__.py', 'F401')
+    perFileIgnoresStore.merge({
+      '__init__.py': ['D104', 'F401'],
+      'tests/*.py': ['S101'],
+    })
+
+    expect(perFileIgnoresStore.getAll()).toEqual({
+      '__init__.py': ['D104', 'F401'],
+      'tests/*.py': ['S101'],
+    })
+  })
+
+  it('変更時にper-file-ignores-updatedイベントを発火する', () => {
+    const listener = vi.fn()
+    window.addEventListener('per-file-ignores-updated', listener)
+
+    perFileIgnoresStore.addPattern('tests/*.py')
+    perFileIgnoresStore.clear()
+
+    expect(listener).toHaveBeenCalledTimes(2)
+    window.removeEventListener('per-file-ignores-updated', listener)
+  })
+
+  describe('エクスポート・インポート', () => {
+    const mockRules: RuffRule[] = [
+      {
+        code: 'F401',
+        name: 'unused-import',
+        summary: 'Module imported but unused',
+        category: 'Pyflakes (F)',
+        categoryCode: 'F',
+        status: 'stable',
+        documentUrl: 'https://docs.astral.sh/ruff/rules/unused-import',
+      },
+      {
+        code: 'S101',
+        name: 'assert',
+        summary: 'Use of assert detected',
+        category: 'flake8-bandit (S)',
+        categoryCode: 'S',
+        status: 'stable',
+        documentUrl: 'https://docs.astral.sh/ruff/rules/assert',
+      },
+    ]
+
+    it('ルールのあるパターンだけをper-file-ignoresテーブルに出力する', () => {
+      perFileIgnoresStore.addRule('tests/**/*.py', 'S101')
+      perFileIgnoresStore.addPattern('docs/*.py')
+
+      expect(generateToml(mockRules)).toContain(`
+[tool.ruff.lint.per-file-ignores]
+"tests/**/*.py" = ["S101"]
+`)
+      expect(generateToml(mockRules)).not.toContain('docs/*.py')
+      expect(generateToml(mockRules, { target: 'ruff.toml' })).toContain(
+        '[lint.per-file-ignores]'
+      )
+    })
+
+    it('パターンがない場合はテーブルを出力しない', () => {
+      expect(generateToml(mockRules)).not.toContain('per-file-ignores')
+    })
+
+    it('エクスポートしたper-file-ignoresをインポートで復元できる', () => {
+      perFileIgnoresStore.addRule('tests/**/*.py', 'S101')
+      perFileIgnoresStore.addRule('__init__.py', 'F401')
+
+      const result = importRuffConfig(generateToml(mockRules), mockRules)
+      expect(result.perFileIgnores).toEqual({
+        'tests/**/*.py': ['S101'],
+        '__init__.py': ['F401'],
+      })
+      expect(result.unknownCodes).toEqual([])
+    })
+  })
+})
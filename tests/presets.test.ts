@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest'
+import { existsSync, readdirSync, readFileSync } from 'fs'
+import { join, dirname } from 'path'
+import { fileURLToPath } from 'url'
+import { PRESETS } from '../src/data/presets'
+import type { Preset, RuffRule, RulesData } from '../src/types/rules'
+import { buildPresetSettings, validatePreset } from '../src/utils/presets'
+import { compareVersions } from '../src/utils/rulesDatabase'
+import { createRule } from './helpers/rules'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = dirname(__filename)
+
+const RULES_DIR = join(__dirname, '../src/data/rules')
+
+// fetch-rulesで取得した最新のスナップショット（未取得の場合はnull）
+function loadLatestRules(): RulesData | null {
+  if (!existsSync(RULES_DIR)) return null
+  const [latest] = readdirSync(RULES_DIR)
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => file.replace(/\.json$/, ''))
+    .sort((a, b) => compareVersions(b, a))
+  return latest
+    ? JSON.parse(readFileSync(join(RULES_DIR, `${latest}.json`), 'utf-8'))
+    : null
+}
+
+const rule = (
+  code: string,
+  categoryCode: string,
+  status: RuffRule['status'] = 'stable'
+) => createRule(code, { category: 'Sample', categoryCode, status })
+
+describe('presets', () => {
+  const rules = [
+    rule('D100', 'D'),
+    rule('D203', 'D'),
+    rule('E402', 'E'),
+    rule('E501', 'E'),
+    rule('ERA001', 'ERA'),
+    rule('F401', 'F'),
+    rule('ANN101', 'ANN', 'removed'),
+  ]
+
+  describe('buildPresetSettings', () => {
+    it('selectに含まれないルールは理由付きで無効にする', () => {
+      const preset: Preset = {
+        id: 'default',
+        name: 'default',
+        description: '',
+        select: ['E4', 'F'],
+        ignore: [],
+        unselectedReason: 'デフォルトに含まれない',
+      }
+
+      expect(buildPresetSettings(preset, rules)).toEqual({
+        D100: { enabled: false, comment: 'デフォルトに含まれない' },
+        D203: { enabled: false, comment: 'デフォルトに含まれない' },
+        E402: { enabled: true },
+        E501: { enabled: false, comment: 'デフォルトに含まれない' },
+        ERA001: { enabled: false, comment: 'デフォルトに含まれない' },
+        F401: { enabled: true },
+      })
+    })
+
+    it('最も具体的なignoreの理由を使い、scope外のルールは変更しない', () => {
+      const preset: Preset = {
+        id: 'docstrings',
+        name: 'docstrings',
+        description: '',
+        scope: ['D'],
+        select: ['D'],
+        ignore: [
+          { selector: 'D', reason: 'docstring全体' },
+          { selector: 'D203', reason: 'D211と両立しない' },
+        ],
+      }
+
+      expect(buildPresetSettings(preset, rules)).toEqual({
+        D100: { enabled: false, comment: 'docstring全体' },
+        D203: { enabled: false, comment: 'D211と両立しない' },
+      })
+    })
+  })
+
+  describe('validatePreset', () => {
+    it('どのルールにもマッチしないセレクタと理由の欠落を報告する', () => {
+      const preset: Preset = {
+        id: 'broken',
+        name: 'broken',
+        description: '',
+        select: ['E', 'XYZ'],
+        ignore: [
+          { selector: 'ANN101', reason: '削除済み' },
+          { selector: 'E501', reason: ' ' },
+        ],
+      }
+
+      expect(validatePreset(preset, rules)).toEqual([
+        'broken: XYZ matches no rules',
+        'broken: ANN101 matches no rules',
+        'broken: E501 has no reason',
+        'broken: unselected rules have no reason',
+      ])
+    })
+  })
+
+  describe('組み込みのプリセット', () => {
+    it('IDが重複していない', () => {
+      const ids = PRESETS.map((preset) => preset.id)
+      expect(new Set(ids).size).toBe(ids.length)
+    })
+
+    const latest = loadLatestRules()
+
+    it.skipIf(!latest).each(PRESETS.map((preset) => [preset.id, preset]))(
+      '%s がrules.jsonのルールと矛盾しない',
+      (_id, preset) => {
+        expect(validatePreset(preset as Preset, latest!.rules)).toEqual([])
+      }
+    )
+  })
+})
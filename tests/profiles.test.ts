@@ -0,0 +1,222 @@
+import { describe, it, expect, vi } from 'vitest'
+import { perFileIgnoresStore } from '../src/utils/perFileIgnores'
+import {
+  getProfileKeys,
+  getProfileStorageKey,
+} from '../src/utils/profileStorage'
+import { profileStore } from '../src/utils/profiles'
+import { ruleOptionsStore } from '../src/utils/ruleOptions'
+import { ruleSettingsStore } from '../src/utils/ruleSettings'
+import { getStorage } from '../src/utils/storageAdapters'
+
+describe('profiles', () => {
+  describe('getProfileStorageKey', () => {
+    it('デフォルトのプロファイルは従来のキーを使う', () => {
+      expect(getProfileStorageKey('rule-E501')).toBe('rule-E501')
+      expect(getProfileStorageKey('rule-E501', 'abc')).toBe(
+        'profile:abc:rule-E501'
+      )
+    })
+  })
+
+  describe('getProfileKeys', () => {
+    it('プロファイルに属するキーだけを返す', () => {
+      getStorage().setItem('rule-E501', '{}')
+      getStorage().setItem('per-file-ignores', '{}')
+      getStorage().setItem('profile:abc:rule-D100', '{}')
+      getStorage().setItem('profiles', '[]')
+      // 同じオリジンの他のサイトのキー
+      getStorage().setItem('other-app-theme', 'dark')
+      getStorage().setItem('profile:abc:other-app-theme', 'dark')
+
+      // "settings"はテストの前処理で保存されたルール設定のドキュメント
+      expect(getProfileKeys('default')).toEqual([
+        'per-file-ignores',
+        'rule-E501',
+        'settings',
+      ])
+      expect(getProfileKeys('abc')).toEqual(['rule-D100'])
+    })
+  })
+
+  describe('profileStore', () => {
+    it('初期状態ではデフォルトのプロファイルのみ', () => {
+      expect(profileStore.getAll()).toEqual([
+        { id: 'default', name: 'デフォルト' },
+      ])
+      expect(profileStore.getActive().id).toBe('default')
+    })
+
+    it('プロファイルごとに別の設定を保存する', () => {
+      ruleSettingsStore.set('E501', { enabled: false })
+      perFileIgnoresStore.addRule('tests/**', 'S101')
+
+      const library = profileStore.create('ライブラリ用')
+
+      expect(profileStore.getActive()).toEqual(library)
+      expect(ruleSettingsStore.getSyncWithStorage('E501')).toEqual({
+        enabled: true,
+      })
+      expect(perFileIgnoresStore.getAll()).toEqual({})
+
+      ruleOptionsStore.set('lint.pylint.max-args', '8')
+      profileStore.switch('default')
+
+      expect(ruleSettingsStore.getSyncWithStorage('E501')).toEqual({
+        enabled: false,
+      })
+      expect(perFileIgnoresStore.getAll()).toEqual({ 'tests/**': ['S101'] })
+      expect(ruleOptionsStore.getAll()).toEqual({})
+    })
+
+    it('切り替え時にprofile-changedイベントを発火する', () => {
+      const listener = vi.fn()
+      window.addEventListener('profile-changed', listener)
+
+      const profile = profileStore.create('サービス用')
+
+      expect(listener.mock.calls[0][0].detail).toEqual({
+        profileId: profile.id,
+      })
+      window.removeEventListener('profile-changed', listener)
+    })
+
+    it('複製したプロファイルは設定を引き継ぐ', () => {
+      ruleSettingsStore.set('E501', { enabled: false, comment: 'formatter' })
+
+      profileStore.duplicate('default', 'コピー')
+      ruleSettingsStore.set('D100', { enabled: false })
+
+      expect(ruleSettingsStore.getStoredCodes()).toEqual(['D100', 'E501'])
+      profileStore.switch('default')
+      expect(ruleSettingsStore.getStoredCodes()).toEqual(['E501'])
+    })
+
+    it('名前を変更できる（空や重複はエラー）', () => {
+      const profile = profileStore.create('notebook')
+
+      profileStore.rename(profile.id, '  ノートブック\n用 ')
+
+      expect(profileStore.getActive().name).toBe('ノートブック 用')
+      expect(() => profileStore.rename(profile.id, ' ')).toThrow(
+        'Profile name is empty'
+      )
+      expect(() => profileStore.rename('default', 'ノートブック 用')).toThrow(
+        'Profile already exists: ノートブック 用'
+      )
+    })
+
+    it('削除するとプロファイルの設定も削除し、別のプロファイルに切り替える', () => {
+      const profile = profileStore.create('一時的')
+      ruleSettingsStore.set('E501', { enabled: false })
+
+      profileStore.delete(profile.id)
+
+      expect(profileStore.getAll().map((p) => p.id)).toEqual(['default'])
+      expect(profileStore.getActive().id).toBe('default')
+      expect(getProfileKeys(profile.id)).toEqual([])
+      expect(() => profileStore.delete('default')).toThrow(
+        'Cannot delete the last profile'
+      )
+    })
+
+    it('デフォルトのプロファイルは削除できない', () => {
+      profileStore.create('別のプロファイル')
+
+      expect(() => profileStore.delete('default')).toThrow(
+        'Cannot delete the default profile'
+      )
+      expect(profileStore.getAll().map((p) => p.id)).toContain('default')
+    })
+
+    it('同じオリジンの他のサイトのキーは複製・削除しない', () => {
+      getStorage().setItem('other-app-theme', 'dark')
+      ruleSettingsStore.set('E501', { enabled: false })
+
+      const profile = profileStore.duplicate('default', 'コピー')
+      expect(getStorage().keys()).not.toContain(
+        `profile:${profile.id}:other-app-theme`
+      )
+      expect(ruleSettingsStore.getSyncWithStorage('E501')).toEqual({
+        enabled: false,
+      })
+
+      profileStore.delete(profile.id)
+      profileStore.clear()
+      expect(getStorage().getItem('other-app-theme')).toBe('dark')
+    })
+
+    it('リセットは選択中のプロファイルの設定のみを削除する', () => {
+      ruleSettingsStore.set('E501', { enabled: false })
+      profileStore.create('別のプロファイル')
+      ruleSettingsStore.set('D100', { enabled: false })
+
+      ruleSettingsStore.clearAll()
+
+      expect(ruleSettingsStore.getStoredCodes()).toEqual([])
+      profileStore.switch('default')
+      expect(ruleSettingsStore.getStoredCodes()).toEqual(['E501'])
+    })
+  })
+
+  describe('ストレージのエラー', () => {
+    const quotaError = () =>
+      new DOMException('The quota has been exceeded.', 'QuotaExceededError')
+
+    it('切り替えを保存できない場合はエラーを通知し、切り替えない', () => {
+      const profile = profileStore.create('サービス')
+      profileStore.switch('default')
+      const listener = vi.fn()
+      window.addEventListener('storage-error', listener)
+      const consoleErrorSpy = vi
+        .spyOn(console, 'error')
+        .mockImplementation(() => {})
+      const setItemSpy = vi
+        .spyOn(getStorage(), 'setItem')
+        .mockImplementation(() => {
+          throw quotaError()
+        })
+
+      expect(() => profileStore.switch(profile.id)).not.toThrow()
+
+      setItemSpy.mockRestore()
+      consoleErrorSpy.mockRestore()
+      window.removeEventListener('storage-error', listener)
+      expect(profileStore.getActive().id).toBe('default')
+      expect((listener.mock.calls[0][0] as CustomEvent).detail).toEqual({
+        message:
+          'プロファイルを切り替えられませんでした（ブラウザの保存容量が不足しています）',
+      })
+    })
+
+    it('複製の途中で失敗した場合はコピーした設定を残さない', () => {
+      ruleSettingsStore.set('E501', { enabled: false })
+      perFileIgnoresStore.addRule('tests/*', 'S101')
+      const consoleErrorSpy = vi
+        .spyOn(console, 'error')
+        .mockImplementation(() => {})
+      // 2つ目のキーのコピーで容量を超える
+      const setItem = getStorage().setItem.bind(getStorage())
+      let calls = 0
+      const setItemSpy = vi
+        .spyOn(getStorage(), 'setItem')
+        .mockImplementation((key, value) => {
+          if (++calls === 2) throw quotaError()
+          setItem(key, value)
+        })
+
+      expect(() => profileStore.duplicate('default', 'コピー')).toThrow(
+        'Failed to copy profile settings'
+      )
+
+      setItemSpy.mockRestore()
+      consoleErrorSpy.mockRestore()
+      expect(profileStore.getAll().map((p) => p.id)).toEqual(['default'])
+      expect(
+        getStorage()
+          .keys()
+          .filter((key) => key.startsWith('profile:'))
+      ).toEqual([])
+    })
+  })
+})
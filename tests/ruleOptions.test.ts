@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from 'vitest'
+import { generateToml } from '../src/utils/exportToml'
+import { parseToml } from '../src/utils/parseToml'
+import {
+  formatOptionValue,
+  getOptionDocumentUrl,
+  ruleOptionsStore,
+} from '../src/utils/ruleOptions'
+import { getStorage } from '../src/utils/storageAdapters'
+import type { RuffRule } from '../src/types/rules'
+
+describe('ruleOptions', () => {
+  describe('formatOptionValue', () => {
+    it('数値と真偽値はそのまま出力する', () => {
+      expect(formatOptionValue('10')).toBe('10')
+      expect(formatOptionValue(' true ')).toBe('true')
+    })
+
+    it('文字列はクォートする（クォートなしの入力も文字列として扱う）', () => {
+      expect(formatOptionValue('google')).toBe('"google"')
+      expect(formatOptionValue("'numpy'")).toBe('"numpy"')
+    })
+
+    it('配列を整形する（要素の型は保つ）', () => {
+      expect(formatOptionValue("['self', 'cls' ]")).toBe('["self", "cls"]')
+      expect(formatOptionValue('[1, 2]')).toBe('[1, 2]')
+      expect(formatOptionValue('[true, "a", [1]]')).toBe('[true, "a", [1]]')
+    })
+
+    it('インラインテーブルを整形する', () => {
+      // lint.flake8-tidy-imports.banned-api
+      expect(
+        formatOptionValue(
+          '{ "typing.TypedDict".msg = "Use typing_extensions" }'
+        )
+      ).toBe('{ "typing.TypedDict" = { msg = "Use typing_extensions" } }')
+      // lint.flake8-import-conventions.aliases
+      expect(formatOptionValue("{altair = 'alt', numpy='np'}")).toBe(
+        '{ altair = "alt", numpy = "np" }'
+      )
+    })
+
+    it('空欄や不正な値はエラーになる', () => {
+      expect(() => formatOptionValue('  ')).toThrow('Option value is empty')
+      expect(() => formatOptionValue('[1, 2')).toThrow('unterminated array')
+      expect(() => formatOptionValue('{ a = }')).toThrow('missing value')
+      expect(() => formatOptionValue('"a" "b"')).toThrow(
+        'unexpected characters after value'
+      )
+    })
+  })
+
+  it('getOptionDocumentUrlは設定ページのアンカーを返す', () => {
+    expect(getOptionDocumentUrl('lint.mccabe.max-complexity')).toBe(
+      'https://docs.astral.sh/ruff/settings/#lint_mccabe_max-complexity'
+    )
+  })
+
+  describe('ruleOptionsStore', () => {
+    it('設定値を保存・削除でき、変更時にイベントを発火する', () => {
+      const listener = vi.fn()
+      window.addEventListener('rule-options-updated', listener)
+
+      ruleOptionsStore.set('lint.mccabe.max-complexity', '10')
+      expect(ruleOptionsStore.get('lint.mccabe.max-complexity')).toBe('10')
+      expect(JSON.parse(getStorage().getItem('rule-options') ?? '{}')).toEqual({
+        'lint.mccabe.max-complexity': '10',
+      })
+
+      ruleOptionsStore.remove('lint.mccabe.max-complexity')
+      expect(ruleOptionsStore.getAll()).toEqual({})
+      expect(listener).toHaveBeenCalledTimes(2)
+
+      window.removeEventListener('rule-options-updated', listener)
+    })
+  })
+
+  describe('エクスポート', () => {
+    const mockRules: RuffRule[] = [
+      {
+        code: 'C901',
+        name: 'complex-structure',
+        summary: 'Function is too complex',
+        category: 'mccabe (C90)',
+        categoryCode: 'C',
+        status: 'stable',
+        documentUrl: 'https://docs.astral.sh/ruff/rules/complex-structure',
+        options: ['lint.mccabe.max-complexity'],
+      },
+    ]
+
+    it('設定値をプラグインごとのテーブルに出力する', () => {
+      ruleOptionsStore.set('lint.mccabe.max-complexity', '10')
+      ruleOptionsStore.set('lint.pylint.max-args', '8')
+      ruleOptionsStore.set('lint.pylint.allow-magic-value-types', '["int"]')
+
+      const toml = generateToml(mockRules)
+      expect(toml).toContain(`
+[tool.ruff.lint.mccabe]
+max-complexity = 10
+`)
+      expect(toml).toContain(`
+[tool.ruff.lint.pylint]
+allow-magic-value-types = ["int"]
+max-args = 8
+`)
+      expect(generateToml(mockRules, { target: 'ruff.toml' })).toContain(
+        '[lint.mccabe]'
+      )
+    })
+
+    it('トップレベルとlint直下の設定は既存のテーブルにまとめる', () => {
+      ruleOptionsStore.set('line-length', '100')
+      ruleOptionsStore.set('lint.task-tags', '["TODO"]')
+
+      const pyproject = generateToml(mockRules)
+      expect(pyproject.startsWith('[tool.ruff]\nline-length = 100\n')).toBe(
+        true
+      )
+      expect(pyproject).toContain('task-tags = ["TODO"]')
+
+      const doc = parseToml(pyproject)
+      expect(doc['tool.ruff.line-length']).toBe(100)
+      expect(doc['tool.ruff.lint.task-tags']).toEqual([{ value: 'TODO' }])
+
+      const ruffToml = parseToml(
+        generateToml(mockRules, { target: 'ruff.toml' })
+      )
+      expect(ruffToml['line-length']).toBe(100)
+      expect(ruffToml['lint.task-tags']).toEqual([{ value: 'TODO' }])
+    })
+
+    it('設定値がない場合は追加のテーブルを出力しない', () => {
+      expect(generateToml(mockRules)).toBe(
+        '[tool.ruff.lint]\nselect = ["ALL"]\n# All rules are enabled (no rules disabled in RuffMate)\n'
+      )
+    })
+  })
+})
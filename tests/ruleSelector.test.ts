@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import {
+  matchesSelector,
+  resolveSelector,
+  selectorSpecificity,
+} from '../src/utils/ruleSelector'
+import { createRule } from './helpers/rules'
+
+describe('ruleSelector', () => {
+  const rules = ['E501', 'ERA001', 'D100', 'D203', 'PLR0913', 'PLC0414'].map(
+    (code) => createRule(code)
+  )
+
+  describe('matchesSelector', () => {
+    it('ALLは全てのルールにマッチする', () => {
+      expect(rules.every((r) => matchesSelector(r, 'ALL'))).toBe(true)
+    })
+
+    it('リンターのプレフィックスは別リンターのルールにマッチしない', () => {
+      expect(matchesSelector(createRule('E501'), 'E')).toBe(true)
+      expect(matchesSelector(createRule('ERA001'), 'E')).toBe(false)
+    })
+
+    it('PLはPylintの全カテゴリにマッチする', () => {
+      expect(resolveSelector(rules, 'PL').map((r) => r.code)).toEqual([
+        'PLR0913',
+        'PLC0414',
+      ])
+    })
+
+    it('コードのプレフィックスにマッチする', () => {
+      expect(resolveSelector(rules, 'D2').map((r) => r.code)).toEqual(['D203'])
+      expect(resolveSelector(rules, 'PLR09').map((r) => r.code)).toEqual([
+        'PLR0913',
+      ])
+    })
+  })
+
+  describe('selectorSpecificity', () => {
+    it('より具体的なセレクタほど大きい値になる', () => {
+      expect(selectorSpecificity('ALL')).toBeLessThan(selectorSpecificity('E'))
+      expect(selectorSpecificity('E')).toBeLessThan(selectorSpecificity('E5'))
+      expect(selectorSpecificity('E5')).toBeLessThan(
+        selectorSpecificity('E501')
+      )
+    })
+  })
+})
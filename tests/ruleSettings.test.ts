@@ -1,11 +1,16 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { ruleSettingsStore } from '../src/utils/ruleSettings'
+import {
+  MemoryStorageAdapter,
+  getStorage,
+  setStorageAdapter,
+} from '../src/utils/storageAdapters'
 
 describe('RuleSettingsStore', () => {
   beforeEach(() => {
     // 各テストの前にキャッシュをクリア
     ruleSettingsStore.clearAll()
-    localStorage.clear()
+    setStorageAdapter(new MemoryStorageAdapter())
   })
 
   describe('getSync', () => {
@@ -37,11 +42,14 @@ describe('RuleSettingsStore', () => {
       expect(result).toEqual({ enabled: false, comment: 'test' })
     })
 
-    it('キャッシュになくlocalStorageにある場合はlocalStorageから読む', () => {
-      ruleSettingsStore.clearAll()
-      localStorage.setItem(
-        'rule-E501',
-        JSON.stringify({ enabled: false, comment: 'stored' })
+    it('キャッシュになくストレージにある場合はストレージから読む', () => {
+      ruleSettingsStore.clearCache()
+      getStorage().setItem(
+        'settings',
+        JSON.stringify({
+          version: 2,
+          rules: { E501: { enabled: false, comment: 'stored' } },
+        })
       )
 
       const result = ruleSettingsStore.getSyncWithStorage('E501')
@@ -52,17 +60,17 @@ describe('RuleSettingsStore', () => {
       expect(cached).toEqual({ enabled: false, comment: 'stored' })
     })
 
-    it('キャッシュにもlocalStorageにもない場合はデフォルト値を返す', () => {
+    it('キャッシュにもストレージにもない場合はデフォルト値を返す', () => {
       ruleSettingsStore.clearAll()
-      localStorage.removeItem('rule-E501')
+      getStorage().removeItem('rule-E501')
 
       const result = ruleSettingsStore.getSyncWithStorage('E501')
       expect(result).toEqual({ enabled: true })
     })
 
-    it('localStorageの読み込みエラー時はデフォルト値を返す', () => {
-      ruleSettingsStore.clearAll()
-      localStorage.setItem('rule-E501', 'invalid json')
+    it('ストレージの読み込みエラー時はデフォルト値を返す', () => {
+      ruleSettingsStore.clearCache()
+      getStorage().setItem('settings', 'invalid json')
 
       const consoleErrorSpy = vi
         .spyOn(console, 'error')
@@ -77,7 +85,7 @@ describe('RuleSettingsStore', () => {
   })
 
   describe('load', () => {
-    it('localStorageに保存されていない場合はデフォルト値を返す', async () => {
+    it('ストレージに保存されていない場合はデフォルト値を返す', async () => {
       const callback = vi.fn()
 
       await new Promise<void>((resolve) => {
@@ -93,9 +101,9 @@ describe('RuleSettingsStore', () => {
       })
     })
 
-    it('localStorageに保存されている場合はその値を返す', async () => {
-      // 事前にlocalStorageに保存
-      localStorage.setItem(
+    it('ストレージに保存されている場合はその値を返す', async () => {
+      // 事前にストレージに保存
+      getStorage().setItem(
         'rule-E501',
         JSON.stringify({ enabled: false, comment: 'テスト除外理由' })
       )
@@ -163,11 +171,14 @@ describe('RuleSettingsStore', () => {
   })
 
   describe('set', () => {
-    it('localStorageに保存される', () => {
+    it('ストレージに保存される', () => {
       ruleSettingsStore.set('E501', { enabled: false, comment: 'テスト' })
 
-      const stored = window.localStorage.getItem('rule-E501')
-      expect(stored).toBe(JSON.stringify({ enabled: false, comment: 'テスト' }))
+      const stored = JSON.parse(getStorage().getItem('settings')!)
+      expect(stored).toEqual({
+        version: 2,
+        rules: { E501: { enabled: false, comment: 'テスト' } },
+      })
     })
 
     it('キャッシュも更新される', async () => {
@@ -194,10 +205,76 @@ describe('RuleSettingsStore', () => {
     })
   })
 
+  describe('setMany', () => {
+    it('複数の設定を保存し、settings-updatedイベントを発行する', () => {
+      const listener = vi.fn()
+      window.addEventListener('settings-updated', listener)
+
+      ruleSettingsStore.setMany({
+        E501: { enabled: false, comment: 'テスト' },
+        F401: { enabled: true },
+      })
+
+      window.removeEventListener('settings-updated', listener)
+
+      expect(ruleSettingsStore.getSync('E501')).toEqual({
+        enabled: false,
+        comment: 'テスト',
+      })
+      expect(JSON.parse(getStorage().getItem('settings')!).rules.F401).toEqual({
+        enabled: true,
+      })
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect((listener.mock.calls[0][0] as CustomEvent).detail).toEqual({
+        ruleCodes: ['E501', 'F401'],
+      })
+    })
+  })
+
+  describe('clearAll', () => {
+    it('ストレージのキーを走査せずに設定を空にする', () => {
+      ruleSettingsStore.set('E501', { enabled: false })
+      const keySpy = vi.spyOn(getStorage(), 'keys')
+
+      ruleSettingsStore.clearAll()
+
+      expect(keySpy).not.toHaveBeenCalled()
+      expect(ruleSettingsStore.getStoredCodes()).toEqual([])
+      keySpy.mockRestore()
+    })
+  })
+
+  describe('getStoredCodes', () => {
+    it('設定が保存されているルールコードを返す（他のストアのキーは除く）', () => {
+      ruleSettingsStore.set('E501', { enabled: false })
+      ruleSettingsStore.set('ANN101', { enabled: true, comment: 'test' })
+      getStorage().setItem('rule-options', '{}')
+
+      expect(ruleSettingsStore.getStoredCodes()).toEqual(['ANN101', 'E501'])
+    })
+  })
+
+  describe('remove', () => {
+    it('設定を削除してsettings-updatedイベントを発火する', () => {
+      const listener = vi.fn()
+      window.addEventListener('settings-updated', listener)
+      ruleSettingsStore.set('E501', { enabled: false })
+
+      ruleSettingsStore.remove('E501')
+
+      expect(
+        JSON.parse(getStorage().getItem('settings')!).rules
+      ).not.toHaveProperty('E501')
+      expect(ruleSettingsStore.getSync('E501')).toEqual({ enabled: true })
+      expect(listener.mock.calls[0][0].detail).toEqual({ ruleCodes: ['E501'] })
+      window.removeEventListener('settings-updated', listener)
+    })
+  })
+
   describe('エラーハンドリング', () => {
-    it('localStorageの読み込みに失敗した場合はデフォルト値を返す', async () => {
+    it('ストレージの読み込みに失敗した場合はデフォルト値を返す', async () => {
       // 不正なJSONを保存
-      localStorage.setItem('rule-E501', 'invalid json')
+      getStorage().setItem('rule-E501', 'invalid json')
 
       const callback = vi.fn()
       const consoleErrorSpy = vi
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import {
+  compareVersions,
+  getVersionPath,
+  indexSnapshots,
+  toRuleInfo,
+} from '../src/utils/rulesDatabase'
+import type { RulesData } from '../src/types/rules'
+import { createRule } from './helpers/rules'
+
+describe('rulesDatabase', () => {
+  describe('compareVersions', () => {
+    it('各要素を数値として比較する', () => {
+      expect(compareVersions('0.4.10', '0.14.0')).toBeLessThan(0)
+      expect(compareVersions('0.14.10', '0.14.9')).toBeGreaterThan(0)
+      expect(compareVersions('0.5', '0.5.0')).toBe(0)
+    })
+  })
+
+  describe('indexSnapshots', () => {
+    const snapshot = (version: string): RulesData => ({
+      version: { version, fetchedAt: '2025-01-01T00:00:00.000Z' },
+      rules: [],
+    })
+
+    it('スナップショットを新しいバージョン順に並べる', () => {
+      const index = indexSnapshots([
+        snapshot('0.4.10'),
+        snapshot('0.14.10'),
+        snapshot('0.9.0'),
+      ])
+
+      expect([...index.keys()]).toEqual(['0.14.10', '0.9.0', '0.4.10'])
+      expect(index.get('0.9.0')?.version.version).toBe('0.9.0')
+    })
+  })
+
+  describe('getVersionPath', () => {
+    it('最新版はトップページ、それ以外はバージョンごとのページを返す', () => {
+      expect(getVersionPath('/RuffMate/', '0.14.10', '0.14.10')).toBe(
+        '/RuffMate/'
+      )
+      expect(getVersionPath('/RuffMate', '0.4.10', '0.14.10')).toBe(
+        '/RuffMate/v/0.4.10/'
+      )
+    })
+  })
+
+  describe('toRuleInfo', () => {
+    it('説明や例を除いたルールの情報を返す', () => {
+      const rule = createRule('E501', {
+        summary: 'Line too long',
+        whyBad: '長い行は読みにくい',
+        example: 'x = 1',
+        options: ['line-length'],
+        fixAvailability: 'none',
+      })
+
+      expect(toRuleInfo(rule)).toEqual({
+        code: 'E501',
+        name: 'e501',
+        category: '',
+        categoryCode: 'E',
+        status: 'stable',
+        fixAvailability: 'none',
+      })
+      expect(toRuleInfo(createRule('F401'))).not.toHaveProperty(
+        'fixAvailability'
+      )
+    })
+  })
+})
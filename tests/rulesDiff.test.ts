@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import { diffRules, formatRulesDiffMarkdown } from '../src/utils/rulesDiff'
+import type { RuffRule, RulesData } from '../src/types/rules'
+import { createRule } from './helpers/rules'
+
+const rule = (code: string, status: RuffRule['status']) =>
+  createRule(code, {
+    name: `rule-${code.toLowerCase()}`,
+    category: 'Sample',
+    status,
+    documentUrl: `https://docs.astral.sh/ruff/rules/rule-${code.toLowerCase()}/`,
+  })
+
+const snapshot = (version: string, rules: RuffRule[]): RulesData => ({
+  version: { version, fetchedAt: '2025-01-01T00:00:00.000Z' },
+  rules,
+})
+
+describe('rulesDiff', () => {
+  const from = snapshot('0.4.10', [
+    rule('ANN101', 'stable'),
+    rule('E501', 'stable'),
+    rule('FURB101', 'preview'),
+    rule('PD901', 'stable'),
+  ])
+  const to = snapshot('0.14.10', [
+    rule('E501', 'stable'),
+    rule('FURB101', 'stable'),
+    rule('PD901', 'deprecated'),
+    rule('ASYNC212', 'preview'),
+  ])
+
+  describe('diffRules', () => {
+    it('追加・削除・ステータスが変わったルールを返す', () => {
+      const diff = diffRules(from, to)
+
+      expect(diff.from).toBe('0.4.10')
+      expect(diff.to).toBe('0.14.10')
+      expect(diff.added.map((r) => r.code)).toEqual(['ASYNC212'])
+      expect(diff.removed.map((r) => r.code)).toEqual(['ANN101'])
+      expect(
+        diff.statusChanges.map((c) => [c.rule.code, c.before, c.after])
+      ).toEqual([
+        ['FURB101', 'preview', 'stable'],
+        ['PD901', 'stable', 'deprecated'],
+      ])
+    })
+
+    it('同じスナップショットでは差分がない', () => {
+      const diff = diffRules(from, from)
+
+      expect(diff.added).toEqual([])
+      expect(diff.removed).toEqual([])
+      expect(diff.statusChanges).toEqual([])
+    })
+  })
+
+  describe('formatRulesDiffMarkdown', () => {
+    it('変更の種類ごとにドキュメントへのリンク付きで出力する', () => {
+      const markdown = formatRulesDiffMarkdown(diffRules(from, to))
+
+      expect(markdown).toBe(`# Ruff rule changes: 0.4.10 → 0.14.10
+
+## Added (1)
+
+- [\`ASYNC212\`](https://docs.astral.sh/ruff/rules/rule-async212/) rule-async212 (preview)
+
+## Removed (1)
+
+- [\`ANN101\`](https://docs.astral.sh/ruff/rules/rule-ann101/) rule-ann101
+
+## Promoted to stable (1)
+
+- [\`FURB101\`](https://docs.astral.sh/ruff/rules/rule-furb101/) rule-furb101 (preview → stable)
+
+## Deprecated (1)
+
+- [\`PD901\`](https://docs.astral.sh/ruff/rules/rule-pd901/) rule-pd901 (stable → deprecated)
+`)
+    })
+
+    it('変更がない場合はその旨を出力する', () => {
+      expect(formatRulesDiffMarkdown(diffRules(from, from))).toContain(
+        'No rule changes.'
+      )
+    })
+  })
+})
@@ -0,0 +1,243 @@
+import { describe, it, expect, vi } from 'vitest'
+import { ruleSettingsStore } from '../src/utils/ruleSettings'
+import {
+  SETTINGS_SCHEMA_VERSION,
+  type SettingsDocument,
+  loadSettingsDocument,
+  mergeSettingsDocuments,
+  mergeStoredSettings,
+  saveSettingsDocument,
+} from '../src/utils/settingsStorage'
+import { getStorage } from '../src/utils/storageAdapters'
+import { getLastStorageError } from '../src/utils/storageErrors'
+
+// ルール設定のドキュメントが無い状態（バージョン1の形式のみ）にする
+const clearDocument = () => {
+  getStorage().removeItem('settings')
+  ruleSettingsStore.clearCache()
+}
+
+const quotaError = () =>
+  new DOMException('The quota has been exceeded.', 'QuotaExceededError')
+
+describe('loadSettingsDocument', () => {
+  it('ルールごとのキーをドキュメントに移行し、古いキーを削除する', () => {
+    clearDocument()
+    getStorage().setItem('rule-E501', JSON.stringify({ enabled: false }))
+    getStorage().setItem('rule-options', JSON.stringify({ a: '1' }))
+    getStorage().setItem(
+      'profile:abc:rule-D100',
+      JSON.stringify({ enabled: false })
+    )
+
+    expect(loadSettingsDocument('default')).toEqual({
+      version: SETTINGS_SCHEMA_VERSION,
+      rules: { E501: { enabled: false } },
+    })
+    expect(getStorage().getItem('rule-E501')).toBeNull()
+    // 他のストアのキーと他のプロファイルのキーは残す
+    expect(getStorage().getItem('rule-options')).not.toBeNull()
+    expect(getStorage().getItem('profile:abc:rule-D100')).not.toBeNull()
+
+    expect(loadSettingsDocument('abc').rules).toEqual({
+      D100: { enabled: false },
+    })
+    expect(getStorage().getItem('profile:abc:rule-D100')).toBeNull()
+  })
+
+  it('移行後の保存に失敗した場合は古いキーを残す', () => {
+    clearDocument()
+    getStorage().setItem('rule-E501', JSON.stringify({ enabled: false }))
+    const consoleErrorSpy = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {})
+    const setItemSpy = vi
+      .spyOn(getStorage(), 'setItem')
+      .mockImplementation(() => {
+        throw quotaError()
+      })
+
+    expect(loadSettingsDocument().rules).toEqual({ E501: { enabled: false } })
+
+    setItemSpy.mockRestore()
+    consoleErrorSpy.mockRestore()
+    expect(getStorage().getItem('rule-E501')).not.toBeNull()
+    expect(getStorage().getItem('settings')).toBeNull()
+  })
+
+  it('読み込めないドキュメントはエラーを通知して空の設定を返す', () => {
+    getStorage().setItem('settings', 'invalid json')
+    const listener = vi.fn()
+    window.addEventListener('storage-error', listener)
+    const consoleErrorSpy = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {})
+
+    expect(loadSettingsDocument().rules).toEqual({})
+
+    window.removeEventListener('storage-error', listener)
+    consoleErrorSpy.mockRestore()
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect((listener.mock.calls[0][0] as CustomEvent).detail).toEqual({
+      message: '保存されたルールの設定を読み込めませんでした',
+    })
+  })
+
+  it.each(['null', '{"version":2}', '{"version":"2","rules":{}}'])(
+    '形式の異なるドキュメント（%s）はエラーを通知して空の設定を返す',
+    (stored) => {
+      getStorage().setItem('settings', stored)
+      ruleSettingsStore.clearCache()
+      const consoleErrorSpy = vi
+        .spyOn(console, 'error')
+        .mockImplementation(() => {})
+
+      expect(loadSettingsDocument().rules).toEqual({})
+      expect(ruleSettingsStore.getSyncWithStorage('E501')).toEqual({
+        enabled: true,
+      })
+
+      consoleErrorSpy.mockRestore()
+      expect(getLastStorageError()).toBe(
+        '保存されたルールの設定を読み込めませんでした'
+      )
+    }
+  )
+
+  it('新しいバージョンのドキュメントは警告して読み込む', () => {
+    getStorage().setItem(
+      'settings',
+      JSON.stringify({ version: 99, rules: { E501: { enabled: false } } })
+    )
+    const consoleErrorSpy = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {})
+
+    expect(loadSettingsDocument().rules).toEqual({ E501: { enabled: false } })
+
+    consoleErrorSpy.mockRestore()
+    expect(getLastStorageError()).toContain('新しいバージョン')
+  })
+})
+
+describe('新しいバージョンのドキュメント', () => {
+  it('変更しても現在のバージョンの形式で上書きしない', () => {
+    const stored = JSON.stringify({
+      version: 99,
+      rules: { E501: { enabled: false } },
+      extra: 'newer data',
+    })
+    getStorage().setItem('settings', stored)
+    ruleSettingsStore.clearCache()
+    const consoleErrorSpy = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {})
+
+    ruleSettingsStore.set('F401', { enabled: false })
+
+    consoleErrorSpy.mockRestore()
+    expect(getStorage().getItem('settings')).toBe(stored)
+    expect(getLastStorageError()).toBe(
+      '新しいバージョンのRuffMateで保存された設定のため、変更を保存できませんでした'
+    )
+    // メモリ上の設定は変更される
+    expect(ruleSettingsStore.getSync('F401')).toEqual({ enabled: false })
+  })
+})
+
+describe('saveSettingsDocument', () => {
+  it('容量を超えた場合はエラーを通知してfalseを返す', () => {
+    const listener = vi.fn()
+    window.addEventListener('storage-error', listener)
+    const consoleErrorSpy = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {})
+    const setItemSpy = vi
+      .spyOn(getStorage(), 'setItem')
+      .mockImplementation(() => {
+        throw quotaError()
+      })
+
+    expect(saveSettingsDocument({ version: 2, rules: {} })).toBe(false)
+
+    setItemSpy.mockRestore()
+    consoleErrorSpy.mockRestore()
+    window.removeEventListener('storage-error', listener)
+    expect((listener.mock.calls[0][0] as CustomEvent).detail).toEqual({
+      message:
+        'ルールの設定を保存できませんでした（ブラウザの保存容量が不足しています）',
+    })
+  })
+
+  it('保存に失敗してもストアのメモリ上の設定は変更される', () => {
+    const consoleErrorSpy = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {})
+    const setItemSpy = vi
+      .spyOn(getStorage(), 'setItem')
+      .mockImplementation(() => {
+        throw quotaError()
+      })
+
+    ruleSettingsStore.setMany({ E501: { enabled: false } })
+
+    setItemSpy.mockRestore()
+    consoleErrorSpy.mockRestore()
+    expect(ruleSettingsStore.getSync('E501')).toEqual({ enabled: false })
+  })
+})
+
+describe('mergeSettingsDocuments', () => {
+  const doc = (rules: SettingsDocument['rules']) => ({ version: 2, rules })
+
+  it('このタブで変更したルールのみ他のタブの設定に重ねる', () => {
+    const base = doc({ E501: { enabled: false }, D100: { enabled: false } })
+    // このタブ: E501を有効に戻し、F401を無効にした
+    const local = doc({ D100: { enabled: false }, F401: { enabled: false } })
+    // 他のタブ: D100にコメントを付け、W291を無効にした
+    const remote = doc({
+      E501: { enabled: false },
+      D100: { enabled: false, comment: '不要' },
+      W291: { enabled: false },
+    })
+
+    expect(mergeSettingsDocuments(base, local, remote)).toEqual(
+      doc({
+        D100: { enabled: false, comment: '不要' },
+        F401: { enabled: false },
+        W291: { enabled: false },
+      })
+    )
+  })
+})
+
+describe('mergeStoredSettings', () => {
+  const stored = (rules: SettingsDocument['rules'], version = 2) =>
+    JSON.stringify({ version, rules })
+
+  it('各プロファイルのドキュメントをまとめる', () => {
+    const local = stored({ E501: { enabled: false } })
+    const remote = stored({ F401: { enabled: false } })
+
+    for (const key of ['settings', 'profile:abc:settings']) {
+      expect(
+        JSON.parse(mergeStoredSettings(key, null, local, remote)!).rules
+      ).toEqual({ E501: { enabled: false }, F401: { enabled: false } })
+    }
+  })
+
+  it('それ以外のキーやまとめられない値はこのタブの値を使う', () => {
+    const local = stored({ E501: { enabled: false } })
+    const remote = stored({ F401: { enabled: false } })
+
+    expect(mergeStoredSettings('history', null, local, remote)).toBe(local)
+    expect(mergeStoredSettings('settings', null, null, remote)).toBeNull()
+    expect(mergeStoredSettings('settings', null, local, null)).toBe(local)
+    expect(mergeStoredSettings('settings', null, local, stored({}, 99))).toBe(
+      local
+    )
+    expect(mergeStoredSettings('settings', 'invalid', local, remote)).toBe(
+      local
+    )
+  })
+})
@@ -1,46 +1,32 @@
 import { beforeEach, afterEach, vi } from 'vitest'
 import '@testing-library/jest-dom/vitest'
+import { historyStore } from '../src/utils/history'
+import { perFileIgnoresStore } from '../src/utils/perFileIgnores'
+import { profileStore } from '../src/utils/profiles'
+import { ruleOptionsStore } from '../src/utils/ruleOptions'
 import { ruleSettingsStore } from '../src/utils/ruleSettings'
+import {
+  MemoryStorageAdapter,
+  setStorageAdapter,
+} from '../src/utils/storageAdapters'
 
-// localStorageのモックを各テストの前に設定
+// 各テストの前にメモリ上のストレージに切り替える
 beforeEach(() => {
-  const localStorageMock = (() => {
-    let store: Record<string, string> = {}
-
-    return {
-      getItem: (key: string) => store[key] || null,
-      setItem: (key: string, value: string) => {
-        store[key] = value
-      },
-      removeItem: (key: string) => {
-        delete store[key]
-      },
-      clear: () => {
-        store = {}
-      },
-      get length() {
-        return Object.keys(store).length
-      },
-      key: (index: number) => Object.keys(store)[index] || null,
-    }
-  })()
-
-  // グローバルに設定
-  global.localStorage = localStorageMock as Storage
-  // windowオブジェクト全体を上書きせず、localStorageだけを設定
-  if (typeof window !== 'undefined') {
-    Object.defineProperty(window, 'localStorage', {
-      value: localStorageMock,
-      writable: true,
-    })
-  }
+  setStorageAdapter(new MemoryStorageAdapter())
 
   // ruleSettingsStoreのキャッシュをクリア
+  profileStore.clear()
   ruleSettingsStore.clearAll()
+  perFileIgnoresStore.clear()
+  ruleOptionsStore.clear()
+  historyStore.clear()
 })
 
 afterEach(() => {
-  global.localStorage.clear()
+  profileStore.clear()
   ruleSettingsStore.clearAll()
+  perFileIgnoresStore.clear()
+  ruleOptionsStore.clear()
+  historyStore.clear()
   vi.clearAllMocks()
 })
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import { ruleSettingsStore } from '../src/utils/ruleSettings'
+import {
+  decodeShareFragment,
+  encodeShareFragment,
+  getSharedSettings,
+  importSharedSettings,
+} from '../src/utils/shareLink'
+import { createRule } from './helpers/rules'
+
+const rule = (code: string) =>
+  createRule(code, { name: `rule-${code.toLowerCase()}`, category: 'Sample' })
+
+describe('shareLink', () => {
+  const rules = [rule('D100'), rule('E501'), rule('F401')]
+
+  describe('getSharedSettings', () => {
+    it('無効なルールとその理由を取得する', () => {
+      ruleSettingsStore.set('D100', { enabled: false })
+      ruleSettingsStore.set('E501', { enabled: false, comment: 'formatter' })
+      ruleSettingsStore.set('F401', { enabled: true, comment: 'memo' })
+
+      expect(getSharedSettings(rules)).toEqual({ D100: '', E501: 'formatter' })
+    })
+  })
+
+  describe('encodeShareFragment / decodeShareFragment', () => {
+    it('エンコードした設定を復元できる', async () => {
+      const shared = { D100: '', E501: '行の長さはformatterに任せる' }
+
+      const fragment = await encodeShareFragment(shared)
+
+      expect(fragment).toMatch(/^share=[A-Za-z0-9_-]+$/)
+      expect(await decodeShareFragment(`#${fragment}`)).toEqual(shared)
+    })
+
+    it('共有リンクでない場合はnullを返す', async () => {
+      expect(await decodeShareFragment('')).toBeNull()
+      expect(await decodeShareFragment('#rule-E501')).toBeNull()
+    })
+
+    it('壊れたリンクはエラーになる', async () => {
+      await expect(decodeShareFragment('#share=broken')).rejects.toThrow(
+        'Invalid share link'
+      )
+    })
+  })
+
+  describe('importSharedSettings', () => {
+    it('リンクに含まれないルールは有効にし、理由は手元のものを残す', () => {
+      ruleSettingsStore.set('F401', { enabled: false, comment: 'memo' })
+
+      const result = importSharedSettings(
+        { E501: 'formatter', X999: '' },
+        rules
+      )
+
+      expect(result.settings).toEqual({
+        D100: { enabled: true },
+        E501: { enabled: false, comment: 'formatter' },
+        F401: { enabled: true, comment: 'memo' },
+      })
+      expect(result.unknownCodes).toEqual(['X999'])
+    })
+  })
+})
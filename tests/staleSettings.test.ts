@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest'
+import type { RuffRule } from '../src/types/rules'
+import { ruleSettingsStore } from '../src/utils/ruleSettings'
+import {
+  discardSetting,
+  findStaleSettings,
+  keepSetting,
+  migrateSetting,
+} from '../src/utils/staleSettings'
+import { getStorage } from '../src/utils/storageAdapters'
+import { createRule } from './helpers/rules'
+
+const rule = (code: string, status: RuffRule['status']) =>
+  createRule(code, {
+    name: `rule-${code.toLowerCase()}`,
+    category: 'Sample',
+    status,
+  })
+
+describe('staleSettings', () => {
+  const rules = [
+    rule('ANN101', 'removed'),
+    rule('E501', 'stable'),
+    rule('PLR0913', 'stable'),
+  ]
+
+  describe('findStaleSettings', () => {
+    it('存在しないルールとremovedのルールの設定を返す', () => {
+      ruleSettingsStore.set('E501', { enabled: false })
+      ruleSettingsStore.set('ANN101', { enabled: false, comment: '型は別途' })
+      ruleSettingsStore.set('TRY200', { enabled: true, unfixable: true })
+
+      expect(findStaleSettings(rules)).toEqual([
+        {
+          code: 'ANN101',
+          reason: 'removed',
+          setting: { enabled: false, comment: '型は別途' },
+          rule: rules[0],
+        },
+        {
+          code: 'TRY200',
+          reason: 'orphaned',
+          setting: { enabled: true, unfixable: true },
+        },
+      ])
+    })
+
+    it('最新のバージョンにのみ存在するルールの設定は対象にしない', () => {
+      ruleSettingsStore.set('FURB101', { enabled: false })
+      ruleSettingsStore.set('TRY200', { enabled: false })
+
+      expect(
+        findStaleSettings(rules, ['FURB101']).map((stale) => stale.code)
+      ).toEqual(['TRY200'])
+    })
+
+    it('デフォルトと同じ設定は対象にしない', () => {
+      ruleSettingsStore.set('TRY200', { enabled: true, comment: '' })
+      ruleSettingsStore.set('ANN101', { enabled: true })
+
+      expect(findStaleSettings(rules)).toEqual([])
+    })
+  })
+
+  describe('migrateSetting', () => {
+    it('設定を移行先のルールに移し、元の設定を削除する', () => {
+      ruleSettingsStore.set('TRY200', {
+        enabled: false,
+        comment: 'B904を使う',
+      })
+      ruleSettingsStore.set('PLR0913', { enabled: true, unfixable: true })
+
+      migrateSetting('TRY200', 'PLR0913')
+
+      expect(ruleSettingsStore.getSyncWithStorage('PLR0913')).toEqual({
+        enabled: false,
+        comment: 'B904を使う',
+      })
+      expect(ruleSettingsStore.getStoredCodes()).not.toContain('TRY200')
+      expect(findStaleSettings(rules)).toEqual([])
+    })
+
+    it('同じコードには移行できない', () => {
+      expect(() => migrateSetting('E501', 'E501')).toThrow(
+        'Cannot migrate E501 to itself'
+      )
+    })
+  })
+
+  describe('keepSetting / discardSetting', () => {
+    it('保持した設定は通知せず、設定は残す', () => {
+      ruleSettingsStore.set('TRY200', { enabled: false })
+
+      keepSetting('TRY200')
+
+      expect(findStaleSettings(rules)).toEqual([])
+      expect(ruleSettingsStore.getSyncWithStorage('TRY200')).toEqual({
+        enabled: false,
+      })
+    })
+
+    it('破棄した設定は削除される', () => {
+      ruleSettingsStore.set('TRY200', { enabled: false })
+      keepSetting('TRY200')
+
+      discardSetting('TRY200')
+
+      expect(ruleSettingsStore.getStoredCodes()).toEqual([])
+      expect(getStorage().getItem('stale-settings-kept')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { ruleSettingsStore } from '../src/utils/ruleSettings'
+import {
+  LocalStorageAdapter,
+  MemoryStorageAdapter,
+  getStorage,
+  setStorageAdapter,
+} from '../src/utils/storageAdapters'
+
+describe('MemoryStorageAdapter', () => {
+  it('値を保存・取得・削除できる', () => {
+    const storage = new MemoryStorageAdapter()
+
+    storage.setItem('settings', '{}')
+    storage.setItem('history', '[]')
+    expect(storage.getItem('settings')).toBe('{}')
+    expect(storage.keys()).toEqual(['settings', 'history'])
+
+    storage.removeItem('settings')
+    expect(storage.getItem('settings')).toBeNull()
+    expect(storage.keys()).toEqual(['history'])
+  })
+
+  it('同じデータを共有する他のタブの変更のみを通知する', () => {
+    const storage = new MemoryStorageAdapter()
+    const otherTab = storage.createPeer()
+    const listener = vi.fn()
+    const stop = storage.subscribe(listener)
+
+    storage.setItem('settings', '{}')
+    expect(listener).not.toHaveBeenCalled()
+
+    otherTab.setItem('history', '[]')
+    otherTab.removeItem('settings')
+    expect(storage.getItem('history')).toBe('[]')
+    expect(listener.mock.calls).toEqual([['history'], ['settings']])
+
+    stop()
+    otherTab.setItem('settings', '{}')
+    expect(listener).toHaveBeenCalledTimes(2)
+  })
+
+  it('別のアダプタとはデータを共有しない', () => {
+    const storage = new MemoryStorageAdapter()
+    new MemoryStorageAdapter().setItem('settings', '{}')
+
+    expect(storage.getItem('settings')).toBeNull()
+  })
+})
+
+describe('LocalStorageAdapter', () => {
+  afterEach(() => {
+    localStorage.clear()
+  })
+
+  it('localStorageに保存する', () => {
+    const storage = new LocalStorageAdapter()
+
+    storage.setItem('settings', '{}')
+    expect(localStorage.getItem('settings')).toBe('{}')
+    expect(storage.keys()).toEqual(['settings'])
+
+    storage.removeItem('settings')
+    expect(storage.keys()).toEqual([])
+  })
+
+  it('storageイベントで他のタブの変更を通知する', () => {
+    const listener = vi.fn()
+    const stop = new LocalStorageAdapter().subscribe(listener)
+
+    window.dispatchEvent(
+      new StorageEvent('storage', {
+        key: 'settings',
+        storageArea: localStorage,
+      })
+    )
+    // sessionStorageの変更は無視する
+    window.dispatchEvent(
+      new StorageEvent('storage', {
+        key: 'settings',
+        storageArea: sessionStorage,
+      })
+    )
+    stop()
+    window.dispatchEvent(
+      new StorageEvent('storage', {
+        key: 'settings',
+        storageArea: localStorage,
+      })
+    )
+
+    expect(listener.mock.calls).toEqual([['settings']])
+  })
+})
+
+describe('setStorageAdapter', () => {
+  it('各ストアが切り替えたアダプタに保存する', () => {
+    const storage = new MemoryStorageAdapter()
+    setStorageAdapter(storage)
+    ruleSettingsStore.clearCache()
+
+    ruleSettingsStore.set('E501', { enabled: false })
+
+    expect(getStorage()).toBe(storage)
+    expect(JSON.parse(storage.getItem('settings')!).rules).toEqual({
+      E501: { enabled: false },
+    })
+  })
+})
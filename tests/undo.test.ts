@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import { historyStore } from '../src/utils/history'
+import { perFileIgnoresStore } from '../src/utils/perFileIgnores'
+import { ruleOptionsStore } from '../src/utils/ruleOptions'
+import { ruleSettingsStore } from '../src/utils/ruleSettings'
+import { redo, resetSettings, revertEntry, undo } from '../src/utils/undo'
+
+describe('undo', () => {
+  it('直前の変更を元に戻し、やり直せる', () => {
+    ruleSettingsStore.set('E501', { enabled: false, comment: 'formatter' })
+
+    undo()
+    expect(ruleSettingsStore.getSyncWithStorage('E501')).toEqual({
+      enabled: true,
+    })
+    // デフォルト値に戻ったルールは保存された設定から削除される
+    expect(ruleSettingsStore.getStoredCodes()).not.toContain('E501')
+
+    redo()
+    expect(ruleSettingsStore.getSyncWithStorage('E501')).toEqual({
+      enabled: false,
+      comment: 'formatter',
+    })
+    expect(historyStore.getEntries()).toHaveLength(1)
+  })
+
+  it('元に戻す変更が無い場合は何もしない', () => {
+    expect(undo()).toBeUndefined()
+    expect(redo()).toBeUndefined()
+  })
+
+  it('settings-updatedイベントで変更したルールを通知する', () => {
+    ruleSettingsStore.setMany({ E501: { enabled: false } })
+    const received: string[] = []
+    const handler = (e: Event) => {
+      received.push(...(e as CustomEvent).detail.ruleCodes)
+    }
+    window.addEventListener('settings-updated', handler)
+
+    undo()
+    window.removeEventListener('settings-updated', handler)
+
+    expect(received).toEqual(['E501'])
+  })
+})
+
+describe('revertEntry', () => {
+  it('指定した履歴だけを取り消し、以降の変更は残す', () => {
+    ruleSettingsStore.set('E501', { enabled: false })
+    ruleSettingsStore.set('F401', { enabled: false })
+    const [first] = historyStore.getEntries()
+
+    revertEntry(first.id)
+
+    expect(ruleSettingsStore.getSyncWithStorage('E501').enabled).toBe(true)
+    expect(ruleSettingsStore.getSyncWithStorage('F401').enabled).toBe(false)
+
+    // 取り消し自体も履歴に残り、元に戻せる
+    const entries = historyStore.getEntries()
+    expect(entries).toHaveLength(3)
+    expect(entries[2].action).toBe('revert')
+    undo()
+    expect(ruleSettingsStore.getSyncWithStorage('E501').enabled).toBe(false)
+  })
+
+  it('存在しない履歴はエラー', () => {
+    expect(() => revertEntry('missing')).toThrow(
+      'Unknown history entry: missing'
+    )
+  })
+})
+
+describe('resetSettings', () => {
+  it('リセットを元に戻すとper-file-ignoresと設定値も復元する', () => {
+    ruleSettingsStore.set('E501', { enabled: false, comment: 'formatter' })
+    perFileIgnoresStore.addRule('tests/*', 'S101')
+    ruleOptionsStore.set('lint.pycodestyle.max-line-length', '100')
+
+    resetSettings()
+    expect(ruleSettingsStore.getStoredCodes()).toEqual([])
+    expect(perFileIgnoresStore.getAll()).toEqual({})
+    expect(historyStore.getEntries().at(-1)?.action).toBe('reset')
+
+    undo()
+    expect(ruleSettingsStore.getSyncWithStorage('E501')).toEqual({
+      enabled: false,
+      comment: 'formatter',
+    })
+    expect(perFileIgnoresStore.getAll()).toEqual({ 'tests/*': ['S101'] })
+    expect(ruleOptionsStore.getAll()).toEqual({
+      'lint.pycodestyle.max-line-length': '100',
+    })
+  })
+})